@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity =0.7.6;
+pragma abicoder v2;
+
+import './interfaces/ICompounder.sol';
+import './interfaces/INonfungiblePositionManager.sol';
+import './libraries/PoolAddress.sol';
+import './libraries/PositionAuthorization.sol';
+import './base/Multicall.sol';
+import './base/SwapAndAddLiquidity.sol';
+
+/// @title Compounder
+/// @notice Reinvests the fees of positions of the NonfungiblePositionManager into the positions
+contract Compounder is ICompounder, Multicall, SwapAndAddLiquidity {
+    // the details of a position that the compound depends on
+    struct Position {
+        PoolAddress.PoolKey poolKey;
+        int24 tickLower;
+        int24 tickUpper;
+    }
+
+    constructor(address _nonfungiblePositionManager, address _swapRouter)
+        SwapAndAddLiquidity(
+            IPeripheryImmutableState(_nonfungiblePositionManager).factory(),
+            IPeripheryImmutableState(_nonfungiblePositionManager).WETH9(),
+            _nonfungiblePositionManager,
+            _swapRouter
+        )
+    {}
+
+    /// @inheritdoc ICompounder
+    function compound(CompoundParams calldata params)
+        external
+        override
+        returns (
+            uint128 liquidity,
+            uint256 amount0,
+            uint256 amount1
+        )
+    {
+        INonfungiblePositionManager nft = INonfungiblePositionManager(nonfungiblePositionManager);
+        require(PositionAuthorization.isAuthorizedForToken(nft, msg.sender, params.tokenId), 'Not approved');
+        address owner = nft.ownerOf(params.tokenId);
+
+        Position memory position = getPosition(params.tokenId);
+        (uint256 amount0Desired, uint256 amount1Desired) =
+            nft.collect(
+                INonfungiblePositionManager.CollectParams({
+                    tokenId: params.tokenId,
+                    recipient: address(this),
+                    amount0Max: type(uint128).max,
+                    amount1Max: type(uint128).max
+                })
+            );
+        require(amount0Desired > 0 || amount1Desired > 0, 'No fees');
+
+        (amount0Desired, amount1Desired) = swapToRatio(
+            position.poolKey,
+            position.tickLower,
+            position.tickUpper,
+            amount0Desired,
+            amount1Desired,
+            params.deadline
+        );
+
+        // the dust is refunded to the owner
+        (liquidity, amount0, amount1) = increaseLiquidity(
+            INonfungiblePositionManager.IncreaseLiquidityParams({
+                tokenId: params.tokenId,
+                amount0Desired: amount0Desired,
+                amount1Desired: amount1Desired,
+                amount0Min: 0,
+                amount1Min: 0,
+                deadline: params.deadline
+            }),
+            position.poolKey,
+            params.liquidityMin,
+            owner
+        );
+
+        emit Compounded(params.tokenId, liquidity, amount0, amount1);
+    }
+
+    function getPosition(uint256 tokenId) private view returns (Position memory position) {
+        PoolAddress.PoolKey memory poolKey = position.poolKey;
+        (
+            ,
+            ,
+            poolKey.token0,
+            poolKey.token1,
+            poolKey.fee,
+            position.tickLower,
+            position.tickUpper,
+            ,
+            ,
+            ,
+            ,
+
+        ) = INonfungiblePositionManager(nonfungiblePositionManager).positions(tokenId);
+    }
+}
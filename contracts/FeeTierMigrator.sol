@@ -0,0 +1,208 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity =0.7.6;
+pragma abicoder v2;
+
+import '@uniswap/v3-core/contracts/interfaces/IUniswapV3Factory.sol';
+import '@uniswap/v3-core/contracts/libraries/TickMath.sol';
+
+import './interfaces/IFeeTierMigrator.sol';
+import './interfaces/INonfungiblePositionManager.sol';
+import './libraries/PoolAddress.sol';
+import './libraries/PositionAuthorization.sol';
+import './libraries/TransferHelper.sol';
+import './base/PeripheryImmutableState.sol';
+import './base/Multicall.sol';
+import './base/PoolInitializerWithCardinality.sol';
+
+/// @title Fee Tier Migrator
+/// @notice Moves the liquidity of positions of the NonfungiblePositionManager between fee tiers
+contract FeeTierMigrator is IFeeTierMigrator, PeripheryImmutableState, PoolInitializerWithCardinality, Multicall {
+    /// @inheritdoc IFeeTierMigrator
+    address public immutable override nonfungiblePositionManager;
+
+    constructor(
+        address _factory,
+        address _WETH9,
+        address _nonfungiblePositionManager
+    ) PeripheryImmutableState(_factory, _WETH9) {
+        nonfungiblePositionManager = _nonfungiblePositionManager;
+    }
+
+    /// @inheritdoc IFeeTierMigrator
+    function selfPermitPosition(
+        uint256 tokenId,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external override {
+        INonfungiblePositionManager(nonfungiblePositionManager).permit(address(this), tokenId, deadline, v, r, s);
+    }
+
+    /// @inheritdoc IFeeTierMigrator
+    function migrate(MigrateParams calldata params)
+        external
+        override
+        returns (
+            uint256 newTokenId,
+            uint128 liquidity,
+            uint256 refund0,
+            uint256 refund1
+        )
+    {
+        require(
+            PositionAuthorization.isAuthorizedForToken(
+                INonfungiblePositionManager(nonfungiblePositionManager),
+                msg.sender,
+                params.tokenId
+            ),
+            'Not approved'
+        );
+
+        (PoolAddress.PoolKey memory poolKey, int24 tickLower, int24 tickUpper, uint256 amount0, uint256 amount1) =
+            withdraw(params.tokenId, params.deadline);
+        require(params.fee != poolKey.fee, 'Same fee');
+        (tickLower, tickUpper) = snapRange(tickLower, tickUpper, params.fee);
+
+        uint256 amount0Migrated;
+        uint256 amount1Migrated;
+        (newTokenId, liquidity, amount0Migrated, amount1Migrated) = mint(
+            poolKey,
+            params,
+            tickLower,
+            tickUpper,
+            amount0,
+            amount1
+        );
+
+        // if necessary, clear allowance and refund dust to the recipient
+        if (amount0Migrated < amount0) {
+            refund0 = amount0 - amount0Migrated;
+            TransferHelper.safeApprove(poolKey.token0, nonfungiblePositionManager, 0);
+            TransferHelper.safeTransfer(poolKey.token0, params.recipient, refund0);
+        }
+        if (amount1Migrated < amount1) {
+            refund1 = amount1 - amount1Migrated;
+            TransferHelper.safeApprove(poolKey.token1, nonfungiblePositionManager, 0);
+            TransferHelper.safeTransfer(poolKey.token1, params.recipient, refund1);
+        }
+
+        emit Migrated(params.tokenId, newTokenId, params.fee, liquidity, refund0, refund1);
+    }
+
+    /// @dev Removes all the liquidity of the position, collects it with the fees to this contract and burns the position
+    function withdraw(uint256 tokenId, uint256 deadline)
+        private
+        returns (
+            PoolAddress.PoolKey memory poolKey,
+            int24 tickLower,
+            int24 tickUpper,
+            uint256 amount0,
+            uint256 amount1
+        )
+    {
+        INonfungiblePositionManager nft = INonfungiblePositionManager(nonfungiblePositionManager);
+        uint128 liquidity;
+        (, , poolKey.token0, poolKey.token1, poolKey.fee, tickLower, tickUpper, liquidity, , , , ) = nft.positions(
+            tokenId
+        );
+
+        if (liquidity > 0) {
+            nft.decreaseLiquidity(
+                INonfungiblePositionManager.DecreaseLiquidityParams({
+                    tokenId: tokenId,
+                    liquidity: liquidity,
+                    amount0Min: 0,
+                    amount1Min: 0,
+                    deadline: deadline
+                })
+            );
+        }
+        (amount0, amount1) = nft.collect(
+            INonfungiblePositionManager.CollectParams({
+                tokenId: tokenId,
+                recipient: address(this),
+                amount0Max: type(uint128).max,
+                amount1Max: type(uint128).max
+            })
+        );
+        nft.burn(tokenId);
+    }
+
+    /// @dev Mints the position in the pool of the new fee with up to the withdrawn amounts
+    function mint(
+        PoolAddress.PoolKey memory poolKey,
+        MigrateParams calldata params,
+        int24 tickLower,
+        int24 tickUpper,
+        uint256 amount0,
+        uint256 amount1
+    )
+        private
+        returns (
+            uint256 tokenId,
+            uint128 liquidity,
+            uint256 amount0Migrated,
+            uint256 amount1Migrated
+        )
+    {
+        // approve the position manager up to the maximum token amounts
+        TransferHelper.safeApprove(poolKey.token0, nonfungiblePositionManager, amount0);
+        TransferHelper.safeApprove(poolKey.token1, nonfungiblePositionManager, amount1);
+
+        return
+            INonfungiblePositionManager(nonfungiblePositionManager).mint(
+                INonfungiblePositionManager.MintParams({
+                    token0: poolKey.token0,
+                    token1: poolKey.token1,
+                    fee: params.fee,
+                    tickLower: tickLower,
+                    tickUpper: tickUpper,
+                    amount0Desired: amount0,
+                    amount1Desired: amount1,
+                    amount0Min: params.amount0Min,
+                    amount1Min: params.amount1Min,
+                    recipient: params.recipient,
+                    deadline: params.deadline
+                })
+            );
+    }
+
+    /// @dev Rounds each tick of the range to the nearest usable tick of the tick spacing of the fee, widening the range
+    /// by one tick spacing if both ticks round to the same tick
+    function snapRange(
+        int24 tickLower,
+        int24 tickUpper,
+        uint24 fee
+    ) private view returns (int24, int24) {
+        int24 tickSpacing = IUniswapV3Factory(factory).feeAmountTickSpacing(fee);
+        require(tickSpacing > 0, 'Invalid fee');
+
+        int24 minTick = (TickMath.MIN_TICK / tickSpacing) * tickSpacing;
+        int24 maxTick = (TickMath.MAX_TICK / tickSpacing) * tickSpacing;
+        tickLower = nearestUsableTick(tickLower, tickSpacing, minTick, maxTick);
+        tickUpper = nearestUsableTick(tickUpper, tickSpacing, minTick, maxTick);
+        if (tickLower == tickUpper) {
+            if (tickUpper < maxTick) tickUpper += tickSpacing;
+            else tickLower -= tickSpacing;
+        }
+        return (tickLower, tickUpper);
+    }
+
+    /// @dev Rounds the tick to the nearest multiple of the tick spacing, rounding halfway ticks up, within the usable
+    /// ticks
+    function nearestUsableTick(
+        int24 tick,
+        int24 tickSpacing,
+        int24 minTick,
+        int24 maxTick
+    ) private pure returns (int24 rounded) {
+        int256 numerator = int256(tick) * 2 + tickSpacing;
+        int256 denominator = int256(tickSpacing) * 2;
+        int256 compressed = numerator / denominator;
+        if (numerator < 0 && numerator % denominator != 0) compressed--; // round towards negative infinity
+        rounded = int24(compressed * tickSpacing);
+        if (rounded < minTick) rounded = minTick;
+        else if (rounded > maxTick) rounded = maxTick;
+    }
+}
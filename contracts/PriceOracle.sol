@@ -0,0 +1,161 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity =0.7.6;
+pragma abicoder v2;
+
+import '@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol';
+import '@uniswap/v3-core/contracts/libraries/TickMath.sol';
+
+import './interfaces/IPriceOracle.sol';
+import './libraries/OracleLibrary.sol';
+import './libraries/PoolAddress.sol';
+
+/// @title Price Oracle
+/// @notice Quotes time-weighted average prices along a path of tokens from the oracles of Uniswap V3 pools
+contract PriceOracle is IPriceOracle {
+    /// @inheritdoc IPriceOracle
+    address public immutable override factory;
+
+    constructor(address _factory) {
+        factory = _factory;
+    }
+
+    /// @inheritdoc IPriceOracle
+    function quote(
+        address[] calldata tokens,
+        uint24[][] calldata fees,
+        uint128 baseAmount,
+        uint32 period
+    )
+        external
+        view
+        override
+        returns (
+            uint256 quoteAmount,
+            int24 arithmeticMeanTick,
+            uint32 shortestPeriod,
+            uint32 staleness,
+            uint128 harmonicMeanLiquidity
+        )
+    {
+        require(tokens.length > 1 && fees.length == tokens.length - 1, 'Invalid path');
+        require(period > 0, 'Invalid period');
+
+        int24[] memory ticks;
+        (ticks, shortestPeriod, staleness, harmonicMeanLiquidity) = consultPath(tokens, fees, period);
+
+        (quoteAmount, arithmeticMeanTick) = getQuoteAtChainedTick(tokens, ticks, baseAmount);
+    }
+
+    /// @dev Chains the ticks of the hops into the tick of the price of the first token in terms of the last, and
+    /// quotes the base amount at that tick
+    function getQuoteAtChainedTick(
+        address[] calldata tokens,
+        int24[] memory ticks,
+        uint128 baseAmount
+    ) private pure returns (uint256 quoteAmount, int24 arithmeticMeanTick) {
+        int256 syntheticTick = OracleLibrary.getChainedPrice(tokens, ticks);
+        require(syntheticTick >= TickMath.MIN_TICK && syntheticTick <= TickMath.MAX_TICK, 'Tick out of range');
+        arithmeticMeanTick = int24(syntheticTick);
+
+        address quoteToken = tokens[tokens.length - 1];
+        // the quote takes the tick of the price of the lower of the two tokens in terms of the higher
+        quoteAmount = OracleLibrary.getQuoteAtTick(
+            tokens[0] < quoteToken ? arithmeticMeanTick : -arithmeticMeanTick,
+            baseAmount,
+            tokens[0],
+            quoteToken
+        );
+    }
+
+    /// @dev Returns the mean tick of each hop of the path, along with the shortest period and the largest staleness of
+    /// all the pools and the smallest harmonic mean liquidity of any hop
+    function consultPath(
+        address[] calldata tokens,
+        uint24[][] calldata fees,
+        uint32 period
+    )
+        private
+        view
+        returns (
+            int24[] memory ticks,
+            uint32 shortestPeriod,
+            uint32 staleness,
+            uint128 harmonicMeanLiquidity
+        )
+    {
+        shortestPeriod = period;
+        harmonicMeanLiquidity = type(uint128).max;
+
+        ticks = new int24[](fees.length);
+        for (uint256 i = 0; i < fees.length; i++) {
+            uint32 hopPeriod;
+            uint32 hopStaleness;
+            uint128 hopLiquidity;
+            (ticks[i], hopPeriod, hopStaleness, hopLiquidity) = consultHop(tokens[i], tokens[i + 1], fees[i], period);
+
+            if (hopPeriod < shortestPeriod) shortestPeriod = hopPeriod;
+            if (hopStaleness > staleness) staleness = hopStaleness;
+            if (hopLiquidity < harmonicMeanLiquidity) harmonicMeanLiquidity = hopLiquidity;
+        }
+    }
+
+    /// @dev Returns the mean tick of the pools of a hop, weighted by their harmonic mean liquidity, along with the
+    /// shortest period and the largest staleness of the pools and the sum of their harmonic mean liquidity
+    function consultHop(
+        address tokenA,
+        address tokenB,
+        uint24[] calldata fees,
+        uint32 period
+    )
+        private
+        view
+        returns (
+            int24 tick,
+            uint32 shortestPeriod,
+            uint32 staleness,
+            uint128 harmonicMeanLiquidity
+        )
+    {
+        require(fees.length > 0, 'No pools');
+
+        shortestPeriod = period;
+        uint256 totalLiquidity;
+
+        OracleLibrary.WeightedTickData[] memory weightedTickData = new OracleLibrary.WeightedTickData[](fees.length);
+        for (uint256 i = 0; i < fees.length; i++) {
+            address pool = getPool(tokenA, tokenB, fees[i]);
+
+            (uint32 poolPeriod, uint32 poolStaleness) = getWindow(pool, period);
+            (weightedTickData[i].tick, weightedTickData[i].weight) = OracleLibrary.consult(pool, poolPeriod);
+
+            if (poolPeriod < shortestPeriod) shortestPeriod = poolPeriod;
+            if (poolStaleness > staleness) staleness = poolStaleness;
+            totalLiquidity += weightedTickData[i].weight;
+        }
+        require(totalLiquidity > 0, 'No liquidity');
+
+        tick = OracleLibrary.getWeightedArithmeticMeanTick(weightedTickData);
+        harmonicMeanLiquidity = totalLiquidity > type(uint128).max ? type(uint128).max : uint128(totalLiquidity);
+    }
+
+    /// @dev Returns the period to consult the pool for, which is the given period unless the oracle of the pool does
+    /// not go back that far, and the number of seconds since the last observation of the pool
+    function getWindow(address pool, uint32 period) private view returns (uint32 poolPeriod, uint32 staleness) {
+        uint32 oldestObservationSecondsAgo = OracleLibrary.getOldestObservationSecondsAgo(pool);
+        poolPeriod = period < oldestObservationSecondsAgo ? period : oldestObservationSecondsAgo;
+        require(poolPeriod > 0, 'No history');
+
+        (, , uint16 observationIndex, , , , ) = IUniswapV3Pool(pool).slot0();
+        (uint32 observationTimestamp, , , ) = IUniswapV3Pool(pool).observations(observationIndex);
+        staleness = uint32(block.timestamp) - observationTimestamp;
+    }
+
+    /// @dev Returns the pool of the pair of tokens and the fee. Overridden for tests
+    function getPool(
+        address tokenA,
+        address tokenB,
+        uint24 fee
+    ) internal view virtual returns (address) {
+        return PoolAddress.computeAddress(factory, PoolAddress.getPoolKey(tokenA, tokenB, fee));
+    }
+}
@@ -0,0 +1,235 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity =0.7.6;
+pragma abicoder v2;
+
+import '@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol';
+import '@uniswap/v3-core/contracts/libraries/FixedPoint128.sol';
+import '@uniswap/v3-core/contracts/libraries/FullMath.sol';
+
+import './interfaces/IRangeOrderManager.sol';
+import './libraries/PositionKey.sol';
+import './libraries/PoolAddress.sol';
+import './base/LiquidityManagement.sol';
+import './base/PeripheryImmutableState.sol';
+import './base/Multicall.sol';
+import './base/PeripheryValidation.sol';
+
+/// @title Range orders
+/// @notice Holds the liquidity of range orders and closes them for their owners
+contract RangeOrderManager is
+    IRangeOrderManager,
+    Multicall,
+    PeripheryImmutableState,
+    LiquidityManagement,
+    PeripheryValidation
+{
+    // details about a range order
+    struct Order {
+        // the address that receives the proceeds of the order
+        address owner;
+        // the fee of the pool, the tokens of the pool are stored below
+        uint24 fee;
+        // the range of the order, which is one tick spacing wide
+        int24 tickLower;
+        int24 tickUpper;
+        // whether the order sells token0 for token1, or token1 for token0
+        bool zeroForOne;
+        address token0;
+        address token1;
+        // the liquidity of the order
+        uint128 liquidity;
+        // the fee growth of the aggregate position as of placing the order
+        uint256 feeGrowthInside0LastX128;
+        uint256 feeGrowthInside1LastX128;
+    }
+
+    /// @dev The order data by order ID
+    mapping(uint256 => Order) private _orders;
+
+    /// @dev The ID of the next order that will be placed. Skips 0
+    uint256 private _nextId = 1;
+
+    constructor(address _factory, address _WETH9) PeripheryImmutableState(_factory, _WETH9) {}
+
+    /// @inheritdoc IRangeOrderManager
+    function orders(uint256 orderId)
+        external
+        view
+        override
+        returns (
+            address owner,
+            address token0,
+            address token1,
+            uint24 fee,
+            int24 tickLower,
+            int24 tickUpper,
+            bool zeroForOne,
+            uint128 liquidity,
+            uint256 feeGrowthInside0LastX128,
+            uint256 feeGrowthInside1LastX128
+        )
+    {
+        Order memory order = _orders[orderId];
+        return (
+            order.owner,
+            order.token0,
+            order.token1,
+            order.fee,
+            order.tickLower,
+            order.tickUpper,
+            order.zeroForOne,
+            order.liquidity,
+            order.feeGrowthInside0LastX128,
+            order.feeGrowthInside1LastX128
+        );
+    }
+
+    function getPool(Order memory order) private view returns (IUniswapV3Pool) {
+        return
+            IUniswapV3Pool(
+                PoolAddress.computeAddress(
+                    factory,
+                    PoolAddress.PoolKey({token0: order.token0, token1: order.token1, fee: order.fee})
+                )
+            );
+    }
+
+    /// @inheritdoc IRangeOrderManager
+    function isFilled(uint256 orderId) public view override returns (bool) {
+        Order memory order = _orders[orderId];
+        require(order.owner != address(0), 'Invalid order ID');
+        (, int24 tick, , , , , ) = getPool(order).slot0();
+        // the liquidity has been swapped entirely once the tick is past the far end of the range
+        return order.zeroForOne ? tick >= order.tickUpper : tick < order.tickLower;
+    }
+
+    /// @inheritdoc IRangeOrderManager
+    function placeOrder(PlaceOrderParams calldata params)
+        external
+        payable
+        override
+        checkDeadline(params.deadline)
+        returns (
+            uint256 orderId,
+            uint128 liquidity,
+            uint256 amountIn
+        )
+    {
+        require(params.owner != address(0), 'Invalid owner');
+        IUniswapV3Pool pool =
+            IUniswapV3Pool(
+                PoolAddress.computeAddress(
+                    factory,
+                    PoolAddress.PoolKey({token0: params.token0, token1: params.token1, fee: params.fee})
+                )
+            );
+        int24 tickUpper = params.tickLower + pool.tickSpacing();
+
+        // the range must be entirely on the side of the price that only takes the token sold
+        {
+            (, int24 tick, , , , , ) = pool.slot0();
+            require(params.zeroForOne ? tick < params.tickLower : tick >= tickUpper, 'Range not out of price');
+        }
+
+        {
+            uint256 amount0;
+            uint256 amount1;
+            (liquidity, amount0, amount1, ) = addLiquidity(
+                AddLiquidityParams({
+                    token0: params.token0,
+                    token1: params.token1,
+                    fee: params.fee,
+                    recipient: address(this),
+                    tickLower: params.tickLower,
+                    tickUpper: tickUpper,
+                    amount0Desired: params.zeroForOne ? params.amountIn : 0,
+                    amount1Desired: params.zeroForOne ? 0 : params.amountIn,
+                    amount0Min: 0,
+                    amount1Min: 0
+                })
+            );
+            amountIn = params.zeroForOne ? amount0 : amount1;
+        }
+
+        orderId = _nextId++;
+        storeOrder(orderId, params, pool, tickUpper, liquidity);
+    }
+
+    /// @dev Records the order with the current fee growth inside its range
+    function storeOrder(
+        uint256 orderId,
+        PlaceOrderParams calldata params,
+        IUniswapV3Pool pool,
+        int24 tickUpper,
+        uint128 liquidity
+    ) private {
+        bytes32 positionKey = PositionKey.compute(address(this), params.tickLower, tickUpper);
+        (, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, , ) = pool.positions(positionKey);
+
+        _orders[orderId] = Order({
+            owner: params.owner,
+            fee: params.fee,
+            tickLower: params.tickLower,
+            tickUpper: tickUpper,
+            zeroForOne: params.zeroForOne,
+            token0: params.token0,
+            token1: params.token1,
+            liquidity: liquidity,
+            feeGrowthInside0LastX128: feeGrowthInside0LastX128,
+            feeGrowthInside1LastX128: feeGrowthInside1LastX128
+        });
+
+        emit OrderPlaced(
+            orderId,
+            params.owner,
+            address(pool),
+            params.tickLower,
+            tickUpper,
+            params.zeroForOne,
+            liquidity
+        );
+    }
+
+    /// @inheritdoc IRangeOrderManager
+    function executeOrder(uint256 orderId) external override returns (uint256 amount0, uint256 amount1) {
+        require(isFilled(orderId), 'Not filled');
+        (amount0, amount1) = closeOrder(orderId, _orders[orderId].owner);
+        emit OrderExecuted(orderId, msg.sender, amount0, amount1);
+    }
+
+    /// @inheritdoc IRangeOrderManager
+    function cancelOrder(uint256 orderId, address recipient)
+        external
+        override
+        returns (uint256 amount0, uint256 amount1)
+    {
+        require(_orders[orderId].owner == msg.sender, 'Not owner');
+        (amount0, amount1) = closeOrder(orderId, recipient);
+        emit OrderCancelled(orderId, recipient, amount0, amount1);
+    }
+
+    /// @dev Burns the liquidity of the order and collects it with the fees it earned to the recipient
+    function closeOrder(uint256 orderId, address recipient) private returns (uint256 amount0, uint256 amount1) {
+        Order memory order = _orders[orderId];
+        delete _orders[orderId];
+
+        IUniswapV3Pool pool = getPool(order);
+        (amount0, amount1) = pool.burn(order.tickLower, order.tickUpper, order.liquidity);
+
+        // the fees of the order are its share of the fee growth of the aggregate position since it was placed
+        (, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, , ) =
+            pool.positions(PositionKey.compute(address(this), order.tickLower, order.tickUpper));
+        amount0 += FullMath.mulDiv(
+            feeGrowthInside0LastX128 - order.feeGrowthInside0LastX128,
+            order.liquidity,
+            FixedPoint128.Q128
+        );
+        amount1 += FullMath.mulDiv(
+            feeGrowthInside1LastX128 - order.feeGrowthInside1LastX128,
+            order.liquidity,
+            FixedPoint128.Q128
+        );
+
+        pool.collect(recipient, order.tickLower, order.tickUpper, uint128(amount0), uint128(amount1));
+    }
+}
@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity =0.7.6;
+pragma abicoder v2;
+
+import './interfaces/IRebalancer.sol';
+import './interfaces/INonfungiblePositionManager.sol';
+import './libraries/PoolAddress.sol';
+import './libraries/PositionAuthorization.sol';
+import './base/Multicall.sol';
+import './base/SwapAndAddLiquidity.sol';
+
+/// @title Rebalancer
+/// @notice Moves the liquidity of positions of the NonfungiblePositionManager to new ranges
+contract Rebalancer is IRebalancer, Multicall, SwapAndAddLiquidity {
+    constructor(address _nonfungiblePositionManager, address _swapRouter)
+        SwapAndAddLiquidity(
+            IPeripheryImmutableState(_nonfungiblePositionManager).factory(),
+            IPeripheryImmutableState(_nonfungiblePositionManager).WETH9(),
+            _nonfungiblePositionManager,
+            _swapRouter
+        )
+    {}
+
+    /// @inheritdoc IRebalancer
+    function rebalance(RebalanceParams calldata params)
+        external
+        override
+        returns (
+            uint256 newTokenId,
+            uint128 liquidity,
+            uint256 amount0,
+            uint256 amount1
+        )
+    {
+        INonfungiblePositionManager nft = INonfungiblePositionManager(nonfungiblePositionManager);
+        require(PositionAuthorization.isAuthorizedForToken(nft, msg.sender, params.tokenId), 'Not approved');
+
+        (PoolAddress.PoolKey memory poolKey, uint256 amount0Desired, uint256 amount1Desired) =
+            withdraw(params.tokenId, params.deadline);
+        (amount0Desired, amount1Desired) = swapToRatio(
+            poolKey,
+            params.tickLower,
+            params.tickUpper,
+            amount0Desired,
+            amount1Desired,
+            params.deadline
+        );
+
+        // the dust is refunded to the recipient
+        (newTokenId, liquidity, amount0, amount1) = mint(
+            INonfungiblePositionManager.MintParams({
+                token0: poolKey.token0,
+                token1: poolKey.token1,
+                fee: poolKey.fee,
+                tickLower: params.tickLower,
+                tickUpper: params.tickUpper,
+                amount0Desired: amount0Desired,
+                amount1Desired: amount1Desired,
+                amount0Min: 0,
+                amount1Min: 0,
+                recipient: params.recipient,
+                deadline: params.deadline
+            }),
+            params.liquidityMin,
+            params.recipient
+        );
+
+        emit Rebalanced(params.tokenId, newTokenId, liquidity, amount0, amount1);
+    }
+
+    /// @dev Removes all the liquidity of the position, collects it with the fees to this contract and burns the position
+    function withdraw(uint256 tokenId, uint256 deadline)
+        private
+        returns (
+            PoolAddress.PoolKey memory poolKey,
+            uint256 amount0,
+            uint256 amount1
+        )
+    {
+        INonfungiblePositionManager nft = INonfungiblePositionManager(nonfungiblePositionManager);
+        uint128 liquidity;
+        (, , poolKey.token0, poolKey.token1, poolKey.fee, , , liquidity, , , , ) = nft.positions(tokenId);
+
+        if (liquidity > 0) {
+            nft.decreaseLiquidity(
+                INonfungiblePositionManager.DecreaseLiquidityParams({
+                    tokenId: tokenId,
+                    liquidity: liquidity,
+                    amount0Min: 0,
+                    amount1Min: 0,
+                    deadline: deadline
+                })
+            );
+        }
+        (amount0, amount1) = nft.collect(
+            INonfungiblePositionManager.CollectParams({
+                tokenId: tokenId,
+                recipient: address(this),
+                amount0Max: type(uint128).max,
+                amount1Max: type(uint128).max
+            })
+        );
+        nft.burn(tokenId);
+    }
+}
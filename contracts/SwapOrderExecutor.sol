@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity =0.7.6;
+pragma abicoder v2;
+
+import './interfaces/ISwapRouter.sol';
+import './base/SignedSwapOrders.sol';
+import './libraries/BytesLib.sol';
+import './libraries/Path.sol';
+import './libraries/TransferHelper.sol';
+
+/// @title Swap order executor
+/// @notice Executes signed swap orders through the SwapRouter
+contract SwapOrderExecutor is SignedSwapOrders {
+    using Path for bytes;
+    using BytesLib for bytes;
+
+    /// @inheritdoc ISignedSwapOrders
+    address public immutable override swapRouter;
+
+    constructor(address _swapRouter) {
+        swapRouter = _swapRouter;
+    }
+
+    /// @inheritdoc ISignedSwapOrders
+    function executeSwapOrder(
+        SwapOrder calldata order,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external override returns (uint256 amountOut) {
+        useSwapOrder(order, v, r, s);
+
+        bytes memory path = order.path;
+        (address pathTokenIn, , ) = path.decodeFirstPool();
+        require(pathTokenIn == order.tokenIn && path.toAddress(path.length - 20) == order.tokenOut, 'Invalid path');
+
+        // the signer pays for the swap, which the router checks the deadline and the amount out of
+        TransferHelper.safeTransferFrom(order.tokenIn, order.signer, address(this), order.amountIn);
+        TransferHelper.safeApprove(order.tokenIn, swapRouter, order.amountIn);
+        amountOut = ISwapRouter(swapRouter).exactInput(
+            ISwapRouter.ExactInputParams({
+                path: path,
+                recipient: order.recipient,
+                deadline: order.deadline,
+                amountIn: order.amountIn,
+                amountOutMinimum: order.amountOutMinimum
+            })
+        );
+
+        emit SwapOrderExecuted(order.signer, order.nonce, amountOut);
+    }
+}
@@ -2,6 +2,7 @@
 pragma solidity =0.7.6;
 pragma abicoder v2;
 
+import '@uniswap/v3-core/contracts/libraries/LowGasSafeMath.sol';
 import '@uniswap/v3-core/contracts/libraries/SafeCast.sol';
 import '@uniswap/v3-core/contracts/libraries/TickMath.sol';
 import '@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol';
@@ -28,6 +29,7 @@ contract SwapRouter is
     SelfPermit
 {
     using Path for bytes;
+    using LowGasSafeMath for uint256;
     using SafeCast for uint256;
 
     /// @dev Used as the placeholder value for amountInCached, because the computed amount in for an exact output swap
@@ -165,6 +167,58 @@ contract SwapRouter is
         require(amountOut >= params.amountOutMinimum, 'Too little received');
     }
 
+    /// @inheritdoc ISwapRouter
+    function exactInputSplit(ExactInputSplitParams calldata params)
+        external
+        payable
+        override
+        checkDeadline(params.deadline)
+        returns (uint256 amountOut)
+    {
+        require(params.paths.length > 0 && params.paths.length == params.amountsIn.length, 'Invalid split');
+
+        (address tokenIn, , ) = params.paths[0].decodeFirstPool();
+        address tokenOut;
+
+        for (uint256 i = 0; i < params.paths.length; i++) {
+            bytes memory path = params.paths[i];
+            uint256 amountIn = params.amountsIn[i];
+            address payer = msg.sender; // msg.sender pays for the first hop of each path
+
+            (address pathTokenIn, , ) = path.decodeFirstPool();
+            require(pathTokenIn == tokenIn, 'Invalid split');
+
+            while (true) {
+                bool hasMultiplePools = path.hasMultiplePools();
+
+                // the outputs of prior swaps become the inputs to subsequent ones
+                amountIn = exactInputInternal(
+                    amountIn,
+                    hasMultiplePools ? address(this) : params.recipient, // for intermediate swaps, this contract custodies
+                    0,
+                    SwapCallbackData({
+                        path: path.getFirstPool(), // only the first pool in the path is necessary
+                        payer: payer
+                    })
+                );
+
+                // decide whether to continue or terminate
+                if (hasMultiplePools) {
+                    payer = address(this); // at this point, the caller has paid
+                    path = path.skipToken();
+                } else {
+                    (, address pathTokenOut, ) = path.decodeFirstPool();
+                    if (i == 0) tokenOut = pathTokenOut;
+                    else require(pathTokenOut == tokenOut, 'Invalid split');
+                    amountOut = amountOut.add(amountIn);
+                    break;
+                }
+            }
+        }
+
+        require(amountOut >= params.amountOutMinimum, 'Too little received');
+    }
+
     /// @dev Performs a single exact output swap
     function exactOutputInternal(
         uint256 amountOut,
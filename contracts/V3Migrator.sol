@@ -2,11 +2,18 @@
 pragma solidity =0.7.6;
 pragma abicoder v2;
 
+import '@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol';
+import '@uniswap/v3-core/contracts/libraries/FullMath.sol';
 import '@uniswap/v3-core/contracts/libraries/LowGasSafeMath.sol';
+import '@uniswap/v3-core/contracts/libraries/TickMath.sol';
 import '@uniswap/v2-core/contracts/interfaces/IUniswapV2Pair.sol';
+import '@uniswap/lib/contracts/libraries/Babylonian.sol';
 
 import './interfaces/INonfungiblePositionManager.sol';
 
+import './libraries/CallbackValidation.sol';
+import './libraries/PoolAddress.sol';
+import './libraries/SwapToRatio.sol';
 import './libraries/TransferHelper.sol';
 
 import './interfaces/IV3Migrator.sol';
@@ -14,10 +21,10 @@ import './base/PeripheryImmutableState.sol';
 import './base/Multicall.sol';
 import './base/SelfPermit.sol';
 import './interfaces/external/IWETH9.sol';
-import './base/PoolInitializer.sol';
+import './base/PoolInitializerWithCardinality.sol';
 
 /// @title Uniswap V3 Migrator
-contract V3Migrator is IV3Migrator, PeripheryImmutableState, PoolInitializer, Multicall, SelfPermit {
+contract V3Migrator is IV3Migrator, PeripheryImmutableState, PoolInitializerWithCardinality, Multicall, SelfPermit {
     using LowGasSafeMath for uint256;
 
     address public immutable nonfungiblePositionManager;
@@ -35,6 +42,39 @@ contract V3Migrator is IV3Migrator, PeripheryImmutableState, PoolInitializer, Mu
     }
 
     function migrate(MigrateParams calldata params) external override {
+        migrateInternal(params);
+    }
+
+    function migrateBatch(MigrateWithPermitParams[] calldata params)
+        external
+        override
+        returns (uint256[] memory tokenIds)
+    {
+        tokenIds = new uint256[](params.length);
+        for (uint256 i = 0; i < params.length; i++) {
+            MigrateWithPermitParams calldata migration = params[i];
+            // like selfPermitIfNecessary, which is external, skip the permit if the migrator is already approved, so
+            // that a permit submitted by someone else first does not revert the batch
+            if (
+                migration.permitDeadline > 0 &&
+                IUniswapV2Pair(migration.migrate.pair).allowance(msg.sender, address(this)) <
+                migration.migrate.liquidityToMigrate
+            ) {
+                selfPermit(
+                    migration.migrate.pair,
+                    migration.migrate.liquidityToMigrate,
+                    migration.permitDeadline,
+                    migration.v,
+                    migration.r,
+                    migration.s
+                );
+            }
+            tokenIds[i] = migrateInternal(migration.migrate);
+        }
+    }
+
+    /// @dev Migrates the liquidity of one pair, returning the ID of the token of the minted position
+    function migrateInternal(MigrateParams calldata params) private returns (uint256 tokenId) {
         require(params.percentageToMigrate > 0, 'Percentage too small');
         require(params.percentageToMigrate <= 100, 'Percentage too large');
 
@@ -51,22 +91,23 @@ contract V3Migrator is IV3Migrator, PeripheryImmutableState, PoolInitializer, Mu
         TransferHelper.safeApprove(params.token1, nonfungiblePositionManager, amount1V2ToMigrate);
 
         // mint v3 position
-        (, , uint256 amount0V3, uint256 amount1V3) =
-            INonfungiblePositionManager(nonfungiblePositionManager).mint(
-                INonfungiblePositionManager.MintParams({
-                    token0: params.token0,
-                    token1: params.token1,
-                    fee: params.fee,
-                    tickLower: params.tickLower,
-                    tickUpper: params.tickUpper,
-                    amount0Desired: amount0V2ToMigrate,
-                    amount1Desired: amount1V2ToMigrate,
-                    amount0Min: params.amount0Min,
-                    amount1Min: params.amount1Min,
-                    recipient: params.recipient,
-                    deadline: params.deadline
-                })
-            );
+        uint256 amount0V3;
+        uint256 amount1V3;
+        (tokenId, , amount0V3, amount1V3) = INonfungiblePositionManager(nonfungiblePositionManager).mint(
+            INonfungiblePositionManager.MintParams({
+                token0: params.token0,
+                token1: params.token1,
+                fee: params.fee,
+                tickLower: params.tickLower,
+                tickUpper: params.tickUpper,
+                amount0Desired: amount0V2ToMigrate,
+                amount1Desired: amount1V2ToMigrate,
+                amount0Min: params.amount0Min,
+                amount1Min: params.amount1Min,
+                recipient: params.recipient,
+                deadline: params.deadline
+            })
+        );
 
         // if necessary, clear allowance and refund dust
         if (amount0V3 < amount0V2) {
@@ -96,4 +137,223 @@ contract V3Migrator is IV3Migrator, PeripheryImmutableState, PoolInitializer, Mu
             }
         }
     }
+
+    /// @dev The amounts held by the migrator during `migrateWithRange`, and the amounts of them that are migrated
+    struct RangeMigration {
+        uint256 amount0;
+        uint256 amount1;
+        uint256 amount0ToMigrate;
+        uint256 amount1ToMigrate;
+    }
+
+    function migrateWithRange(MigrateWithRangeParams calldata params)
+        external
+        override
+        returns (
+            uint256 tokenId,
+            int24 tickLower,
+            int24 tickUpper,
+            uint128 liquidity
+        )
+    {
+        require(params.percentageToMigrate > 0, 'Percentage too small');
+        require(params.percentageToMigrate <= 100, 'Percentage too large');
+
+        // check the v2 price before burning, as the v3 pool may be initialized at it
+        uint160 sqrtPriceX96V2 = getSqrtPriceX96V2(params.pair);
+        require(
+            sqrtPriceX96V2 >= params.sqrtPriceX96Min && sqrtPriceX96V2 <= params.sqrtPriceX96Max,
+            'V2 price slippage check'
+        );
+
+        RangeMigration memory migration;
+        // burn v2 liquidity to this address
+        IUniswapV2Pair(params.pair).transferFrom(msg.sender, params.pair, params.liquidityToMigrate);
+        (migration.amount0, migration.amount1) = IUniswapV2Pair(params.pair).burn(address(this));
+
+        // calculate the amounts to migrate to v3
+        migration.amount0ToMigrate = migration.amount0.mul(params.percentageToMigrate) / 100;
+        migration.amount1ToMigrate = migration.amount1.mul(params.percentageToMigrate) / 100;
+
+        if (params.initializePool) {
+            createAndInitializePool(params.token0, params.token1, params.fee, sqrtPriceX96V2);
+        }
+
+        PoolAddress.PoolKey memory poolKey =
+            PoolAddress.PoolKey({token0: params.token0, token1: params.token1, fee: params.fee});
+        IUniswapV3Pool pool = IUniswapV3Pool(PoolAddress.computeAddress(factory, poolKey));
+        {
+            (uint160 sqrtPriceX96, int24 tick, , , , , ) = pool.slot0();
+            require(
+                sqrtPriceX96 >= params.sqrtPriceX96Min && sqrtPriceX96 <= params.sqrtPriceX96Max,
+                'V3 price slippage check'
+            );
+            (tickLower, tickUpper) = getRange(tick, pool.tickSpacing(), params.width);
+
+            swapToRatio(pool, poolKey, params, migration, sqrtPriceX96, tickLower, tickUpper);
+        }
+
+        // approve the position manager up to the maximum token amounts
+        TransferHelper.safeApprove(params.token0, nonfungiblePositionManager, migration.amount0ToMigrate);
+        TransferHelper.safeApprove(params.token1, nonfungiblePositionManager, migration.amount1ToMigrate);
+
+        // mint v3 position, which is protected against slippage by the price checks
+        uint256 amount0V3;
+        uint256 amount1V3;
+        (tokenId, liquidity, amount0V3, amount1V3) = INonfungiblePositionManager(nonfungiblePositionManager).mint(
+            INonfungiblePositionManager.MintParams({
+                token0: params.token0,
+                token1: params.token1,
+                fee: params.fee,
+                tickLower: tickLower,
+                tickUpper: tickUpper,
+                amount0Desired: migration.amount0ToMigrate,
+                amount1Desired: migration.amount1ToMigrate,
+                amount0Min: 0,
+                amount1Min: 0,
+                recipient: params.recipient,
+                deadline: params.deadline
+            })
+        );
+
+        // if necessary, clear allowance and refund dust
+        refund(params.token0, migration.amount0, migration.amount0ToMigrate, amount0V3, params.refundAsETH);
+        refund(params.token1, migration.amount1, migration.amount1ToMigrate, amount1V3, params.refundAsETH);
+    }
+
+    /// @inheritdoc IUniswapV3SwapCallback
+    function uniswapV3SwapCallback(
+        int256 amount0Delta,
+        int256 amount1Delta,
+        bytes calldata data
+    ) external override {
+        PoolAddress.PoolKey memory poolKey = abi.decode(data, (PoolAddress.PoolKey));
+        CallbackValidation.verifyCallback(factory, poolKey);
+
+        if (amount0Delta > 0) TransferHelper.safeTransfer(poolKey.token0, msg.sender, uint256(amount0Delta));
+        if (amount1Delta > 0) TransferHelper.safeTransfer(poolKey.token1, msg.sender, uint256(amount1Delta));
+    }
+
+    /// @dev Returns the price of the v2 pair as a sqrt(token1/token0) Q64.96 value
+    function getSqrtPriceX96V2(address pair) private view returns (uint160) {
+        (uint112 reserve0, uint112 reserve1, ) = IUniswapV2Pair(pair).getReserves();
+        return uint160(Babylonian.sqrt(FullMath.mulDiv(reserve1, 1 << 192, reserve0)));
+    }
+
+    /// @dev Returns the range of `width` ticks around `tick`, with ticks that are multiples of the tick spacing and
+    /// within the usable ticks of the pool
+    function getRange(
+        int24 tick,
+        int24 tickSpacing,
+        int24 width
+    ) private pure returns (int24 tickLower, int24 tickUpper) {
+        require(width > 0 && width % tickSpacing == 0, 'Invalid width');
+
+        int256 compressed = tick / tickSpacing;
+        if (tick < 0 && tick % tickSpacing != 0) compressed--; // round towards negative infinity
+        int256 lower = (compressed - width / tickSpacing / 2) * tickSpacing;
+        int256 upper = lower + width;
+
+        int256 minTick = (TickMath.MIN_TICK / tickSpacing) * tickSpacing;
+        int256 maxTick = (TickMath.MAX_TICK / tickSpacing) * tickSpacing;
+        tickLower = int24(lower < minTick ? minTick : lower);
+        tickUpper = int24(upper > maxTick ? maxTick : upper);
+    }
+
+    /// @dev Swaps the excess of one token of the migrated amounts in the pool, so they match the ratio of the range.
+    /// The price can move at most to the price bound in the direction of the swap, and the swap is skipped if the
+    /// pool has no liquidity to swap against
+    function swapToRatio(
+        IUniswapV3Pool pool,
+        PoolAddress.PoolKey memory poolKey,
+        MigrateWithRangeParams calldata params,
+        RangeMigration memory migration,
+        uint160 sqrtPriceX96,
+        int24 tickLower,
+        int24 tickUpper
+    ) private {
+        (bool zeroForOne, uint256 amountIn) =
+            SwapToRatio.getSwapAmount(
+                sqrtPriceX96,
+                TickMath.getSqrtRatioAtTick(tickLower),
+                TickMath.getSqrtRatioAtTick(tickUpper),
+                poolKey.fee,
+                migration.amount0ToMigrate,
+                migration.amount1ToMigrate
+            );
+        if (amountIn == 0 || pool.liquidity() == 0) return;
+
+        uint160 sqrtPriceLimitX96 = getSqrtPriceLimitX96(params, zeroForOne, sqrtPriceX96);
+        if (sqrtPriceLimitX96 == 0) return;
+
+        swap(pool, poolKey, migration, zeroForOne, amountIn, sqrtPriceLimitX96);
+    }
+
+    /// @dev Swaps in the pool and updates the amounts of the migration with the amounts of the swap, as the swap can
+    /// stop at the price limit before all of the amount in is swapped
+    function swap(
+        IUniswapV3Pool pool,
+        PoolAddress.PoolKey memory poolKey,
+        RangeMigration memory migration,
+        bool zeroForOne,
+        uint256 amountIn,
+        uint160 sqrtPriceLimitX96
+    ) private {
+        (int256 amount0Delta, int256 amount1Delta) =
+            pool.swap(address(this), zeroForOne, int256(amountIn), sqrtPriceLimitX96, abi.encode(poolKey));
+
+        if (zeroForOne) {
+            migration.amount0 -= uint256(amount0Delta);
+            migration.amount0ToMigrate -= uint256(amount0Delta);
+            migration.amount1 = migration.amount1.add(uint256(-amount1Delta));
+            migration.amount1ToMigrate = migration.amount1ToMigrate.add(uint256(-amount1Delta));
+        } else {
+            migration.amount1 -= uint256(amount1Delta);
+            migration.amount1ToMigrate -= uint256(amount1Delta);
+            migration.amount0 = migration.amount0.add(uint256(-amount0Delta));
+            migration.amount0ToMigrate = migration.amount0ToMigrate.add(uint256(-amount0Delta));
+        }
+    }
+
+    /// @dev Returns the price bound in the direction of the swap, within the prices the pool can swap to, or 0 if the
+    /// current price is already at the bound
+    function getSqrtPriceLimitX96(
+        MigrateWithRangeParams calldata params,
+        bool zeroForOne,
+        uint160 sqrtPriceX96
+    ) private pure returns (uint160 sqrtPriceLimitX96) {
+        if (zeroForOne) {
+            sqrtPriceLimitX96 = params.sqrtPriceX96Min > TickMath.MIN_SQRT_RATIO
+                ? params.sqrtPriceX96Min
+                : TickMath.MIN_SQRT_RATIO + 1;
+            if (sqrtPriceLimitX96 >= sqrtPriceX96) return 0;
+        } else {
+            sqrtPriceLimitX96 = params.sqrtPriceX96Max < TickMath.MAX_SQRT_RATIO
+                ? params.sqrtPriceX96Max
+                : TickMath.MAX_SQRT_RATIO - 1;
+            if (sqrtPriceLimitX96 <= sqrtPriceX96) return 0;
+        }
+    }
+
+    /// @dev Clears the allowance of the position manager if it was not used up, and refunds what was not migrated
+    function refund(
+        address token,
+        uint256 amount,
+        uint256 amountToMigrate,
+        uint256 amountMigrated,
+        bool refundAsETH
+    ) private {
+        if (amountMigrated >= amount) return;
+        if (amountMigrated < amountToMigrate) {
+            TransferHelper.safeApprove(token, nonfungiblePositionManager, 0);
+        }
+
+        uint256 amountToRefund = amount - amountMigrated;
+        if (refundAsETH && token == WETH9) {
+            IWETH9(WETH9).withdraw(amountToRefund);
+            TransferHelper.safeTransferETH(msg.sender, amountToRefund);
+        } else {
+            TransferHelper.safeTransfer(token, msg.sender, amountToRefund);
+        }
+    }
 }
@@ -0,0 +1,179 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity =0.7.6;
+pragma abicoder v2;
+
+import '@uniswap/v3-core/contracts/libraries/LowGasSafeMath.sol';
+
+import './interfaces/IZap.sol';
+import './interfaces/INonfungiblePositionManager.sol';
+import './interfaces/ISwapRouter.sol';
+import './libraries/PoolAddress.sol';
+import './libraries/PositionAuthorization.sol';
+import './libraries/TransferHelper.sol';
+import './interfaces/external/IWETH9.sol';
+import './base/Multicall.sol';
+import './base/PeripheryPayments.sol';
+import './base/SwapAndAddLiquidity.sol';
+
+/// @title Zap
+/// @notice Mints positions of the NonfungiblePositionManager from a single token, and exits them into a single token
+contract Zap is IZap, Multicall, PeripheryPayments, SwapAndAddLiquidity {
+    using LowGasSafeMath for uint256;
+
+    constructor(
+        address _factory,
+        address _WETH9,
+        address _nonfungiblePositionManager,
+        address _swapRouter
+    ) SwapAndAddLiquidity(_factory, _WETH9, _nonfungiblePositionManager, _swapRouter) {}
+
+    /// @inheritdoc IZap
+    function zapIn(ZapInParams calldata params)
+        external
+        payable
+        override
+        returns (
+            uint256 tokenId,
+            uint128 liquidity,
+            uint256 amount0,
+            uint256 amount1
+        )
+    {
+        require(params.tokenIn == params.token0 || params.tokenIn == params.token1, 'Invalid token');
+        pay(params.tokenIn, msg.sender, address(this), params.amountIn);
+
+        PoolAddress.PoolKey memory poolKey =
+            PoolAddress.PoolKey({token0: params.token0, token1: params.token1, fee: params.fee});
+        (uint256 amount0Desired, uint256 amount1Desired) =
+            params.tokenIn == params.token0 ? (params.amountIn, uint256(0)) : (uint256(0), params.amountIn);
+        (amount0Desired, amount1Desired) = swapToRatio(
+            poolKey,
+            params.tickLower,
+            params.tickUpper,
+            amount0Desired,
+            amount1Desired,
+            params.deadline
+        );
+
+        // the dust is refunded to the payer
+        (tokenId, liquidity, amount0, amount1) = mint(
+            INonfungiblePositionManager.MintParams({
+                token0: params.token0,
+                token1: params.token1,
+                fee: params.fee,
+                tickLower: params.tickLower,
+                tickUpper: params.tickUpper,
+                amount0Desired: amount0Desired,
+                amount1Desired: amount1Desired,
+                amount0Min: 0,
+                amount1Min: 0,
+                recipient: params.recipient,
+                deadline: params.deadline
+            }),
+            params.liquidityMin,
+            msg.sender
+        );
+
+        emit ZappedIn(tokenId, params.tokenIn, params.amountIn, liquidity);
+    }
+
+    /// @inheritdoc IZap
+    function zapOut(ZapOutParams calldata params) external override returns (uint256 amountOut) {
+        require(params.percentageToRemove > 0, 'Percentage too small');
+        require(params.percentageToRemove <= 100, 'Percentage too large');
+        require(!params.unwrapETH || params.tokenOut == WETH9, 'Not WETH9');
+        require(
+            PositionAuthorization.isAuthorizedForToken(
+                INonfungiblePositionManager(nonfungiblePositionManager),
+                msg.sender,
+                params.tokenId
+            ),
+            'Not approved'
+        );
+
+        (PoolAddress.PoolKey memory poolKey, uint128 liquidity, uint256 amount0, uint256 amount1) = withdraw(params);
+        require(params.tokenOut == poolKey.token0 || params.tokenOut == poolKey.token1, 'Invalid token');
+
+        // swap everything that is not the token out
+        bool zeroForOne = params.tokenOut == poolKey.token1;
+        uint256 amountIn = zeroForOne ? amount0 : amount1;
+        amountOut = zeroForOne ? amount1 : amount0;
+        if (amountIn > 0) {
+            TransferHelper.safeApprove(zeroForOne ? poolKey.token0 : poolKey.token1, swapRouter, amountIn);
+            amountOut = amountOut.add(
+                ISwapRouter(swapRouter).exactInputSingle(
+                    ISwapRouter.ExactInputSingleParams({
+                        tokenIn: zeroForOne ? poolKey.token0 : poolKey.token1,
+                        tokenOut: params.tokenOut,
+                        fee: poolKey.fee,
+                        recipient: address(this),
+                        deadline: params.deadline,
+                        amountIn: amountIn,
+                        amountOutMinimum: 0,
+                        sqrtPriceLimitX96: 0
+                    })
+                )
+            );
+        }
+        require(amountOut >= params.amountOutMinimum, 'Too little received');
+
+        if (params.unwrapETH) {
+            IWETH9(WETH9).withdraw(amountOut);
+            TransferHelper.safeTransferETH(params.recipient, amountOut);
+        } else {
+            TransferHelper.safeTransfer(params.tokenOut, params.recipient, amountOut);
+        }
+
+        emit ZappedOut(params.tokenId, params.tokenOut, liquidity, amountOut);
+    }
+
+    /// @dev Refunds the dust of WETH9 in ETH to a payer that sends ETH, e.g. to pay in ETH
+    function sendDust(
+        address token,
+        address recipient,
+        uint256 value
+    ) internal override {
+        if (token == WETH9 && msg.value > 0) {
+            IWETH9(WETH9).withdraw(value);
+            TransferHelper.safeTransferETH(recipient, value);
+        } else {
+            super.sendDust(token, recipient, value);
+        }
+    }
+
+    /// @dev Removes the percentage of the liquidity of the position and collects it with all the fees of the position
+    /// to this contract
+    function withdraw(ZapOutParams calldata params)
+        private
+        returns (
+            PoolAddress.PoolKey memory poolKey,
+            uint128 liquidity,
+            uint256 amount0,
+            uint256 amount1
+        )
+    {
+        INonfungiblePositionManager nft = INonfungiblePositionManager(nonfungiblePositionManager);
+        (, , poolKey.token0, poolKey.token1, poolKey.fee, , , liquidity, , , , ) = nft.positions(params.tokenId);
+
+        liquidity = uint128(uint256(liquidity).mul(params.percentageToRemove) / 100);
+        if (liquidity > 0) {
+            nft.decreaseLiquidity(
+                INonfungiblePositionManager.DecreaseLiquidityParams({
+                    tokenId: params.tokenId,
+                    liquidity: liquidity,
+                    amount0Min: 0,
+                    amount1Min: 0,
+                    deadline: params.deadline
+                })
+            );
+        }
+        (amount0, amount1) = nft.collect(
+            INonfungiblePositionManager.CollectParams({
+                tokenId: params.tokenId,
+                recipient: address(this),
+                amount0Max: type(uint128).max,
+                amount1Max: type(uint128).max
+            })
+        );
+    }
+}
@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity =0.7.6;
+
+import '@uniswap/v3-core/contracts/interfaces/IUniswapV3Factory.sol';
+import '@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol';
+
+import './PoolInitializer.sol';
+import '../interfaces/IPoolInitializerWithCardinality.sol';
+
+/// @title Creates and initializes V3 Pools with an oracle for a window of time-weighted averages
+/// @dev Separate from PoolInitializer, which the NonfungiblePositionManager cannot fit more code for
+abstract contract PoolInitializerWithCardinality is IPoolInitializerWithCardinality, PoolInitializer {
+    /// @inheritdoc IPoolInitializerWithCardinality
+    function createAndInitializePoolIfNecessaryWithCardinality(
+        address token0,
+        address token1,
+        uint24 fee,
+        uint160 sqrtPriceX96,
+        uint32 secondsAgo,
+        uint32 blockTime
+    ) external payable override returns (address pool, uint16 observationCardinalityNext) {
+        require(blockTime > 0, 'Invalid block time');
+        pool = createAndInitializePool(token0, token1, fee, sqrtPriceX96);
+
+        // the observations of n blocks span n - 1 block times
+        uint256 observationCardinality = (uint256(secondsAgo) + blockTime - 1) / blockTime + 1;
+        require(observationCardinality <= type(uint16).max, 'Window too long');
+        IUniswapV3Pool(pool).increaseObservationCardinalityNext(uint16(observationCardinality));
+
+        (, , , , observationCardinalityNext, , ) = IUniswapV3Pool(pool).slot0();
+    }
+
+    /// @dev Creates and initializes the pool as PoolInitializer#createAndInitializePoolIfNecessary does, which is external
+    function createAndInitializePool(
+        address token0,
+        address token1,
+        uint24 fee,
+        uint160 sqrtPriceX96
+    ) internal returns (address pool) {
+        require(token0 < token1);
+        pool = IUniswapV3Factory(factory).getPool(token0, token1, fee);
+
+        if (pool == address(0)) {
+            pool = IUniswapV3Factory(factory).createPool(token0, token1, fee);
+            IUniswapV3Pool(pool).initialize(sqrtPriceX96);
+        } else {
+            (uint160 sqrtPriceX96Existing, , , , , , ) = IUniswapV3Pool(pool).slot0();
+            if (sqrtPriceX96Existing == 0) {
+                IUniswapV3Pool(pool).initialize(sqrtPriceX96);
+            }
+        }
+    }
+}
@@ -0,0 +1,93 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity =0.7.6;
+pragma abicoder v2;
+
+import '@openzeppelin/contracts/utils/Address.sol';
+
+import '../libraries/ChainId.sol';
+import '../interfaces/external/IERC1271.sol';
+import '../interfaces/ISignedSwapOrders.sol';
+
+/// @title Signed swap orders
+/// @notice Verifies the signatures and the nonces of signed swap orders
+abstract contract SignedSwapOrders is ISignedSwapOrders {
+    /// @inheritdoc ISignedSwapOrders
+    mapping(address => mapping(uint256 => bool)) public override isSwapOrderNonceUsed;
+
+    /// @inheritdoc ISignedSwapOrders
+    function DOMAIN_SEPARATOR() public view override returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    // keccak256('EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)')
+                    0x8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f,
+                    // keccak256('Uniswap V3 Swap Order Executor')
+                    0xb36b5c29d2f442053b2f3897eb7e664137606df5384aa54788b3841322ff34e8,
+                    // keccak256('1')
+                    0xc89efdaa54c0f20c7adf612882df0950f5a951637e0307cdcb4c672f298b8bc6,
+                    ChainId.get(),
+                    address(this)
+                )
+            );
+    }
+
+    /// @inheritdoc ISignedSwapOrders
+    /// @dev Value is equal to keccak256("SwapOrder(address signer,address tokenIn,address tokenOut,bytes path,uint256 amountIn,uint256 amountOutMinimum,address recipient,uint256 nonce,uint256 deadline)");
+    bytes32 public constant override SWAP_ORDER_TYPEHASH =
+        0x3d4aa0714a93fb8ac4a137b17282d1152559584b0dec42a0cc433077b6ae4cee;
+
+    /// @inheritdoc ISignedSwapOrders
+    function cancelSwapOrder(uint256 nonce) external override {
+        useNonce(msg.sender, nonce);
+        emit SwapOrderCancelled(msg.sender, nonce);
+    }
+
+    /// @dev Marks the nonce of the signer as used, reverting if it was already used
+    function useNonce(address signer, uint256 nonce) private {
+        require(!isSwapOrderNonceUsed[signer][nonce], 'Nonce used');
+        isSwapOrderNonceUsed[signer][nonce] = true;
+    }
+
+    /// @dev Verifies the signature of the order by its signer and uses its nonce, so the order can only be executed once
+    function useSwapOrder(
+        SwapOrder calldata order,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) internal {
+        useNonce(order.signer, order.nonce);
+
+        bytes32 digest =
+            keccak256(
+                abi.encodePacked(
+                    '\x19\x01',
+                    DOMAIN_SEPARATOR(),
+                    keccak256(
+                        abi.encode(
+                            SWAP_ORDER_TYPEHASH,
+                            order.signer,
+                            order.tokenIn,
+                            order.tokenOut,
+                            keccak256(order.path),
+                            order.amountIn,
+                            order.amountOutMinimum,
+                            order.recipient,
+                            order.nonce,
+                            order.deadline
+                        )
+                    )
+                )
+            );
+
+        if (Address.isContract(order.signer)) {
+            require(
+                IERC1271(order.signer).isValidSignature(digest, abi.encodePacked(r, s, v)) == 0x1626ba7e,
+                'Unauthorized'
+            );
+        } else {
+            address recoveredAddress = ecrecover(digest, v, r, s);
+            require(recoveredAddress != address(0), 'Invalid signature');
+            require(recoveredAddress == order.signer, 'Unauthorized');
+        }
+    }
+}
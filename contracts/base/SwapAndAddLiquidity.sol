@@ -0,0 +1,176 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity =0.7.6;
+pragma abicoder v2;
+
+import '@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol';
+import '@uniswap/v3-core/contracts/libraries/LowGasSafeMath.sol';
+import '@uniswap/v3-core/contracts/libraries/TickMath.sol';
+
+import '../interfaces/INonfungiblePositionManager.sol';
+import '../interfaces/ISwapAndAddLiquidity.sol';
+import '../interfaces/ISwapRouter.sol';
+import '../libraries/PoolAddress.sol';
+import '../libraries/SwapToRatio.sol';
+import '../libraries/TransferHelper.sol';
+import './PeripheryImmutableState.sol';
+
+/// @title Swap and add liquidity
+/// @notice Swaps the excess of one token to the ratio of a range and adds the amounts as liquidity to positions of the
+/// NonfungiblePositionManager
+abstract contract SwapAndAddLiquidity is ISwapAndAddLiquidity, PeripheryImmutableState {
+    using LowGasSafeMath for uint256;
+
+    /// @inheritdoc ISwapAndAddLiquidity
+    address public immutable override nonfungiblePositionManager;
+    /// @inheritdoc ISwapAndAddLiquidity
+    address public immutable override swapRouter;
+
+    constructor(
+        address _factory,
+        address _WETH9,
+        address _nonfungiblePositionManager,
+        address _swapRouter
+    ) PeripheryImmutableState(_factory, _WETH9) {
+        nonfungiblePositionManager = _nonfungiblePositionManager;
+        swapRouter = _swapRouter;
+    }
+
+    /// @inheritdoc ISwapAndAddLiquidity
+    function selfPermitPosition(
+        uint256 tokenId,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external override {
+        INonfungiblePositionManager(nonfungiblePositionManager).permit(address(this), tokenId, deadline, v, r, s);
+    }
+
+    /// @dev Swaps the excess of one token in the pool for the range, returning the amounts after the swap
+    function swapToRatio(
+        PoolAddress.PoolKey memory poolKey,
+        int24 tickLower,
+        int24 tickUpper,
+        uint256 amount0,
+        uint256 amount1,
+        uint256 deadline
+    ) internal returns (uint256, uint256) {
+        (uint160 sqrtPriceX96, , , , , , ) = IUniswapV3Pool(PoolAddress.computeAddress(factory, poolKey)).slot0();
+        (bool zeroForOne, uint256 amountIn) =
+            SwapToRatio.getSwapAmount(
+                sqrtPriceX96,
+                TickMath.getSqrtRatioAtTick(tickLower),
+                TickMath.getSqrtRatioAtTick(tickUpper),
+                poolKey.fee,
+                amount0,
+                amount1
+            );
+        if (amountIn == 0) return (amount0, amount1);
+
+        uint256 amountOut =
+            zeroForOne
+                ? swap(poolKey.token0, poolKey.token1, poolKey.fee, amountIn, deadline)
+                : swap(poolKey.token1, poolKey.token0, poolKey.fee, amountIn, deadline);
+
+        return zeroForOne ? (amount0 - amountIn, amount1.add(amountOut)) : (amount0.add(amountOut), amount1 - amountIn);
+    }
+
+    /// @dev Swaps an exact amount of one token for the other token of the pool, returning the amount received
+    function swap(
+        address tokenIn,
+        address tokenOut,
+        uint24 fee,
+        uint256 amountIn,
+        uint256 deadline
+    ) private returns (uint256 amountOut) {
+        TransferHelper.safeApprove(tokenIn, swapRouter, amountIn);
+        amountOut = ISwapRouter(swapRouter).exactInputSingle(
+            ISwapRouter.ExactInputSingleParams({
+                tokenIn: tokenIn,
+                tokenOut: tokenOut,
+                fee: fee,
+                recipient: address(this),
+                deadline: deadline,
+                amountIn: amountIn,
+                amountOutMinimum: 0,
+                sqrtPriceLimitX96: 0
+            })
+        );
+    }
+
+    /// @dev Mints a position with the desired amounts held by this contract, and sends the amounts that the position
+    /// manager does not take to the refund recipient
+    function mint(
+        INonfungiblePositionManager.MintParams memory params,
+        uint128 liquidityMin,
+        address refundRecipient
+    )
+        internal
+        returns (
+            uint256 tokenId,
+            uint128 liquidity,
+            uint256 amount0,
+            uint256 amount1
+        )
+    {
+        // approve the position manager up to the maximum token amounts
+        TransferHelper.safeApprove(params.token0, nonfungiblePositionManager, params.amount0Desired);
+        TransferHelper.safeApprove(params.token1, nonfungiblePositionManager, params.amount1Desired);
+
+        (tokenId, liquidity, amount0, amount1) = INonfungiblePositionManager(nonfungiblePositionManager).mint(params);
+        require(liquidity >= liquidityMin, 'Price slippage check');
+
+        refund(params.token0, params.amount0Desired, amount0, refundRecipient);
+        refund(params.token1, params.amount1Desired, amount1, refundRecipient);
+    }
+
+    /// @dev Adds the desired amounts held by this contract to a position, and sends the amounts that the position
+    /// manager does not take to the refund recipient
+    function increaseLiquidity(
+        INonfungiblePositionManager.IncreaseLiquidityParams memory params,
+        PoolAddress.PoolKey memory poolKey,
+        uint128 liquidityMin,
+        address refundRecipient
+    )
+        internal
+        returns (
+            uint128 liquidity,
+            uint256 amount0,
+            uint256 amount1
+        )
+    {
+        // approve the position manager up to the maximum token amounts
+        TransferHelper.safeApprove(poolKey.token0, nonfungiblePositionManager, params.amount0Desired);
+        TransferHelper.safeApprove(poolKey.token1, nonfungiblePositionManager, params.amount1Desired);
+
+        (liquidity, amount0, amount1) = INonfungiblePositionManager(nonfungiblePositionManager).increaseLiquidity(
+            params
+        );
+        require(liquidity >= liquidityMin, 'Price slippage check');
+
+        refund(poolKey.token0, params.amount0Desired, amount0, refundRecipient);
+        refund(poolKey.token1, params.amount1Desired, amount1, refundRecipient);
+    }
+
+    /// @dev If necessary, clears the allowance of the position manager and refunds the dust to the recipient
+    function refund(
+        address token,
+        uint256 amountDesired,
+        uint256 amount,
+        address recipient
+    ) private {
+        if (amount < amountDesired) {
+            TransferHelper.safeApprove(token, nonfungiblePositionManager, 0);
+            sendDust(token, recipient, amountDesired - amount);
+        }
+    }
+
+    /// @dev Sends the dust of a token to the recipient of the refund
+    function sendDust(
+        address token,
+        address recipient,
+        uint256 value
+    ) internal virtual {
+        TransferHelper.safeTransfer(token, recipient, value);
+    }
+}
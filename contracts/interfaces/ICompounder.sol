@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.7.5;
+pragma abicoder v2;
+
+import './IMulticall.sol';
+import './ISwapAndAddLiquidity.sol';
+
+/// @title Compounder
+/// @notice Reinvests the fees of a position of the NonfungiblePositionManager into the position in one transaction.
+/// The compounder collects the fees of the position, swaps the excess of one token in the pool of the position so the
+/// amounts match the ratio of the position at the current price, and adds them to the position as liquidity
+interface ICompounder is IMulticall, ISwapAndAddLiquidity {
+    /// @notice Emitted when the fees of a position are reinvested
+    /// @param tokenId The ID of the token of the position
+    /// @param liquidity The liquidity that was added to the position
+    /// @param amount0 The amount of token0 that was added to the position
+    /// @param amount1 The amount of token1 that was added to the position
+    event Compounded(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1);
+
+    struct CompoundParams {
+        uint256 tokenId;
+        // the minimum liquidity that must be added, which guards against the price moving before the transaction
+        uint128 liquidityMin;
+        uint256 deadline;
+    }
+
+    /// @notice Collects the fees of a position and adds them to the position as liquidity, sending the amounts that
+    /// could not be added to the owner of the position
+    /// @dev Callable by the owner of the position, the account approved for it, or an operator of the owner. The
+    /// compounder must be approved for the position
+    /// @param params The params of the compound, encoded as `CompoundParams` in calldata
+    /// @return liquidity The liquidity that was added to the position
+    /// @return amount0 The amount of token0 that was added to the position
+    /// @return amount1 The amount of token1 that was added to the position
+    function compound(CompoundParams calldata params)
+        external
+        returns (
+            uint128 liquidity,
+            uint256 amount0,
+            uint256 amount1
+        );
+}
@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.7.5;
+pragma abicoder v2;
+
+import './IMulticall.sol';
+import './IPoolInitializerWithCardinality.sol';
+
+/// @title Fee Tier Migrator
+/// @notice Moves the liquidity of a position of the NonfungiblePositionManager to the pool of the same tokens with
+/// another fee. The migrator removes all the liquidity and fees of the position, burns it, and mints a position with
+/// the same range, snapped to the tick spacing of the new fee, in the pool of the new fee
+interface IFeeTierMigrator is IMulticall, IPoolInitializerWithCardinality {
+    /// @notice Emitted when a position is migrated to another fee tier
+    /// @param tokenId The ID of the token of the burned position
+    /// @param newTokenId The ID of the token of the minted position
+    /// @param fee The fee of the pool of the minted position
+    /// @param liquidity The liquidity of the minted position
+    /// @param refund0 The amount of token0 that could not be added to the minted position
+    /// @param refund1 The amount of token1 that could not be added to the minted position
+    event Migrated(
+        uint256 indexed tokenId,
+        uint256 indexed newTokenId,
+        uint24 fee,
+        uint128 liquidity,
+        uint256 refund0,
+        uint256 refund1
+    );
+
+    /// @return Returns the address of the position manager whose positions are migrated
+    function nonfungiblePositionManager() external view returns (address);
+
+    /// @notice Approves the migrator for a position via a permit signature of the owner of the position
+    /// @dev The migrator must be approved for a position to remove its liquidity and burn it. This function is
+    /// expected to be embedded in a multicall with `migrate` to approve and migrate in a single transaction
+    /// @param tokenId The ID of the token of the position
+    /// @param deadline The deadline timestamp by which the call must be mined for the approve to work
+    /// @param v Must produce valid secp256k1 signature from the owner along with `r` and `s`
+    /// @param r Must produce valid secp256k1 signature from the owner along with `v` and `s`
+    /// @param s Must produce valid secp256k1 signature from the owner along with `r` and `v`
+    function selfPermitPosition(
+        uint256 tokenId,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external;
+
+    struct MigrateParams {
+        uint256 tokenId;
+        uint24 fee; // the fee of the pool to migrate to
+        uint256 amount0Min;
+        uint256 amount1Min;
+        // the address that receives the new position and the amounts that could not be added to it
+        address recipient;
+        uint256 deadline;
+    }
+
+    /// @notice Burns a position and mints a position with its liquidity and fees in the pool of another fee
+    /// @dev Callable by the owner of the position, the account approved for it, or an operator of the owner. The
+    /// migrator must be approved for the position. Each tick of the range is rounded to the nearest multiple of the
+    /// tick spacing of the new fee. Slippage protection is enforced via `amount{0,1}Min`, which should be a discount
+    /// of the amounts that are withdrawn from the position
+    /// @param params The params of the migration, encoded as `MigrateParams` in calldata
+    /// @return newTokenId The ID of the token of the minted position
+    /// @return liquidity The liquidity of the minted position
+    /// @return refund0 The amount of token0 that could not be added to the minted position
+    /// @return refund1 The amount of token1 that could not be added to the minted position
+    function migrate(MigrateParams calldata params)
+        external
+        returns (
+            uint256 newTokenId,
+            uint128 liquidity,
+            uint256 refund0,
+            uint256 refund1
+        );
+}
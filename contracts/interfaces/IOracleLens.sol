@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.7.5;
+pragma abicoder v2;
+
+/// @title Oracle Lens
+/// @notice Provides functions for fetching the time-weighted averages of a pool over several windows
+/// @dev This avoids observing the pool once per window and calculating the means from the tick and liquidity
+/// cumulatives off-chain
+interface IOracleLens {
+    struct WindowObservation {
+        // the number of seconds in the past that the window starts at
+        uint32 secondsAgo;
+        int24 arithmeticMeanTick;
+        uint128 harmonicMeanLiquidity;
+        // the population variance of the mean ticks of the sub-intervals of the window, rounded down
+        uint256 tickVariance;
+    }
+
+    /// @notice Returns the time-weighted means of tick and liquidity and the variance of the tick of a pool over each
+    /// of the given windows
+    /// @dev Reverts if the oracle of the pool does not go back as far as the longest window
+    /// @param pool The address of the pool to observe
+    /// @param windows The numbers of seconds in the past that the windows start at, each of which must be divisible by
+    /// `intervals`
+    /// @param intervals The number of sub-intervals to split each window into for the tick variance
+    /// @return observations The means and the tick variance of each window, in the order of the windows
+    function observeWindows(
+        address pool,
+        uint32[] calldata windows,
+        uint16 intervals
+    ) external view returns (WindowObservation[] memory observations);
+}
@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.7.5;
+
+import './IPoolInitializer.sol';
+
+/// @title Creates and initializes V3 Pools with an oracle for a window of time-weighted averages
+/// @notice Provides a method for creating and initializing a pool, if necessary, and growing its observation
+/// cardinality, for bundling with other methods that require the pool to exist and to have an oracle
+interface IPoolInitializerWithCardinality is IPoolInitializer {
+    /// @notice Creates a new pool if it does not exist, then initializes if not initialized, then grows the observation
+    /// cardinality of the pool so that its oracle can be consulted over a window of `secondsAgo` seconds
+    /// @dev The cardinality never shrinks. The new observation slots are only filled as the pool is written to in new
+    /// blocks, so the window is only available once the pool has been written to in that many blocks
+    /// @param token0 The contract address of token0 of the pool
+    /// @param token1 The contract address of token1 of the pool
+    /// @param fee The fee amount of the v3 pool for the specified token pair
+    /// @param sqrtPriceX96 The initial square root price of the pool as a Q64.96 value
+    /// @param secondsAgo The length in seconds of the window that the oracle of the pool must cover
+    /// @param blockTime The expected number of seconds between blocks, as at most one observation is written per block
+    /// @return pool Returns the pool address based on the pair of tokens and fee, will return the newly created pool address if necessary
+    /// @return observationCardinalityNext The observation cardinality that the oracle of the pool grows to
+    function createAndInitializePoolIfNecessaryWithCardinality(
+        address token0,
+        address token1,
+        uint24 fee,
+        uint160 sqrtPriceX96,
+        uint32 secondsAgo,
+        uint32 blockTime
+    ) external payable returns (address pool, uint16 observationCardinalityNext);
+}
@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.7.5;
+pragma abicoder v2;
+
+import './INonfungiblePositionManager.sol';
+
+/// @title Position Lens
+/// @notice Provides functions for fetching many positions of a nonfungible position manager with their current value
+/// @dev This avoids the waterfall of fetching the token IDs of an owner, then the position of every token ID, and
+/// then the pool state and the value of every position
+interface IPositionLens {
+    struct PositionDetails {
+        uint256 tokenId;
+        uint96 nonce;
+        address operator;
+        address token0;
+        address token1;
+        uint24 fee;
+        int24 tickLower;
+        int24 tickUpper;
+        uint128 liquidity;
+        uint256 feeGrowthInside0LastX128;
+        uint256 feeGrowthInside1LastX128;
+        uint128 tokensOwed0;
+        uint128 tokensOwed1;
+        // the amounts of token0 and token1 the liquidity is worth at the current price of the pool
+        uint256 principal0;
+        uint256 principal1;
+        // the uncollected fees, including the tokens owed
+        uint256 fees0;
+        uint256 fees1;
+        // whether the current tick of the pool is within [tickLower, tickUpper)
+        bool inRange;
+        uint160 sqrtPriceX96;
+        int24 tick;
+    }
+
+    /// @notice Returns the details of the given positions of the position manager
+    /// @param positionManager The position manager that the token IDs belong to
+    /// @param tokenIds The IDs of the tokens for which to get the details
+    /// @return positions The details of the positions, in the order of the token IDs
+    function getPositions(INonfungiblePositionManager positionManager, uint256[] calldata tokenIds)
+        external
+        view
+        returns (PositionDetails[] memory positions);
+
+    /// @notice Returns the details of a page of the positions of an owner
+    /// @param positionManager The position manager that the positions belong to
+    /// @param owner The owner of the positions
+    /// @param startIndex The index of the first position of the page in the tokens of the owner
+    /// @param limit The maximum number of positions to return
+    /// @return positions The details of the positions at the indices [startIndex, startIndex + limit) that exist
+    /// @return balance The number of positions of the owner, which bounds the indices
+    function getPositionsOfOwner(
+        INonfungiblePositionManager positionManager,
+        address owner,
+        uint256 startIndex,
+        uint256 limit
+    ) external view returns (PositionDetails[] memory positions, uint256 balance);
+}
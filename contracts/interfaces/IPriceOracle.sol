@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.7.5;
+pragma abicoder v2;
+
+/// @title Price Oracle
+/// @notice Quotes time-weighted average prices along a path of tokens from the oracles of Uniswap V3 pools
+/// @dev The price of each hop of the path is the arithmetic mean tick of the pools of the given fee tiers of the hop,
+/// weighted by their harmonic mean liquidity. The prices of the hops are chained into the price of the first token of
+/// the path in terms of the last
+interface IPriceOracle {
+    /// @return Returns the address of the Uniswap V3 factory
+    function factory() external view returns (address);
+
+    /// @notice Returns the time-weighted average quote for an amount of the first token of a path in the last token
+    /// @dev If the oracle of a pool does not go back `period` seconds, the oldest observation of the pool is used
+    /// instead, which is reported by `shortestPeriod`
+    /// @param tokens The tokens of the path, from the token of the base amount to the token of the quote amount
+    /// @param fees The fee tiers of the pools to consult for each hop of the path, i.e. for each pair of adjacent
+    /// tokens
+    /// @param baseAmount The amount of the first token of the path to quote
+    /// @param period The number of seconds in the past from which to calculate the time-weighted average price
+    /// @return quoteAmount The amount of the last token of the path that the base amount is worth
+    /// @return arithmeticMeanTick The synthetic tick of the price of the first token in terms of the last token
+    /// @return shortestPeriod The shortest number of seconds any pool was observed for, equal to `period` unless the
+    /// oracle of a pool does not go back that far
+    /// @return staleness The largest number of seconds since any pool was last written to its oracle, i.e. since its
+    /// last swap or change of liquidity in a past block
+    /// @return harmonicMeanLiquidity The smallest sum of the harmonic mean liquidities of the pools of any hop, which
+    /// measures the cost of manipulating the quote
+    function quote(
+        address[] calldata tokens,
+        uint24[][] calldata fees,
+        uint128 baseAmount,
+        uint32 period
+    )
+        external
+        view
+        returns (
+            uint256 quoteAmount,
+            int24 arithmeticMeanTick,
+            uint32 shortestPeriod,
+            uint32 staleness,
+            uint128 harmonicMeanLiquidity
+        );
+}
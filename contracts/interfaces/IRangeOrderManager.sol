@@ -0,0 +1,120 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.7.5;
+pragma abicoder v2;
+
+import './IMulticall.sol';
+import './IPeripheryPayments.sol';
+import './IPeripheryImmutableState.sol';
+
+/// @title Range orders
+/// @notice Emulates limit orders with liquidity in a single tick spacing that is entirely on one side of the price.
+/// Once the price has fully crossed the range, the liquidity has been swapped into the other token and anyone can
+/// close the order, sending the proceeds and fees to its owner
+interface IRangeOrderManager is IMulticall, IPeripheryPayments, IPeripheryImmutableState {
+    /// @notice Emitted when an order is placed
+    /// @param orderId The ID of the order
+    /// @param owner The address that receives the proceeds of the order
+    /// @param pool The pool of the order
+    /// @param tickLower The lower tick of the range of the order
+    /// @param tickUpper The upper tick of the range of the order
+    /// @param zeroForOne Whether the order sells token0 for token1, or token1 for token0
+    /// @param liquidity The liquidity of the order
+    event OrderPlaced(
+        uint256 indexed orderId,
+        address indexed owner,
+        address indexed pool,
+        int24 tickLower,
+        int24 tickUpper,
+        bool zeroForOne,
+        uint128 liquidity
+    );
+    /// @notice Emitted when a filled order is closed
+    /// @param orderId The ID of the order
+    /// @param keeper The address that closed the order
+    /// @param amount0 The amount of token0 sent to the owner, including fees
+    /// @param amount1 The amount of token1 sent to the owner, including fees
+    event OrderExecuted(uint256 indexed orderId, address indexed keeper, uint256 amount0, uint256 amount1);
+    /// @notice Emitted when an order is cancelled by its owner
+    /// @param orderId The ID of the order
+    /// @param recipient The address that received the tokens of the order
+    /// @param amount0 The amount of token0 sent to the recipient, including fees
+    /// @param amount1 The amount of token1 sent to the recipient, including fees
+    event OrderCancelled(uint256 indexed orderId, address indexed recipient, uint256 amount0, uint256 amount1);
+
+    /// @notice Returns the order for a given order ID
+    /// @param orderId The ID of the order
+    /// @return owner The address that receives the proceeds of the order, zero if the order does not exist
+    /// @return token0 The address of the token0 of the pool
+    /// @return token1 The address of the token1 of the pool
+    /// @return fee The fee of the pool
+    /// @return tickLower The lower tick of the range of the order
+    /// @return tickUpper The upper tick of the range of the order
+    /// @return zeroForOne Whether the order sells token0 for token1, or token1 for token0
+    /// @return liquidity The liquidity of the order
+    /// @return feeGrowthInside0LastX128 The fee growth of token0 inside the range as of placing the order
+    /// @return feeGrowthInside1LastX128 The fee growth of token1 inside the range as of placing the order
+    function orders(uint256 orderId)
+        external
+        view
+        returns (
+            address owner,
+            address token0,
+            address token1,
+            uint24 fee,
+            int24 tickLower,
+            int24 tickUpper,
+            bool zeroForOne,
+            uint128 liquidity,
+            uint256 feeGrowthInside0LastX128,
+            uint256 feeGrowthInside1LastX128
+        );
+
+    /// @notice Returns whether the price has fully crossed the range of the order, so that it can be executed
+    /// @param orderId The ID of the order
+    /// @return Whether the order can be executed
+    function isFilled(uint256 orderId) external view returns (bool);
+
+    struct PlaceOrderParams {
+        address token0;
+        address token1;
+        uint24 fee;
+        // the lower tick of the range, the upper tick is one tick spacing above
+        int24 tickLower;
+        // whether the order sells token0 for token1, or token1 for token0
+        bool zeroForOne;
+        // the amount of token0 for an order that sells token0, otherwise the amount of token1
+        uint256 amountIn;
+        address owner;
+        uint256 deadline;
+    }
+
+    /// @notice Places an order by adding liquidity in a range that is entirely on one side of the current price,
+    /// paid by the caller
+    /// @dev An order that sells token0 requires the current tick to be below the range, and an order that sells
+    /// token1 requires the current tick to be at or above the range
+    /// @param params The params of the order, encoded as `PlaceOrderParams` in calldata
+    /// @return orderId The ID of the order
+    /// @return liquidity The liquidity of the order
+    /// @return amountIn The amount of the token that was paid
+    function placeOrder(PlaceOrderParams calldata params)
+        external
+        payable
+        returns (
+            uint256 orderId,
+            uint128 liquidity,
+            uint256 amountIn
+        );
+
+    /// @notice Closes a filled order and sends the proceeds and the fees to its owner, callable by anyone
+    /// @param orderId The ID of the order
+    /// @return amount0 The amount of token0 sent to the owner
+    /// @return amount1 The amount of token1 sent to the owner
+    function executeOrder(uint256 orderId) external returns (uint256 amount0, uint256 amount1);
+
+    /// @notice Closes an order whether or not it is filled, callable by its owner
+    /// @param orderId The ID of the order
+    /// @param recipient The address that receives the tokens of the order
+    /// @return amount0 The amount of token0 sent to the recipient
+    /// @return amount1 The amount of token1 sent to the recipient
+    function cancelOrder(uint256 orderId, address recipient) external returns (uint256 amount0, uint256 amount1);
+}
@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.7.5;
+pragma abicoder v2;
+
+import './IMulticall.sol';
+import './ISwapAndAddLiquidity.sol';
+
+/// @title Rebalancer
+/// @notice Moves the liquidity of a position of the NonfungiblePositionManager to a new range in one transaction.
+/// The rebalancer removes all the liquidity and fees of the position, burns it, swaps the excess of one token in the
+/// pool of the position so the amounts match the ratio of the new range at the current price, and mints a new
+/// position in the new range
+interface IRebalancer is IMulticall, ISwapAndAddLiquidity {
+    /// @notice Emitted when a position is moved to a new range
+    /// @param tokenId The ID of the token of the burned position
+    /// @param newTokenId The ID of the token of the minted position
+    /// @param liquidity The liquidity of the minted position
+    /// @param amount0 The amount of token0 in the minted position
+    /// @param amount1 The amount of token1 in the minted position
+    event Rebalanced(
+        uint256 indexed tokenId,
+        uint256 indexed newTokenId,
+        uint128 liquidity,
+        uint256 amount0,
+        uint256 amount1
+    );
+
+    struct RebalanceParams {
+        uint256 tokenId;
+        // the new range, in the same pool
+        int24 tickLower;
+        int24 tickUpper;
+        // the minimum liquidity of the new position, which is the only slippage check of the rebalance
+        uint128 liquidityMin;
+        // the address that receives the new position and the amounts that could not be added to it
+        address recipient;
+        uint256 deadline;
+    }
+
+    /// @notice Burns a position and mints a new position with its liquidity and fees in a new range
+    /// @dev Callable by the owner of the position, the account approved for it, or an operator of the owner. The
+    /// rebalancer must be approved for the position
+    /// @param params The params of the rebalance, encoded as `RebalanceParams` in calldata
+    /// @return newTokenId The ID of the token of the minted position
+    /// @return liquidity The liquidity of the minted position
+    /// @return amount0 The amount of token0 in the minted position
+    /// @return amount1 The amount of token1 in the minted position
+    function rebalance(RebalanceParams calldata params)
+        external
+        returns (
+            uint256 newTokenId,
+            uint128 liquidity,
+            uint256 amount0,
+            uint256 amount1
+        );
+}
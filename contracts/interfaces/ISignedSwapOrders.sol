@@ -0,0 +1,70 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.7.5;
+pragma abicoder v2;
+
+/// @title Signed swap orders
+/// @notice Exact input swaps that are signed by the payer and can be submitted by anyone, e.g. a relayer. The payer
+/// approves the executor for the token in, either with an allowance or with an ERC-2612 permit that anyone can submit
+/// to the token, and signs an EIP-712 order that the executor pulls the amount in for and swaps through the router
+interface ISignedSwapOrders {
+    /// @notice Emitted when a signed swap order is executed
+    /// @param signer The signer of the order, who paid for the swap
+    /// @param nonce The nonce of the order
+    /// @param amountOut The amount of the token out that was received by the recipient
+    event SwapOrderExecuted(address indexed signer, uint256 indexed nonce, uint256 amountOut);
+    /// @notice Emitted when a signer cancels the signed swap orders with a nonce
+    /// @param signer The signer of the orders
+    /// @param nonce The nonce that was cancelled
+    event SwapOrderCancelled(address indexed signer, uint256 indexed nonce);
+
+    /// @return Returns the address of the router that swaps the orders
+    function swapRouter() external view returns (address);
+
+    /// @notice The swap order typehash used in the order signature
+    /// @return The typehash for the swap order
+    function SWAP_ORDER_TYPEHASH() external pure returns (bytes32);
+
+    /// @notice The domain separator used in the order signature
+    /// @return The domain separator used in encoding of the order signature
+    function DOMAIN_SEPARATOR() external view returns (bytes32);
+
+    /// @notice Returns whether a nonce of a signer was used by an executed or cancelled order
+    /// @param signer The signer of the orders
+    /// @param nonce The nonce of the orders
+    /// @return Whether the nonce was used
+    function isSwapOrderNonceUsed(address signer, uint256 nonce) external view returns (bool);
+
+    struct SwapOrder {
+        // the payer, who must sign the order
+        address signer;
+        // the first and the last token of the path
+        address tokenIn;
+        address tokenOut;
+        bytes path;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+        address recipient;
+        // any nonce that was not used by the signer, so orders can be executed in any order
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    /// @notice Swaps `amountIn` of the token in for as much as possible of the token out along the path of a signed
+    /// order, paid by the signer of the order
+    /// @dev Callable by anyone. Each nonce of a signer can be used by one order only
+    /// @param order The order, encoded as `SwapOrder` in calldata
+    /// @param v Must produce valid secp256k1 signature from the signer along with `r` and `s`
+    /// @param r Must produce valid secp256k1 signature from the signer along with `v` and `s`
+    /// @param s Must produce valid secp256k1 signature from the signer along with `r` and `v`
+    /// @return amountOut The amount of the token out that was received by the recipient
+    function executeSwapOrder(
+        SwapOrder calldata order,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external returns (uint256 amountOut);
+
+    /// @notice Cancels the orders of the caller with a nonce, so they cannot be executed
+    /// @param nonce The nonce of the orders to cancel
+    function cancelSwapOrder(uint256 nonce) external;
+}
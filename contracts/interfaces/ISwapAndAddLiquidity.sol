@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.7.5;
+
+/// @title Swap and add liquidity
+/// @notice Functions shared by the contracts that swap the excess of one token to the ratio of a range and add the
+/// amounts as liquidity to positions of the NonfungiblePositionManager
+interface ISwapAndAddLiquidity {
+    /// @return Returns the address of the position manager of the positions
+    function nonfungiblePositionManager() external view returns (address);
+
+    /// @return Returns the address of the router that swaps the excess tokens
+    function swapRouter() external view returns (address);
+
+    /// @notice Approves the contract for a position via a permit signature of the owner of the position
+    /// @dev The contract must be approved for a position to withdraw from it. This function is expected to be embedded
+    /// in a multicall with the function that withdraws, to approve and withdraw in a single transaction
+    /// @param tokenId The ID of the token of the position
+    /// @param deadline The deadline timestamp by which the call must be mined for the approve to work
+    /// @param v Must produce valid secp256k1 signature from the owner along with `r` and `s`
+    /// @param r Must produce valid secp256k1 signature from the owner along with `v` and `s`
+    /// @param s Must produce valid secp256k1 signature from the owner along with `r` and `v`
+    function selfPermitPosition(
+        uint256 tokenId,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external;
+}
@@ -36,6 +36,22 @@ interface ISwapRouter is IUniswapV3SwapCallback {
     /// @return amountOut The amount of the received token
     function exactInput(ExactInputParams calldata params) external payable returns (uint256 amountOut);
 
+    struct ExactInputSplitParams {
+        bytes[] paths;
+        uint256[] amountsIn;
+        address recipient;
+        uint256 deadline;
+        uint256 amountOutMinimum;
+    }
+
+    /// @notice Swaps `amountsIn[i]` of one token along `paths[i]` for each path, for as much as possible of another token
+    /// @dev All paths must start with the same token and end with the same token. The first pool of each path is paid by
+    /// the caller as it swaps, so a path that runs out of liquidity only takes what it swaps, and the total output amount
+    /// is checked against `amountOutMinimum`
+    /// @param params The parameters necessary for the split multi-hop swap, encoded as `ExactInputSplitParams` in calldata
+    /// @return amountOut The total amount of the received token
+    function exactInputSplit(ExactInputSplitParams calldata params) external payable returns (uint256 amountOut);
+
     struct ExactOutputSingleParams {
         address tokenIn;
         address tokenOut;
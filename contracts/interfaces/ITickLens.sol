@@ -13,6 +13,20 @@ interface ITickLens {
         uint128 liquidityGross;
     }
 
+    struct PoolState {
+        uint160 sqrtPriceX96;
+        int24 tick;
+        uint16 observationIndex;
+        uint16 observationCardinality;
+        uint16 observationCardinalityNext;
+        uint8 feeProtocol;
+        bool unlocked;
+        uint128 liquidity;
+        uint256 feeGrowthGlobal0X128;
+        uint256 feeGrowthGlobal1X128;
+        int24 tickSpacing;
+    }
+
     /// @notice Get all the tick data for the populated ticks from a word of the tick bitmap of a pool
     /// @param pool The address of the pool for which to fetch populated tick data
     /// @param tickBitmapIndex The index of the word in the tick bitmap for which to parse the bitmap and
@@ -22,4 +36,31 @@ interface ITickLens {
         external
         view
         returns (PopulatedTick[] memory populatedTicks);
+
+    /// @notice Get the state of a pool and the tick data for the populated ticks from a range of words of its tick
+    /// bitmap, stopping early when the remaining gas runs low
+    /// @dev The range is clamped to the words that contain usable ticks, so passing type(int16).min and
+    /// type(int16).max walks the whole span of the pool. At least one word is walked if the range is not empty
+    /// @param pool The address of the pool for which to fetch the state and populated tick data
+    /// @param startWord The index of the first word in the tick bitmap to walk
+    /// @param endWord The index of the last word in the tick bitmap to walk
+    /// @param gasReserve No further word is walked once less than this amount of gas is left
+    /// @return state The state of the pool
+    /// @return populatedTicks An array of tick data for the walked words, in ascending order of the ticks
+    /// @return nextWord The index of the first word that was not walked, which is the start of the next call
+    /// @return complete Whether the whole clamped range was walked
+    function getPopulatedTicksInWordRange(
+        address pool,
+        int16 startWord,
+        int16 endWord,
+        uint256 gasReserve
+    )
+        external
+        view
+        returns (
+            PoolState memory state,
+            PopulatedTick[] memory populatedTicks,
+            int16 nextWord,
+            bool complete
+        );
 }
@@ -2,13 +2,15 @@
 pragma solidity >=0.7.5;
 pragma abicoder v2;
 
+import '@uniswap/v3-core/contracts/interfaces/callback/IUniswapV3SwapCallback.sol';
+
 import './IMulticall.sol';
 import './ISelfPermit.sol';
-import './IPoolInitializer.sol';
+import './IPoolInitializerWithCardinality.sol';
 
 /// @title V3 Migrator
 /// @notice Enables migration of liqudity from Uniswap v2-compatible pairs into Uniswap v3 pools
-interface IV3Migrator is IMulticall, ISelfPermit, IPoolInitializer {
+interface IV3Migrator is IMulticall, ISelfPermit, IPoolInitializerWithCardinality, IUniswapV3SwapCallback {
     struct MigrateParams {
         address pair; // the Uniswap v2-compatible pair
         uint256 liquidityToMigrate; // expected to be balanceOf(msg.sender)
@@ -31,4 +33,56 @@ interface IV3Migrator is IMulticall, ISelfPermit, IPoolInitializer {
     /// out-of-range position, `amount{0,1}Min` may be set to 0, enforcing that the position remains out of range
     /// @param params The params necessary to migrate v2 liquidity, encoded as `MigrateParams` in calldata
     function migrate(MigrateParams calldata params) external;
+
+    struct MigrateWithPermitParams {
+        MigrateParams migrate;
+        // the permit of the pair for `liquidityToMigrate`, which is skipped if the deadline is 0 or the pair is approved
+        uint256 permitDeadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    /// @notice Migrates liquidity from multiple v2 pairs to v3 in one transaction, minting a v3 position per pair
+    /// @dev Each migration is checked for slippage like `migrate`, and the whole batch reverts if any check fails.
+    /// A migration with a permit approves the migrator for the pair via `selfPermit` before burning its liquidity, unless
+    /// the migrator is already approved for `liquidityToMigrate`, so that a front-run permit does not revert the batch
+    /// @param params The params necessary to migrate each pair, encoded as `MigrateWithPermitParams[]` in calldata
+    /// @return tokenIds The IDs of the tokens of the minted positions, in the order of the migrations
+    function migrateBatch(MigrateWithPermitParams[] calldata params) external returns (uint256[] memory tokenIds);
+
+    struct MigrateWithRangeParams {
+        address pair; // the Uniswap v2-compatible pair
+        uint256 liquidityToMigrate; // expected to be balanceOf(msg.sender)
+        uint8 percentageToMigrate; // represented as a numerator over 100
+        address token0;
+        address token1;
+        uint24 fee;
+        int24 width; // the width of the range in ticks, a multiple of the tick spacing
+        bool initializePool; // whether to create and initialize the v3 pool at the v2 price if necessary
+        uint160 sqrtPriceX96Min; // the bounds that both the v2 and the v3 price must be within
+        uint160 sqrtPriceX96Max;
+        address recipient;
+        uint256 deadline;
+        bool refundAsETH;
+    }
+
+    /// @notice Migrates liquidity to v3 by burning v2 liquidity and minting a new position in a range around the
+    /// current v3 price, swapping the excess of one token in the v3 pool so the amounts match the ratio of the range
+    /// @dev Slippage protection is enforced via `sqrtPriceX96{Min,Max}`, which bound the v2 price before the burn, the
+    /// v3 price before the swap and the v3 price that the swap can move to. The swap is skipped when the v3 pool has
+    /// no liquidity
+    /// @param params The params necessary to migrate v2 liquidity, encoded as `MigrateWithRangeParams` in calldata
+    /// @return tokenId The ID of the token of the minted position
+    /// @return tickLower The lower tick of the range of the minted position
+    /// @return tickUpper The upper tick of the range of the minted position
+    /// @return liquidity The liquidity of the minted position
+    function migrateWithRange(MigrateWithRangeParams calldata params)
+        external
+        returns (
+            uint256 tokenId,
+            int24 tickLower,
+            int24 tickUpper,
+            uint128 liquidity
+        );
 }
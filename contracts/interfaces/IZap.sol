@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.7.5;
+pragma abicoder v2;
+
+import './IMulticall.sol';
+import './IPeripheryPayments.sol';
+import './ISwapAndAddLiquidity.sol';
+import './IPeripheryImmutableState.sol';
+
+/// @title Zap
+/// @notice Mints positions of the NonfungiblePositionManager from a single token, and exits positions into a single
+/// token. The zap swaps part of the token in the pool of the position so the amounts match the ratio of the range at
+/// the current price, and mints the position with them. On the way out, it swaps everything that is withdrawn from
+/// the position into one of its tokens
+interface IZap is IMulticall, IPeripheryPayments, ISwapAndAddLiquidity, IPeripheryImmutableState {
+    /// @notice Emitted when a position is minted from a single token
+    /// @param tokenId The ID of the token of the minted position
+    /// @param tokenIn The token that was paid
+    /// @param amountIn The amount of the token that was paid
+    /// @param liquidity The liquidity of the minted position
+    event ZappedIn(uint256 indexed tokenId, address indexed tokenIn, uint256 amountIn, uint128 liquidity);
+    /// @notice Emitted when liquidity of a position is withdrawn into a single token
+    /// @param tokenId The ID of the token of the position
+    /// @param tokenOut The token that was sent to the recipient
+    /// @param liquidity The liquidity that was removed from the position
+    /// @param amountOut The amount of the token that was sent to the recipient
+    event ZappedOut(uint256 indexed tokenId, address indexed tokenOut, uint128 liquidity, uint256 amountOut);
+
+    struct ZapInParams {
+        address token0;
+        address token1;
+        uint24 fee;
+        int24 tickLower;
+        int24 tickUpper;
+        // the token that is paid, either token0 or token1. WETH9 can be paid in ETH
+        address tokenIn;
+        uint256 amountIn;
+        // the minimum liquidity of the position, which guards against the price moving before the transaction
+        uint128 liquidityMin;
+        address recipient;
+        uint256 deadline;
+    }
+
+    /// @notice Mints a position from an amount of token0 or token1, paid by the caller, sending the amounts that could
+    /// not be added to the position back to the caller
+    /// @dev To pay in ETH, send at least `amountIn` as value with WETH9 as `tokenIn`, and call `refundETH` in the
+    /// same multicall for any ETH that is left over. If the caller sends ETH, the dust of WETH9 is refunded in ETH
+    /// @param params The params of the zap, encoded as `ZapInParams` in calldata
+    /// @return tokenId The ID of the token of the minted position
+    /// @return liquidity The liquidity of the minted position
+    /// @return amount0 The amount of token0 in the minted position
+    /// @return amount1 The amount of token1 in the minted position
+    function zapIn(ZapInParams calldata params)
+        external
+        payable
+        returns (
+            uint256 tokenId,
+            uint128 liquidity,
+            uint256 amount0,
+            uint256 amount1
+        );
+
+    struct ZapOutParams {
+        uint256 tokenId;
+        uint8 percentageToRemove; // represented as a numerator over 100
+        // the token that is received, either token0 or token1 of the position
+        address tokenOut;
+        // the minimum amount of the token received in total, including the token withdrawn without a swap
+        uint256 amountOutMinimum;
+        address recipient;
+        uint256 deadline;
+        // whether the token out, which must then be WETH9, is sent to the recipient as ETH
+        bool unwrapETH;
+    }
+
+    /// @notice Removes a percentage of the liquidity of a position, collects it with all the fees of the position and
+    /// swaps everything into one of the tokens of the position
+    /// @dev Callable by the owner of the position, the account approved for it, or an operator of the owner. The
+    /// zap must be approved for the position. The position is not burned, even when all its liquidity is removed
+    /// @param params The params of the zap, encoded as `ZapOutParams` in calldata
+    /// @return amountOut The amount of the token that was sent to the recipient
+    function zapOut(ZapOutParams calldata params) external returns (uint256 amountOut);
+}
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity =0.7.6;
+pragma abicoder v2;
+
+import '../interfaces/IOracleLens.sol';
+import '../libraries/OracleLibrary.sol';
+
+/// @title Oracle Lens contract
+contract OracleLens is IOracleLens {
+    /// @inheritdoc IOracleLens
+    function observeWindows(
+        address pool,
+        uint32[] calldata windows,
+        uint16 intervals
+    ) external view override returns (WindowObservation[] memory observations) {
+        OracleLibrary.WindowData[] memory windowData = OracleLibrary.consultWindows(pool, windows, intervals);
+
+        observations = new WindowObservation[](windows.length);
+        for (uint256 i = 0; i < windows.length; i++) {
+            observations[i] = WindowObservation({
+                secondsAgo: windows[i],
+                arithmeticMeanTick: windowData[i].arithmeticMeanTick,
+                harmonicMeanLiquidity: windowData[i].harmonicMeanLiquidity,
+                tickVariance: windowData[i].tickVariance
+            });
+        }
+    }
+}
@@ -0,0 +1,168 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity =0.7.6;
+pragma abicoder v2;
+
+import '@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol';
+import '@uniswap/v3-core/contracts/libraries/FixedPoint128.sol';
+import '@uniswap/v3-core/contracts/libraries/FullMath.sol';
+import '@uniswap/v3-core/contracts/libraries/TickMath.sol';
+
+import '../interfaces/IPositionLens.sol';
+import '../libraries/LiquidityAmounts.sol';
+import '../libraries/PoolAddress.sol';
+
+/// @dev INonfungiblePositionManager#positions, returning the position as a struct with the same ABI encoding as the
+/// tuple that it returns
+interface IPositionManagerPositions {
+    struct Position {
+        uint96 nonce;
+        address operator;
+        address token0;
+        address token1;
+        uint24 fee;
+        int24 tickLower;
+        int24 tickUpper;
+        uint128 liquidity;
+        uint256 feeGrowthInside0LastX128;
+        uint256 feeGrowthInside1LastX128;
+        uint128 tokensOwed0;
+        uint128 tokensOwed1;
+    }
+
+    function positions(uint256 tokenId) external view returns (Position memory);
+}
+
+/// @title Position Lens contract
+contract PositionLens is IPositionLens {
+    /// @inheritdoc IPositionLens
+    function getPositions(INonfungiblePositionManager positionManager, uint256[] calldata tokenIds)
+        public
+        view
+        override
+        returns (PositionDetails[] memory positions)
+    {
+        positions = new PositionDetails[](tokenIds.length);
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            positions[i] = getPosition(positionManager, tokenIds[i]);
+        }
+    }
+
+    /// @inheritdoc IPositionLens
+    function getPositionsOfOwner(
+        INonfungiblePositionManager positionManager,
+        address owner,
+        uint256 startIndex,
+        uint256 limit
+    ) public view override returns (PositionDetails[] memory positions, uint256 balance) {
+        balance = positionManager.balanceOf(owner);
+
+        // clamp the page to the tokens of the owner
+        uint256 count = startIndex < balance ? balance - startIndex : 0;
+        if (count > limit) count = limit;
+
+        positions = new PositionDetails[](count);
+        for (uint256 i = 0; i < count; i++) {
+            positions[i] = getPosition(positionManager, positionManager.tokenOfOwnerByIndex(owner, startIndex + i));
+        }
+    }
+
+    function getPosition(INonfungiblePositionManager positionManager, uint256 tokenId)
+        private
+        view
+        returns (PositionDetails memory details)
+    {
+        details = readPosition(positionManager, tokenId);
+
+        IUniswapV3Pool pool =
+            IUniswapV3Pool(
+                PoolAddress.computeAddress(
+                    positionManager.factory(),
+                    PoolAddress.PoolKey({token0: details.token0, token1: details.token1, fee: details.fee})
+                )
+            );
+        (details.sqrtPriceX96, details.tick, , , , , ) = pool.slot0();
+        details.inRange = details.tickLower <= details.tick && details.tick < details.tickUpper;
+
+        (details.principal0, details.principal1) = LiquidityAmounts.getAmountsForLiquidity(
+            details.sqrtPriceX96,
+            TickMath.getSqrtRatioAtTick(details.tickLower),
+            TickMath.getSqrtRatioAtTick(details.tickUpper),
+            details.liquidity
+        );
+        (details.fees0, details.fees1) = getFees(pool, details);
+    }
+
+    /// @dev Computes the fees owed to the position as PositionValue.fees does, but from the position and the tick of the
+    /// pool that were already read
+    function getFees(IUniswapV3Pool pool, PositionDetails memory details)
+        private
+        view
+        returns (uint256 fees0, uint256 fees1)
+    {
+        (uint256 feeGrowthInside0X128, uint256 feeGrowthInside1X128) =
+            getFeeGrowthInside(pool, details.tick, details.tickLower, details.tickUpper);
+
+        fees0 =
+            FullMath.mulDiv(
+                feeGrowthInside0X128 - details.feeGrowthInside0LastX128,
+                details.liquidity,
+                FixedPoint128.Q128
+            ) +
+            details.tokensOwed0;
+        fees1 =
+            FullMath.mulDiv(
+                feeGrowthInside1X128 - details.feeGrowthInside1LastX128,
+                details.liquidity,
+                FixedPoint128.Q128
+            ) +
+            details.tokensOwed1;
+    }
+
+    function getFeeGrowthInside(
+        IUniswapV3Pool pool,
+        int24 tickCurrent,
+        int24 tickLower,
+        int24 tickUpper
+    ) private view returns (uint256 feeGrowthInside0X128, uint256 feeGrowthInside1X128) {
+        (, , uint256 lowerFeeGrowthOutside0X128, uint256 lowerFeeGrowthOutside1X128, , , , ) = pool.ticks(tickLower);
+        (, , uint256 upperFeeGrowthOutside0X128, uint256 upperFeeGrowthOutside1X128, , , , ) = pool.ticks(tickUpper);
+
+        if (tickCurrent < tickLower) {
+            feeGrowthInside0X128 = lowerFeeGrowthOutside0X128 - upperFeeGrowthOutside0X128;
+            feeGrowthInside1X128 = lowerFeeGrowthOutside1X128 - upperFeeGrowthOutside1X128;
+        } else if (tickCurrent < tickUpper) {
+            uint256 feeGrowthGlobal0X128 = pool.feeGrowthGlobal0X128();
+            uint256 feeGrowthGlobal1X128 = pool.feeGrowthGlobal1X128();
+            feeGrowthInside0X128 = feeGrowthGlobal0X128 - lowerFeeGrowthOutside0X128 - upperFeeGrowthOutside0X128;
+            feeGrowthInside1X128 = feeGrowthGlobal1X128 - lowerFeeGrowthOutside1X128 - upperFeeGrowthOutside1X128;
+        } else {
+            feeGrowthInside0X128 = upperFeeGrowthOutside0X128 - lowerFeeGrowthOutside0X128;
+            feeGrowthInside1X128 = upperFeeGrowthOutside1X128 - lowerFeeGrowthOutside1X128;
+        }
+    }
+
+    /// @dev Reads the position of the token from the position manager once. The position is decoded into a struct
+    /// instead of a tuple, which would not fit the stack
+    function readPosition(INonfungiblePositionManager positionManager, uint256 tokenId)
+        private
+        view
+        returns (PositionDetails memory details)
+    {
+        IPositionManagerPositions.Position memory position =
+            IPositionManagerPositions(address(positionManager)).positions(tokenId);
+
+        details.tokenId = tokenId;
+        details.nonce = position.nonce;
+        details.operator = position.operator;
+        details.token0 = position.token0;
+        details.token1 = position.token1;
+        details.fee = position.fee;
+        details.tickLower = position.tickLower;
+        details.tickUpper = position.tickUpper;
+        details.liquidity = position.liquidity;
+        details.feeGrowthInside0LastX128 = position.feeGrowthInside0LastX128;
+        details.feeGrowthInside1LastX128 = position.feeGrowthInside1LastX128;
+        details.tokensOwed0 = position.tokensOwed0;
+        details.tokensOwed1 = position.tokensOwed1;
+    }
+}
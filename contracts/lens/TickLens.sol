@@ -3,6 +3,7 @@ pragma solidity >=0.5.0;
 pragma abicoder v2;
 
 import '@uniswap/v3-core/contracts/interfaces/IUniswapV3Pool.sol';
+import '@uniswap/v3-core/contracts/libraries/TickMath.sol';
 
 import '../interfaces/ITickLens.sol';
 
@@ -15,6 +16,77 @@ contract TickLens is ITickLens {
         override
         returns (PopulatedTick[] memory populatedTicks)
     {
+        return _getPopulatedTicksInWord(pool, tickBitmapIndex, IUniswapV3Pool(pool).tickSpacing());
+    }
+
+    /// @inheritdoc ITickLens
+    function getPopulatedTicksInWordRange(
+        address pool,
+        int16 startWord,
+        int16 endWord,
+        uint256 gasReserve
+    )
+        public
+        view
+        override
+        returns (
+            PoolState memory state,
+            PopulatedTick[] memory populatedTicks,
+            int16 nextWord,
+            bool complete
+        )
+    {
+        state = _getPoolState(pool);
+
+        // clamp the range to the words of the usable ticks
+        int16 minWord = int16((TickMath.MIN_TICK / state.tickSpacing) >> 8);
+        int16 maxWord = int16((TickMath.MAX_TICK / state.tickSpacing) >> 8);
+        if (startWord < minWord) startWord = minWord;
+        if (endWord > maxWord) endWord = maxWord;
+        if (startWord > endWord) return (state, new PopulatedTick[](0), startWord, true);
+
+        PopulatedTick[][] memory words = new PopulatedTick[][](uint256(int256(endWord) - startWord + 1));
+        uint256 numberOfWords;
+        uint256 numberOfPopulatedTicks;
+        nextWord = startWord;
+        do {
+            words[numberOfWords] = _getPopulatedTicksInWord(pool, nextWord, state.tickSpacing);
+            numberOfPopulatedTicks += words[numberOfWords++].length;
+            nextWord++;
+        } while (nextWord <= endWord && gasleft() >= gasReserve);
+        complete = nextWord > endWord;
+
+        // the ticks of a word are in descending order, so flatten the words in reverse
+        populatedTicks = new PopulatedTick[](numberOfPopulatedTicks);
+        uint256 index;
+        for (uint256 i = 0; i < numberOfWords; i++) {
+            for (uint256 j = words[i].length; j > 0; j--) {
+                populatedTicks[index++] = words[i][j - 1];
+            }
+        }
+    }
+
+    function _getPoolState(address pool) private view returns (PoolState memory state) {
+        (
+            state.sqrtPriceX96,
+            state.tick,
+            state.observationIndex,
+            state.observationCardinality,
+            state.observationCardinalityNext,
+            state.feeProtocol,
+            state.unlocked
+        ) = IUniswapV3Pool(pool).slot0();
+        state.liquidity = IUniswapV3Pool(pool).liquidity();
+        state.feeGrowthGlobal0X128 = IUniswapV3Pool(pool).feeGrowthGlobal0X128();
+        state.feeGrowthGlobal1X128 = IUniswapV3Pool(pool).feeGrowthGlobal1X128();
+        state.tickSpacing = IUniswapV3Pool(pool).tickSpacing();
+    }
+
+    function _getPopulatedTicksInWord(
+        address pool,
+        int16 tickBitmapIndex,
+        int24 tickSpacing
+    ) private view returns (PopulatedTick[] memory populatedTicks) {
         // fetch bitmap
         uint256 bitmap = IUniswapV3Pool(pool).tickBitmap(tickBitmapIndex);
 
@@ -25,7 +97,6 @@ contract TickLens is ITickLens {
         }
 
         // fetch populated tick data
-        int24 tickSpacing = IUniswapV3Pool(pool).tickSpacing();
         populatedTicks = new PopulatedTick[](numberOfPopulatedTicks);
         for (uint256 i = 0; i < 256; i++) {
             if (bitmap & (1 << i) > 0) {
@@ -40,6 +40,189 @@ library OracleLibrary {
         harmonicMeanLiquidity = uint128(secondsAgoX160 / (uint192(secondsPerLiquidityCumulativesDelta) << 32));
     }
 
+    /// @notice Calculates the time-weighted mean tick for a given Uniswap V3 pool, along with a mean tick that clamps the
+    /// movement of the tick between sub-intervals of the period, which resists a price that is manipulated for a few blocks
+    /// @dev The period is split into `intervals` sub-intervals of equal length, which are observed in a single call. The
+    /// clamping is anchored on the sub-interval with the median mean tick, which is not clamped, and walks forwards and
+    /// backwards from it, clamping the mean tick of each sub-interval to within `maxTickDelta` of the clamped mean tick of
+    /// its neighbour towards the anchor. The clamped mean tick is the mean of the clamped ticks. A price that is
+    /// manipulated for fewer than half of the sub-intervals cannot move the anchor, wherever it is in the period, and a
+    /// price that genuinely moves by more than `maxTickDelta` per sub-interval is lagged by the clamped mean tick
+    /// @param pool Address of the pool that we want to observe
+    /// @param secondsAgo Number of seconds in the past from which to calculate the time-weighted means
+    /// @param intervals Number of sub-intervals to split the period into, which must divide `secondsAgo`
+    /// @param maxTickDelta The maximum number of ticks that the mean tick may move from one sub-interval to the next
+    /// @return arithmeticMeanTick The arithmetic mean tick from (block.timestamp - secondsAgo) to block.timestamp, as
+    /// returned by `consult`
+    /// @return clampedArithmeticMeanTick The arithmetic mean of the clamped mean ticks of the sub-intervals
+    function consultClamped(
+        address pool,
+        uint32 secondsAgo,
+        uint16 intervals,
+        uint24 maxTickDelta
+    ) internal view returns (int24 arithmeticMeanTick, int24 clampedArithmeticMeanTick) {
+        require(secondsAgo != 0, 'BP');
+        require(intervals != 0 && secondsAgo % intervals == 0, 'BI');
+
+        uint32 intervalSeconds = secondsAgo / intervals;
+        uint32[] memory secondsAgos = new uint32[](uint256(intervals) + 1);
+        for (uint256 i = 0; i <= intervals; i++) {
+            secondsAgos[i] = secondsAgo - uint32(i) * intervalSeconds;
+        }
+
+        (int56[] memory tickCumulatives, ) = IUniswapV3Pool(pool).observe(secondsAgos);
+
+        arithmeticMeanTick = getArithmeticMeanTick(tickCumulatives[intervals] - tickCumulatives[0], secondsAgo);
+
+        int24[] memory ticks = new int24[](intervals);
+        for (uint256 i = 0; i < intervals; i++) {
+            ticks[i] = getArithmeticMeanTick(tickCumulatives[i + 1] - tickCumulatives[i], intervalSeconds);
+        }
+
+        clampedArithmeticMeanTick = getClampedArithmeticMeanTick(ticks, maxTickDelta);
+    }
+
+    /// @notice Clamps the mean ticks of the sub-intervals outwards from the sub-interval with the median mean tick, and
+    /// calculates the arithmetic mean of the clamped ticks
+    function getClampedArithmeticMeanTick(int24[] memory ticks, uint24 maxTickDelta) private pure returns (int24) {
+        uint256 anchor = getMedianIndex(ticks);
+
+        // The sum of the clamped ticks fits in 40 bits for up to 2**16 sub-intervals
+        int256 clampedTicksSum = ticks[anchor];
+        int256 previousTick = ticks[anchor];
+        for (uint256 i = anchor + 1; i < ticks.length; i++) {
+            previousTick = clamp(ticks[i], previousTick, maxTickDelta);
+            clampedTicksSum += previousTick;
+        }
+        previousTick = ticks[anchor];
+        for (uint256 i = anchor; i > 0; i--) {
+            previousTick = clamp(ticks[i - 1], previousTick, maxTickDelta);
+            clampedTicksSum += previousTick;
+        }
+
+        return getArithmeticMeanTick(int56(clampedTicksSum), uint32(ticks.length));
+    }
+
+    /// @notice Returns the index of the first of the ticks that equals their median, which is the upper median for an
+    /// even number of ticks
+    function getMedianIndex(int24[] memory ticks) private pure returns (uint256) {
+        // Insertion sort of a copy, as there are few sub-intervals
+        int24[] memory sorted = new int24[](ticks.length);
+        for (uint256 i = 0; i < ticks.length; i++) {
+            uint256 j = i;
+            for (; j > 0 && sorted[j - 1] > ticks[i]; j--) sorted[j] = sorted[j - 1];
+            sorted[j] = ticks[i];
+        }
+
+        int24 median = sorted[ticks.length / 2];
+        uint256 index;
+        while (ticks[index] != median) index++;
+        return index;
+    }
+
+    /// @notice Clamps a tick to within `maxTickDelta` of the previous tick
+    function clamp(
+        int256 tick,
+        int256 previousTick,
+        uint24 maxTickDelta
+    ) private pure returns (int256) {
+        if (tick > previousTick + maxTickDelta) return previousTick + maxTickDelta;
+        if (tick < previousTick - maxTickDelta) return previousTick - maxTickDelta;
+        return tick;
+    }
+
+    /// @notice Time-weighted means of tick and liquidity over a window, along with the variance of the tick
+    struct WindowData {
+        int24 arithmeticMeanTick;
+        uint128 harmonicMeanLiquidity;
+        uint256 tickVariance;
+    }
+
+    /// @notice Calculates time-weighted means of tick and liquidity and the variance of the tick for a given Uniswap V3
+    /// pool over several windows, with a single observation of the pool
+    /// @dev Each window is split into `intervals` sub-intervals of equal length. The tick variance is the population
+    /// variance of the mean ticks of the sub-intervals, rounded down, which measures the realized volatility of the price
+    /// @param pool Address of the pool that we want to observe
+    /// @param windows The numbers of seconds in the past from which to calculate the time-weighted means, each of which
+    /// must be divisible by `intervals`
+    /// @param intervals Number of sub-intervals to split each window into for the tick variance
+    /// @return windowData The time-weighted means and the tick variance for each window, in the order of the windows
+    function consultWindows(
+        address pool,
+        uint32[] memory windows,
+        uint16 intervals
+    ) internal view returns (WindowData[] memory windowData) {
+        require(intervals != 0, 'BI');
+
+        // the observation of now is shared by all windows and comes last
+        uint32[] memory secondsAgos = new uint32[](windows.length * intervals + 1);
+        for (uint256 i = 0; i < windows.length; i++) {
+            require(windows[i] != 0, 'BP');
+            require(windows[i] % intervals == 0, 'BI');
+            uint32 intervalSeconds = windows[i] / intervals;
+            for (uint256 j = 0; j < intervals; j++) {
+                secondsAgos[i * intervals + j] = windows[i] - uint32(j) * intervalSeconds;
+            }
+        }
+
+        (int56[] memory tickCumulatives, uint160[] memory secondsPerLiquidityCumulativeX128s) =
+            IUniswapV3Pool(pool).observe(secondsAgos);
+
+        windowData = new WindowData[](windows.length);
+        for (uint256 i = 0; i < windows.length; i++) {
+            windowData[i] = getWindowData(
+                tickCumulatives,
+                secondsPerLiquidityCumulativeX128s,
+                i * intervals,
+                windows[i],
+                intervals
+            );
+        }
+    }
+
+    /// @notice Calculates the means and the tick variance of a window from the cumulatives of its sub-intervals, which
+    /// start at `offset`, and the cumulatives of now, which are the last ones
+    function getWindowData(
+        int56[] memory tickCumulatives,
+        uint160[] memory secondsPerLiquidityCumulativeX128s,
+        uint256 offset,
+        uint32 window,
+        uint16 intervals
+    ) private pure returns (WindowData memory windowData) {
+        uint256 last = tickCumulatives.length - 1;
+
+        windowData.arithmeticMeanTick = getArithmeticMeanTick(tickCumulatives[last] - tickCumulatives[offset], window);
+
+        uint160 secondsPerLiquidityCumulativesDelta =
+            secondsPerLiquidityCumulativeX128s[last] - secondsPerLiquidityCumulativeX128s[offset];
+        // We are multiplying here instead of shifting to ensure that harmonicMeanLiquidity doesn't overflow uint128
+        uint192 windowX160 = uint192(window) * type(uint160).max;
+        windowData.harmonicMeanLiquidity = uint128(windowX160 / (uint192(secondsPerLiquidityCumulativesDelta) << 32));
+
+        // The sums of the ticks and of their squares fit in 40 and 64 bits for up to 2**16 sub-intervals
+        uint32 intervalSeconds = window / intervals;
+        int256 ticksSum;
+        int256 squaredTicksSum;
+        for (uint256 j = 0; j < intervals; j++) {
+            int56 intervalEnd = j + 1 < intervals ? tickCumulatives[offset + j + 1] : tickCumulatives[last];
+            int256 tick = getArithmeticMeanTick(intervalEnd - tickCumulatives[offset + j], intervalSeconds);
+            ticksSum += tick;
+            squaredTicksSum += tick * tick;
+        }
+
+        // n * sum(t^2) - sum(t)^2 is n^2 times the variance, and is never negative
+        windowData.tickVariance =
+            uint256(int256(intervals) * squaredTicksSum - ticksSum * ticksSum) /
+            (uint256(intervals) * intervals);
+    }
+
+    /// @notice Given the change of a tick cumulative over a number of seconds, calculates the arithmetic mean tick,
+    /// rounded to negative infinity
+    function getArithmeticMeanTick(int56 tickCumulativesDelta, uint32 secondsAgo) private pure returns (int24 tick) {
+        tick = int24(tickCumulativesDelta / secondsAgo);
+        if (tickCumulativesDelta < 0 && (tickCumulativesDelta % secondsAgo != 0)) tick--;
+    }
+
     /// @notice Given a tick and a token amount, calculates the amount of token received in exchange
     /// @param tick Tick value used to calculate the quote
     /// @param baseAmount Amount of token to be converted
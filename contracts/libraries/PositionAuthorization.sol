@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.6.0;
+
+import '@openzeppelin/contracts/token/ERC721/IERC721.sol';
+
+/// @title Authorizes callers for positions of the NonfungiblePositionManager
+library PositionAuthorization {
+    /// @notice Returns whether an account may act on behalf of the owner of a token, as the position manager authorizes
+    /// callers of its own functions: the owner, the account approved for the token, and the operators of the owner
+    /// @param positionManager The position manager, or any other ERC721
+    /// @param spender The account to check, usually msg.sender
+    /// @param tokenId The ID of the token
+    /// @return Whether the account is the owner of the token or approved for it
+    function isAuthorizedForToken(
+        IERC721 positionManager,
+        address spender,
+        uint256 tokenId
+    ) internal view returns (bool) {
+        address owner = positionManager.ownerOf(tokenId);
+        return
+            spender == owner ||
+            positionManager.getApproved(tokenId) == spender ||
+            positionManager.isApprovedForAll(owner, spender);
+    }
+}
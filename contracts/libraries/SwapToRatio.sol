@@ -0,0 +1,84 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity >=0.5.0 <0.8.0;
+
+import '@uniswap/v3-core/contracts/libraries/FixedPoint96.sol';
+import '@uniswap/v3-core/contracts/libraries/FullMath.sol';
+import '@uniswap/v3-core/contracts/libraries/LowGasSafeMath.sol';
+import './LiquidityAmounts.sol';
+
+/// @title Swap to ratio
+/// @notice Computes the swap that turns two token amounts into the ratio that a range takes at a price
+library SwapToRatio {
+    using LowGasSafeMath for uint256;
+
+    /// @notice Returns the amount of one token to swap so that the amounts match the ratio of the range at the
+    /// current price once the swap fee is paid
+    /// @dev The price impact of the swap is not accounted for, so the amounts are only close to the ratio after a
+    /// swap in a pool with little liquidity
+    /// @param sqrtPriceX96 A sqrt price representing the current pool prices
+    /// @param sqrtRatioAX96 A sqrt price representing the first tick boundary
+    /// @param sqrtRatioBX96 A sqrt price representing the second tick boundary
+    /// @param fee The fee of the pool that the swap is in, in hundredths of a bip
+    /// @param amount0 The amount of token0 available
+    /// @param amount1 The amount of token1 available
+    /// @return zeroForOne Whether token0 is swapped for token1, or token1 for token0
+    /// @return amountIn The amount of the token to swap
+    function getSwapAmount(
+        uint160 sqrtPriceX96,
+        uint160 sqrtRatioAX96,
+        uint160 sqrtRatioBX96,
+        uint24 fee,
+        uint256 amount0,
+        uint256 amount1
+    ) internal pure returns (bool zeroForOne, uint256 amountIn) {
+        uint256 ratioValue0;
+        uint256 ratio1;
+        {
+            // the amounts of a unit of liquidity of the range
+            uint256 ratio0;
+            (ratio0, ratio1) = LiquidityAmounts.getAmountsForLiquidity(
+                sqrtPriceX96,
+                sqrtRatioAX96,
+                sqrtRatioBX96,
+                uint128(FixedPoint96.Q96)
+            );
+            // a range out of the price only takes one token
+            if (ratio0 == 0) return (true, amount0);
+            if (ratio1 == 0) return (false, amount1);
+            ratioValue0 = toValue1(ratio0, sqrtPriceX96);
+        }
+
+        // the amount of token1 that the total value splits into
+        uint256 target1 =
+            FullMath.mulDiv(toValue1(amount0, sqrtPriceX96).add(amount1), ratio1, ratioValue0.add(ratio1));
+
+        // swapping x of one token gives x * (1 - fee) of the other in value, which the ratio is solved for
+        if (amount1 > target1) {
+            amountIn = FullMath.mulDiv(
+                amount1 - target1,
+                ratioValue0.add(ratio1),
+                ratioValue0.add(FullMath.mulDiv(ratio1, 1e6 - fee, 1e6))
+            );
+        } else {
+            zeroForOne = true;
+            uint256 valueIn =
+                FullMath.mulDiv(
+                    target1 - amount1,
+                    ratioValue0.add(ratio1),
+                    ratio1.add(FullMath.mulDiv(ratioValue0, 1e6 - fee, 1e6))
+                );
+            amountIn = FullMath.mulDiv(
+                FullMath.mulDiv(valueIn, FixedPoint96.Q96, sqrtPriceX96),
+                FixedPoint96.Q96,
+                sqrtPriceX96
+            );
+        }
+    }
+
+    /// @notice Values an amount of token0 in token1, applying the price in two steps so low prices keep their
+    /// precision
+    function toValue1(uint256 amount0, uint160 sqrtPriceX96) private pure returns (uint256) {
+        return
+            FullMath.mulDiv(FullMath.mulDiv(amount0, sqrtPriceX96, FixedPoint96.Q96), sqrtPriceX96, FixedPoint96.Q96);
+    }
+}
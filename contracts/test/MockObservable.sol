@@ -2,8 +2,7 @@
 pragma solidity =0.7.6;
 
 contract MockObservable {
-    Observation private observation0;
-    Observation private observation1;
+    Observation[] private observations;
 
     struct Observation {
         uint32 secondsAgo;
@@ -17,12 +16,15 @@ contract MockObservable {
         uint160[] memory secondsPerLiquidityCumulativeX128s
     ) {
         require(
-            secondsAgos.length == 2 && tickCumulatives.length == 2 && secondsPerLiquidityCumulativeX128s.length == 2,
+            secondsAgos.length >= 2 &&
+                tickCumulatives.length == secondsAgos.length &&
+                secondsPerLiquidityCumulativeX128s.length == secondsAgos.length,
             'Invalid test case size'
         );
 
-        observation0 = Observation(secondsAgos[0], tickCumulatives[0], secondsPerLiquidityCumulativeX128s[0]);
-        observation1 = Observation(secondsAgos[1], tickCumulatives[1], secondsPerLiquidityCumulativeX128s[1]);
+        for (uint256 i = 0; i < secondsAgos.length; i++) {
+            observations.push(Observation(secondsAgos[i], tickCumulatives[i], secondsPerLiquidityCumulativeX128s[i]));
+        }
     }
 
     function observe(uint32[] calldata secondsAgos)
@@ -30,19 +32,22 @@ contract MockObservable {
         view
         returns (int56[] memory tickCumulatives, uint160[] memory secondsPerLiquidityCumulativeX128s)
     {
-        require(
-            secondsAgos[0] == observation0.secondsAgo && secondsAgos[1] == observation1.secondsAgo,
-            'Invalid test case'
-        );
-
-        int56[] memory _tickCumulatives = new int56[](2);
-        _tickCumulatives[0] = observation0.tickCumulatives;
-        _tickCumulatives[1] = observation1.tickCumulatives;
+        int56[] memory _tickCumulatives = new int56[](secondsAgos.length);
+        uint160[] memory _secondsPerLiquidityCumulativeX128s = new uint160[](secondsAgos.length);
 
-        uint160[] memory _secondsPerLiquidityCumulativeX128s = new uint160[](2);
-        _secondsPerLiquidityCumulativeX128s[0] = observation0.secondsPerLiquidityCumulativeX128s;
-        _secondsPerLiquidityCumulativeX128s[1] = observation1.secondsPerLiquidityCumulativeX128s;
+        for (uint256 i = 0; i < secondsAgos.length; i++) {
+            Observation memory observation = observationAt(secondsAgos[i]);
+            _tickCumulatives[i] = observation.tickCumulatives;
+            _secondsPerLiquidityCumulativeX128s[i] = observation.secondsPerLiquidityCumulativeX128s;
+        }
 
         return (_tickCumulatives, _secondsPerLiquidityCumulativeX128s);
     }
+
+    function observationAt(uint32 secondsAgo) private view returns (Observation memory) {
+        for (uint256 i = 0; i < observations.length; i++) {
+            if (observations[i].secondsAgo == secondsAgo) return observations[i];
+        }
+        revert('Invalid test case');
+    }
 }
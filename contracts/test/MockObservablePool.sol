@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity =0.7.6;
+
+import './MockObservable.sol';
+
+// a MockObservable with an oracle of two observations, the newest at index 0 and the oldest at index 1
+contract MockObservablePool is MockObservable {
+    uint32 private oldestObservationSecondsAgo;
+    uint32 private newestObservationSecondsAgo;
+
+    constructor(
+        uint32[] memory secondsAgos,
+        int56[] memory tickCumulatives,
+        uint160[] memory secondsPerLiquidityCumulativeX128s,
+        uint32 _oldestObservationSecondsAgo,
+        uint32 _newestObservationSecondsAgo
+    ) MockObservable(secondsAgos, tickCumulatives, secondsPerLiquidityCumulativeX128s) {
+        oldestObservationSecondsAgo = _oldestObservationSecondsAgo;
+        newestObservationSecondsAgo = _newestObservationSecondsAgo;
+    }
+
+    function slot0()
+        external
+        pure
+        returns (
+            uint160,
+            int24,
+            uint16,
+            uint16,
+            uint16,
+            uint8,
+            bool
+        )
+    {
+        return (0, 0, 0, 2, 0, 0, false);
+    }
+
+    function observations(uint256 index)
+        external
+        view
+        returns (
+            uint32,
+            int56,
+            uint160,
+            bool
+        )
+    {
+        require(index < 2, 'Invalid index');
+        uint32 secondsAgo = index == 0 ? newestObservationSecondsAgo : oldestObservationSecondsAgo;
+        return (uint32(block.timestamp) - secondsAgo, 0, 0, true);
+    }
+}
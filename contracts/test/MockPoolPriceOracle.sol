@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity =0.7.6;
+pragma abicoder v2;
+
+import '../PriceOracle.sol';
+
+contract MockPoolPriceOracle is PriceOracle {
+    mapping(address => mapping(address => mapping(uint24 => address))) private pools;
+
+    constructor() PriceOracle(address(0)) {}
+
+    function setPool(
+        address tokenA,
+        address tokenB,
+        uint24 fee,
+        address pool
+    ) external {
+        pools[tokenA][tokenB][fee] = pool;
+        pools[tokenB][tokenA][fee] = pool;
+    }
+
+    function getPool(
+        address tokenA,
+        address tokenB,
+        uint24 fee
+    ) internal view override returns (address) {
+        return pools[tokenA][tokenB][fee];
+    }
+}
@@ -13,6 +13,23 @@ contract OracleTest {
         return OracleLibrary.consult(pool, secondsAgo);
     }
 
+    function consultClamped(
+        address pool,
+        uint32 secondsAgo,
+        uint16 intervals,
+        uint24 maxTickDelta
+    ) public view returns (int24 arithmeticMeanTick, int24 clampedArithmeticMeanTick) {
+        return OracleLibrary.consultClamped(pool, secondsAgo, intervals, maxTickDelta);
+    }
+
+    function consultWindows(
+        address pool,
+        uint32[] memory windows,
+        uint16 intervals
+    ) public view returns (OracleLibrary.WindowData[] memory windowData) {
+        return OracleLibrary.consultWindows(pool, windows, intervals);
+    }
+
     function getQuoteAtTick(
         int24 tick,
         uint128 baseAmount,
@@ -29,6 +46,27 @@ contract OracleTest {
         return gasBefore - gasleft();
     }
 
+    function getGasCostOfConsultClamped(
+        address pool,
+        uint32 period,
+        uint16 intervals,
+        uint24 maxTickDelta
+    ) public view returns (uint256) {
+        uint256 gasBefore = gasleft();
+        OracleLibrary.consultClamped(pool, period, intervals, maxTickDelta);
+        return gasBefore - gasleft();
+    }
+
+    function getGasCostOfConsultWindows(
+        address pool,
+        uint32[] memory windows,
+        uint16 intervals
+    ) public view returns (uint256) {
+        uint256 gasBefore = gasleft();
+        OracleLibrary.consultWindows(pool, windows, intervals);
+        return gasBefore - gasleft();
+    }
+
     function getGasCostOfGetQuoteAtTick(
         int24 tick,
         uint128 baseAmount,
@@ -8,6 +8,10 @@ contract PathTest {
         return Path.hasMultiplePools(path);
     }
 
+    function numPools(bytes memory path) public pure returns (uint256) {
+        return Path.numPools(path);
+    }
+
     function decodeFirstPool(bytes memory path)
         public
         pure
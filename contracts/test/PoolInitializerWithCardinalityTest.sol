@@ -0,0 +1,8 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity =0.7.6;
+
+import '../base/PoolInitializerWithCardinality.sol';
+
+contract PoolInitializerWithCardinalityTest is PoolInitializerWithCardinality {
+    constructor(address _factory, address _WETH9) PeripheryImmutableState(_factory, _WETH9) {}
+}
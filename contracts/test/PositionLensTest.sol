@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: GPL-2.0-or-later
+pragma solidity =0.7.6;
+pragma abicoder v2;
+
+import '../lens/PositionLens.sol';
+
+/// @title Position Lens gas test contract
+/// @notice Measures the gas that the position lens uses for fetching positions
+contract PositionLensTest is PositionLens {
+    function getGasCostOfGetPositions(INonfungiblePositionManager positionManager, uint256[] calldata tokenIds)
+        external
+        view
+        returns (uint256)
+    {
+        uint256 gasBefore = gasleft();
+        getPositions(positionManager, tokenIds);
+        return gasBefore - gasleft();
+    }
+
+    function getGasCostOfGetPositionsOfOwner(
+        INonfungiblePositionManager positionManager,
+        address owner,
+        uint256 startIndex,
+        uint256 limit
+    ) external view returns (uint256) {
+        uint256 gasBefore = gasleft();
+        getPositionsOfOwner(positionManager, owner, startIndex, limit);
+        return gasBefore - gasleft();
+    }
+}
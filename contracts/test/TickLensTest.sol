@@ -12,4 +12,15 @@ contract TickLensTest is TickLens {
         getPopulatedTicksInWord(pool, tickBitmapIndex);
         return gasBefore - gasleft();
     }
+
+    function getGasCostOfGetPopulatedTicksInWordRange(
+        address pool,
+        int16 startWord,
+        int16 endWord,
+        uint256 gasReserve
+    ) external view returns (uint256) {
+        uint256 gasBefore = gasleft();
+        getPopulatedTicksInWordRange(pool, startWord, endWord, gasReserve);
+        return gasBefore - gasleft();
+    }
 }
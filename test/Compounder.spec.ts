@@ -0,0 +1,289 @@
+import { Fixture } from 'ethereum-waffle'
+import { BigNumber, BigNumberish, constants, Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import {
+  Compounder,
+  IUniswapV3Pool,
+  MockTimeNonfungiblePositionManager,
+  SwapRouter,
+  TestERC20,
+  TickLens,
+} from '../typechain'
+import { computeCompound, simulateCompound } from './shared/compounder'
+import completeFixture from './shared/completeFixture'
+import { computePoolAddress } from './shared/computePoolAddress'
+import { FeeAmount, TICK_SPACINGS } from './shared/constants'
+import { encodePriceSqrt } from './shared/encodePriceSqrt'
+import { expandTo18Decimals } from './shared/expandTo18Decimals'
+import { expect } from './shared/expect'
+import getPermitNFTSignature from './shared/getPermitNFTSignature'
+import { encodePath } from './shared/path'
+import { fetchPositionValueInputs } from './shared/positionValue'
+import revertChainAfter from './shared/revertChainAfter'
+import snapshotGasCost from './shared/snapshotGasCost'
+import { fetchPoolState } from './shared/swapSimulator'
+import { getSwapAmount } from './shared/swapToRatio'
+import { getMaxTick, getMinTick } from './shared/ticks'
+
+describe('Compounder', () => {
+  revertChainAfter()
+
+  let wallets: Wallet[]
+  let wallet: Wallet, other: Wallet
+
+  const compounderFixture: Fixture<{
+    nft: MockTimeNonfungiblePositionManager
+    router: SwapRouter
+    tokens: [TestERC20, TestERC20, TestERC20]
+    tickLens: TickLens
+    compounder: Compounder
+  }> = async (wallets, provider) => {
+    const { tokens, nft, router } = await completeFixture(wallets, provider)
+
+    for (const token of tokens) {
+      await token.approve(nft.address, constants.MaxUint256)
+      await token.approve(router.address, constants.MaxUint256)
+    }
+
+    const tickLensFactory = await ethers.getContractFactory('TickLens')
+    const tickLens = (await tickLensFactory.deploy()) as TickLens
+    const compounderFactory = await ethers.getContractFactory('Compounder')
+    const compounder = (await compounderFactory.deploy(nft.address, router.address)) as Compounder
+
+    return {
+      nft,
+      router,
+      tokens,
+      tickLens,
+      compounder,
+    }
+  }
+
+  let nft: MockTimeNonfungiblePositionManager
+  let router: SwapRouter
+  let tokens: [TestERC20, TestERC20, TestERC20]
+  let tickLens: TickLens
+  let compounder: Compounder
+
+  let loadFixture: ReturnType<typeof waffle.createFixtureLoader>
+
+  before('create fixture loader', async () => {
+    wallets = await (ethers as any).getSigners()
+    ;[wallet, other] = wallets
+    loadFixture = waffle.createFixtureLoader(wallets)
+  })
+
+  // the ranges of token IDs 1, 2 and 3, the price ends up below the last one after earning fees within it
+  const ranges = [
+    [getMinTick(TICK_SPACINGS[FeeAmount.MEDIUM]), getMaxTick(TICK_SPACINGS[FeeAmount.MEDIUM])],
+    [-600, 600],
+    [0, getMaxTick(TICK_SPACINGS[FeeAmount.MEDIUM])],
+  ]
+
+  async function swap(tokenIn: TestERC20, tokenOut: TestERC20, amountIn: BigNumber) {
+    await router.exactInput({
+      recipient: wallet.address,
+      deadline: 1,
+      path: encodePath([tokenIn.address, tokenOut.address], [FeeAmount.MEDIUM]),
+      amountIn,
+      amountOutMinimum: 0,
+    })
+  }
+
+  beforeEach('load fixture', async () => {
+    ;({ nft, router, tokens, tickLens, compounder } = await loadFixture(compounderFixture))
+
+    await nft.createAndInitializePoolIfNecessary(
+      tokens[0].address,
+      tokens[1].address,
+      FeeAmount.MEDIUM,
+      encodePriceSqrt(1, 1)
+    )
+    for (const [tickLower, tickUpper] of ranges) {
+      await nft.mint({
+        token0: tokens[0].address,
+        token1: tokens[1].address,
+        fee: FeeAmount.MEDIUM,
+        tickLower,
+        tickUpper,
+        recipient: wallet.address,
+        amount0Desired: expandTo18Decimals(1_000),
+        amount1Desired: expandTo18Decimals(1_000),
+        amount0Min: 0,
+        amount1Min: 0,
+        deadline: 1,
+      })
+    }
+
+    // accumulate fees mostly in token0 and leave the price slightly below 1
+    await swap(tokens[1], tokens[0], expandTo18Decimals(10))
+    await swap(tokens[0], tokens[1], expandTo18Decimals(11))
+
+    await nft.setApprovalForAll(compounder.address, true)
+  })
+
+  // mints token ID 4 in a range above the price that no swap has crossed
+  async function mintWithoutFees() {
+    await nft.mint({
+      token0: tokens[0].address,
+      token1: tokens[1].address,
+      fee: FeeAmount.MEDIUM,
+      tickLower: 600,
+      tickUpper: 1200,
+      recipient: wallet.address,
+      amount0Desired: expandTo18Decimals(1_000),
+      amount1Desired: 0,
+      amount0Min: 0,
+      amount1Min: 0,
+      deadline: 1,
+    })
+  }
+
+  async function compound(tokenId: number, liquidityMin: BigNumberish = 0) {
+    return compounder.compound({ tokenId, liquidityMin, deadline: 1 })
+  }
+
+  describe('#selfPermitPosition', () => {
+    it('approves the compounder for the position', async () => {
+      const { v, r, s } = await getPermitNFTSignature(wallet, nft, compounder.address, 1, 1)
+      await compounder.connect(other).selfPermitPosition(1, 1, v, r, s)
+      expect(await nft.getApproved(1)).to.eq(compounder.address)
+    })
+
+    it('fails with a signature for another spender', async () => {
+      const { v, r, s } = await getPermitNFTSignature(wallet, nft, other.address, 1, 1)
+      await expect(compounder.selfPermitPosition(1, 1, v, r, s)).to.be.revertedWith('Unauthorized')
+    })
+
+    it('approves and compounds in a multicall', async () => {
+      await nft.setApprovalForAll(compounder.address, false)
+      const { v, r, s } = await getPermitNFTSignature(wallet, nft, compounder.address, 1, 1)
+      const { liquidity } = await simulateCompound(nft, tickLens, 1)
+      const liquidityBefore = (await nft.positions(1)).liquidity
+
+      await compounder.multicall([
+        compounder.interface.encodeFunctionData('selfPermitPosition', [1, 1, v, r, s]),
+        compounder.interface.encodeFunctionData('compound', [{ tokenId: 1, liquidityMin: liquidity, deadline: 1 }]),
+      ])
+      expect((await nft.positions(1)).liquidity).to.eq(liquidityBefore.add(liquidity))
+    })
+  })
+
+  describe('#compound', () => {
+    it('fails if the caller is not approved', async () => {
+      await expect(compounder.connect(other).compound({ tokenId: 1, liquidityMin: 0, deadline: 1 })).to.be.revertedWith(
+        'Not approved'
+      )
+    })
+
+    it('fails if the compounder is not approved for the position', async () => {
+      await nft.setApprovalForAll(compounder.address, false)
+      await expect(compound(1)).to.be.revertedWith('Not approved')
+    })
+
+    it('can be called by the account approved for the position', async () => {
+      await nft.approve(other.address, 1)
+      const { liquidity, amount0, amount1 } = await simulateCompound(nft, tickLens, 1)
+      await expect(compounder.connect(other).compound({ tokenId: 1, liquidityMin: 0, deadline: 1 }))
+        .to.emit(compounder, 'Compounded')
+        .withArgs(1, liquidity, amount0, amount1)
+    })
+
+    it('can be called by an operator of the owner', async () => {
+      await nft.setApprovalForAll(other.address, true)
+      const { liquidity, amount0, amount1 } = await simulateCompound(nft, tickLens, 1)
+      await expect(compounder.connect(other).compound({ tokenId: 1, liquidityMin: 0, deadline: 1 }))
+        .to.emit(compounder, 'Compounded')
+        .withArgs(1, liquidity, amount0, amount1)
+    })
+
+    for (const [i, [tickLower, tickUpper]] of ranges.entries()) {
+      const tokenId = i + 1
+      it(`matches the simulation for the range ${tickLower} to ${tickUpper}`, async () => {
+        const simulation = await simulateCompound(nft, tickLens, tokenId)
+        const liquidityBefore = (await nft.positions(tokenId)).liquidity
+        const [balance0Before, balance1Before] = await Promise.all([
+          tokens[0].balanceOf(wallet.address),
+          tokens[1].balanceOf(wallet.address),
+        ])
+
+        await expect(compound(tokenId))
+          .to.emit(compounder, 'Compounded')
+          .withArgs(tokenId, simulation.liquidity, simulation.amount0, simulation.amount1)
+
+        expect((await nft.positions(tokenId)).liquidity).to.eq(liquidityBefore.add(simulation.liquidity))
+        // the dust is refunded to the owner
+        expect(await tokens[0].balanceOf(wallet.address)).to.eq(balance0Before.add(simulation.refund0))
+        expect(await tokens[1].balanceOf(wallet.address)).to.eq(balance1Before.add(simulation.refund1))
+        // and nothing is left behind in the compounder
+        expect(await tokens[0].balanceOf(compounder.address)).to.eq(0)
+        expect(await tokens[1].balanceOf(compounder.address)).to.eq(0)
+        expect(await tokens[0].allowance(compounder.address, nft.address)).to.eq(0)
+        expect(await tokens[1].allowance(compounder.address, nft.address)).to.eq(0)
+        expect(await tokens[0].allowance(compounder.address, router.address)).to.eq(0)
+        expect(await tokens[1].allowance(compounder.address, router.address)).to.eq(0)
+      })
+    }
+
+    it('swaps the excess token0 to the ratio of the position', async () => {
+      const { fees, zeroForOne, amountIn, amount0, amount1, refund0, refund1 } = await simulateCompound(
+        nft,
+        tickLens,
+        1
+      )
+      expect(fees.amount0).to.be.gt(fees.amount1)
+      expect(zeroForOne).to.eq(true)
+      expect(amountIn).to.be.gt(0)
+      // the dust is a small part of the fees
+      expect(refund0.mul(1000)).to.be.lt(amount0)
+      expect(refund1.mul(1000)).to.be.lt(amount1)
+    })
+
+    it('swaps all of the fees into the token of a position above the price', async () => {
+      const { zeroForOne, amountIn, fees, amount1 } = await simulateCompound(nft, tickLens, 3)
+      expect(fees.amount1).to.be.gt(0)
+      expect(zeroForOne).to.eq(false)
+      expect(amountIn).to.eq(fees.amount1)
+      expect(amount1).to.eq(0)
+    })
+
+    it('fails if the liquidity is less than the minimum', async () => {
+      const { liquidity } = await simulateCompound(nft, tickLens, 1)
+      await expect(compound(1, liquidity.add(1))).to.be.revertedWith('Price slippage check')
+    })
+
+    it('fails if the position has no fees', async () => {
+      await mintWithoutFees()
+      await expect(compound(4)).to.be.revertedWith('No fees')
+    })
+
+    it('gas', async () => {
+      await snapshotGasCost(compound(1))
+    })
+  })
+
+  describe('simulation', () => {
+    it('#getSwapAmount does not swap amounts that are already in ratio', async () => {
+      // a symmetric range takes equal amounts at a price of 1
+      const { amountIn } = getSwapAmount(
+        { tickLower: -600, tickUpper: 600, fee: FeeAmount.MEDIUM },
+        encodePriceSqrt(1, 1),
+        expandTo18Decimals(1),
+        expandTo18Decimals(1)
+      )
+      // up to the rounding of the ratio
+      expect(amountIn).to.be.lte(1)
+    })
+
+    it('#computeCompound throws without fees', async () => {
+      await mintWithoutFees()
+      const { position, poolFeeGrowth } = await fetchPositionValueInputs(nft, 4)
+      const pool = (await ethers.getContractAt(
+        'IUniswapV3Pool',
+        computePoolAddress(await nft.factory(), [tokens[0].address, tokens[1].address], FeeAmount.MEDIUM)
+      )) as IUniswapV3Pool
+      const state = await fetchPoolState(pool, tickLens)
+      expect(() => computeCompound(position, poolFeeGrowth, state)).to.throw('No fees')
+    })
+  })
+})
@@ -0,0 +1,264 @@
+import { Fixture } from 'ethereum-waffle'
+import { BigNumber, constants, Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import { FeeTierMigrator, IUniswapV3Factory, MockTimeNonfungiblePositionManager, TestERC20 } from '../typechain'
+import completeFixture from './shared/completeFixture'
+
+import { expect } from 'chai'
+import { FeeAmount } from './shared/constants'
+import { encodePriceSqrt } from './shared/encodePriceSqrt'
+import getPermitNFTSignature from './shared/getPermitNFTSignature'
+import poolAtAddress from './shared/poolAtAddress'
+import revertChainAfter from './shared/revertChainAfter'
+import snapshotGasCost from './shared/snapshotGasCost'
+
+describe('FeeTierMigrator', () => {
+  revertChainAfter()
+
+  let wallet: Wallet, other: Wallet
+
+  const migratorFixture: Fixture<{
+    factory: IUniswapV3Factory
+    tokens: [TestERC20, TestERC20, TestERC20]
+    nft: MockTimeNonfungiblePositionManager
+    migrator: FeeTierMigrator
+  }> = async (wallets, provider) => {
+    const { factory, tokens, nft, weth9 } = await completeFixture(wallets, provider)
+
+    for (const token of tokens) {
+      await token.approve(nft.address, constants.MaxUint256)
+    }
+
+    // deploy the migrator
+    const migrator = (await (await ethers.getContractFactory('FeeTierMigrator')).deploy(
+      factory.address,
+      weth9.address,
+      nft.address
+    )) as FeeTierMigrator
+
+    return {
+      factory,
+      tokens,
+      nft,
+      migrator,
+    }
+  }
+
+  let factory: IUniswapV3Factory
+  let tokens: [TestERC20, TestERC20, TestERC20]
+  let nft: MockTimeNonfungiblePositionManager
+  let migrator: FeeTierMigrator
+
+  let loadFixture: ReturnType<typeof waffle.createFixtureLoader>
+
+  // the range is not a multiple of the tick spacing of the 1% fee tier
+  const tickLower = -660
+  const tickUpper = 660
+
+  before('create fixture loader', async () => {
+    const wallets = await (ethers as any).getSigners()
+    ;[wallet, other] = wallets
+
+    loadFixture = waffle.createFixtureLoader(wallets)
+  })
+
+  beforeEach('load fixture', async () => {
+    ;({ factory, tokens, nft, migrator } = await loadFixture(migratorFixture))
+  })
+
+  beforeEach('add V3 liquidity', async () => {
+    await nft.createAndInitializePoolIfNecessary(
+      tokens[0].address,
+      tokens[1].address,
+      FeeAmount.MEDIUM,
+      encodePriceSqrt(1, 1)
+    )
+    await nft.mint({
+      token0: tokens[0].address,
+      token1: tokens[1].address,
+      fee: FeeAmount.MEDIUM,
+      tickLower,
+      tickUpper,
+      recipient: wallet.address,
+      amount0Desired: 10000,
+      amount1Desired: 10000,
+      amount0Min: 0,
+      amount1Min: 0,
+      deadline: 1,
+    })
+
+    await nft.setApprovalForAll(migrator.address, true)
+  })
+
+  afterEach('ensure allowances are cleared', async () => {
+    for (const token of tokens) {
+      expect(await token.allowance(migrator.address, nft.address)).to.be.eq(0)
+    }
+  })
+
+  afterEach('ensure balances are cleared', async () => {
+    for (const token of tokens) {
+      expect(await token.balanceOf(migrator.address)).to.be.eq(0)
+    }
+  })
+
+  describe('#migrate', () => {
+    function migrateParams(fee: FeeAmount, amount0Min = 0, amount1Min = 0) {
+      return { tokenId: 1, fee, amount0Min, amount1Min, recipient: wallet.address, deadline: 1 }
+    }
+
+    async function initializePool(fee: FeeAmount, price: BigNumber) {
+      await migrator.createAndInitializePoolIfNecessary(tokens[0].address, tokens[1].address, fee, price)
+    }
+
+    it('fails if v3 pool is not initialized', async () => {
+      await expect(migrator.migrate(migrateParams(FeeAmount.LOW))).to.be.reverted
+    })
+
+    it('works once v3 pool is initialized', async () => {
+      await initializePool(FeeAmount.LOW, encodePriceSqrt(1, 1))
+      const { liquidity: liquidityBefore } = await nft.positions(1)
+
+      const { liquidity, refund0, refund1 } = await migrator.callStatic.migrate(migrateParams(FeeAmount.LOW))
+      await expect(migrator.migrate(migrateParams(FeeAmount.LOW)))
+        .to.emit(migrator, 'Migrated')
+        .withArgs(1, 2, FeeAmount.LOW, liquidity, refund0, refund1)
+
+      await expect(nft.positions(1)).to.be.revertedWith('Invalid token ID')
+      const position = await nft.positions(2)
+      expect(position.fee).to.be.eq(FeeAmount.LOW)
+      expect([position.tickLower, position.tickUpper]).to.deep.eq([tickLower, tickUpper])
+      expect(position.liquidity).to.be.eq(liquidity)
+      // the withdrawn amounts are rounded down, so the liquidity is at most the liquidity of the burned position
+      expect(liquidity).to.be.lte(liquidityBefore)
+      expect(liquidity.mul(1000)).to.be.gte(liquidityBefore.mul(999))
+
+      const poolAddress = await factory.getPool(tokens[0].address, tokens[1].address, FeeAmount.LOW)
+      expect(await tokens[0].balanceOf(poolAddress)).to.be.eq(9999)
+      expect(await tokens[1].balanceOf(poolAddress)).to.be.eq(9999)
+    })
+
+    it('snaps the range to the tick spacing of the fee tier', async () => {
+      await initializePool(FeeAmount.HIGH, encodePriceSqrt(1, 1))
+
+      const { refund0, refund1 } = await migrator.callStatic.migrate(migrateParams(FeeAmount.HIGH))
+      await migrator.migrate(migrateParams(FeeAmount.HIGH))
+
+      const position = await nft.positions(2)
+      expect([position.tickLower, position.tickUpper]).to.deep.eq([-600, 600])
+      // the range is symmetric around the price, so the amounts fit in the narrower range
+      expect(refund0).to.be.lte(1)
+      expect(refund1).to.be.lte(1)
+    })
+
+    it('double the price', async () => {
+      await initializePool(FeeAmount.LOW, encodePriceSqrt(2, 1))
+
+      const token0BalanceBefore = await tokens[0].balanceOf(wallet.address)
+      const token1BalanceBefore = await tokens[1].balanceOf(wallet.address)
+
+      const { refund0, refund1 } = await migrator.callStatic.migrate(migrateParams(FeeAmount.LOW))
+      await migrator.migrate(migrateParams(FeeAmount.LOW))
+
+      // the price is above the range, so only token1 is added to the position
+      expect(refund0).to.be.eq(9999)
+      expect(refund1).to.be.eq(0)
+      expect((await tokens[0].balanceOf(wallet.address)).sub(token0BalanceBefore)).to.be.eq(9999)
+      expect((await tokens[1].balanceOf(wallet.address)).sub(token1BalanceBefore)).to.be.eq(0)
+
+      const poolAddress = await factory.getPool(tokens[0].address, tokens[1].address, FeeAmount.LOW)
+      expect(await tokens[0].balanceOf(poolAddress)).to.be.eq(0)
+      expect(await tokens[1].balanceOf(poolAddress)).to.be.eq(9999)
+    })
+
+    it('sends the new position and the leftovers to the recipient', async () => {
+      await initializePool(FeeAmount.LOW, encodePriceSqrt(2, 1))
+
+      await migrator.migrate({ ...migrateParams(FeeAmount.LOW), recipient: other.address })
+
+      expect(await nft.ownerOf(2)).to.be.eq(other.address)
+      expect(await tokens[0].balanceOf(other.address)).to.be.eq(9999)
+    })
+
+    it('fails if the amounts are less than the minimum', async () => {
+      await initializePool(FeeAmount.LOW, encodePriceSqrt(2, 1))
+
+      await expect(migrator.migrate(migrateParams(FeeAmount.LOW, 1, 0))).to.be.revertedWith('Price slippage check')
+    })
+
+    it('fails for the same fee', async () => {
+      await expect(migrator.migrate(migrateParams(FeeAmount.MEDIUM))).to.be.revertedWith('Same fee')
+    })
+
+    it('fails for a fee that is not enabled', async () => {
+      await expect(migrator.migrate(migrateParams(1234))).to.be.revertedWith('Invalid fee')
+    })
+
+    it('fails if the caller is not approved', async () => {
+      await initializePool(FeeAmount.LOW, encodePriceSqrt(1, 1))
+
+      await expect(migrator.connect(other).migrate(migrateParams(FeeAmount.LOW))).to.be.revertedWith('Not approved')
+    })
+
+    it('can be called by the account approved for the position', async () => {
+      await initializePool(FeeAmount.LOW, encodePriceSqrt(1, 1))
+      await nft.approve(other.address, 1)
+
+      await expect(migrator.connect(other).migrate(migrateParams(FeeAmount.LOW))).to.emit(migrator, 'Migrated')
+    })
+
+    it('fails if the migrator is not approved for the position', async () => {
+      await initializePool(FeeAmount.LOW, encodePriceSqrt(1, 1))
+      await nft.setApprovalForAll(migrator.address, false)
+
+      await expect(migrator.migrate(migrateParams(FeeAmount.LOW))).to.be.revertedWith('Not approved')
+    })
+
+    it('initializes the pool, approves and migrates in a multicall', async () => {
+      await nft.setApprovalForAll(migrator.address, false)
+      const { v, r, s } = await getPermitNFTSignature(wallet, nft, migrator.address, 1, 1)
+
+      await expect(
+        migrator.multicall([
+          migrator.interface.encodeFunctionData('createAndInitializePoolIfNecessary', [
+            tokens[0].address,
+            tokens[1].address,
+            FeeAmount.LOW,
+            encodePriceSqrt(1, 1),
+          ]),
+          migrator.interface.encodeFunctionData('selfPermitPosition', [1, 1, v, r, s]),
+          migrator.interface.encodeFunctionData('migrate', [migrateParams(FeeAmount.LOW)]),
+        ])
+      ).to.emit(migrator, 'Migrated')
+    })
+
+    it('gas', async () => {
+      await initializePool(FeeAmount.LOW, encodePriceSqrt(1, 1))
+
+      await snapshotGasCost(migrator.migrate(migrateParams(FeeAmount.LOW)))
+    })
+  })
+
+  describe('#createAndInitializePoolIfNecessaryWithCardinality', () => {
+    it('grows the cardinality before migrating in a multicall', async () => {
+      await expect(
+        migrator.multicall([
+          migrator.interface.encodeFunctionData('createAndInitializePoolIfNecessaryWithCardinality', [
+            tokens[0].address,
+            tokens[1].address,
+            FeeAmount.LOW,
+            encodePriceSqrt(1, 1),
+            600,
+            12,
+          ]),
+          migrator.interface.encodeFunctionData('migrate', [
+            { tokenId: 1, fee: FeeAmount.LOW, amount0Min: 0, amount1Min: 0, recipient: wallet.address, deadline: 1 },
+          ]),
+        ])
+      ).to.emit(migrator, 'Migrated')
+
+      const pool = poolAtAddress(await factory.getPool(tokens[0].address, tokens[1].address, FeeAmount.LOW), wallet)
+      expect((await pool.slot0()).observationCardinalityNext).to.eq(51)
+    })
+  })
+})
@@ -1,9 +1,23 @@
+import { randomBytes } from 'crypto'
+import { BigNumber } from 'ethers'
 import { ethers } from 'hardhat'
 import { LiquidityAmountsTest } from '../typechain/LiquidityAmountsTest'
 import { encodePriceSqrt } from './shared/encodePriceSqrt'
+import { expandTo18Decimals } from './shared/expandTo18Decimals'
 import { expect } from './shared/expect'
 
+import {
+  getAmount0ForLiquidity,
+  getAmount1ForLiquidity,
+  getAmountsForLiquidity,
+  getLiquidityForAmount0,
+  getLiquidityForAmount1,
+  getLiquidityForAmounts,
+  getMaxLiquidityForAmounts,
+  getMintAmounts,
+} from './shared/liquidityAmounts'
 import snapshotGasCost from './shared/snapshotGasCost'
+import { MAX_SQRT_RATIO, MIN_SQRT_RATIO } from './shared/tickMath'
 
 describe('LiquidityAmounts', async () => {
   let liquidityFromAmounts: LiquidityAmountsTest
@@ -238,4 +252,129 @@ describe('LiquidityAmounts', async () => {
       )
     })
   })
+
+  describe('TS port', () => {
+    const randomUint = (maxBytes: number): BigNumber =>
+      BigNumber.from(`0x${randomBytes(Math.ceil(Math.random() * maxBytes)).toString('hex')}`)
+    const randomSqrtRatio = (): BigNumber => randomUint(20).mod(MAX_SQRT_RATIO.sub(MIN_SQRT_RATIO)).add(MIN_SQRT_RATIO)
+
+    // asserts that the port and the library either return the same values or both fail
+    async function expectSame<T>(port: () => T, library: () => Promise<T>) {
+      let expected: T
+      try {
+        expected = await library()
+      } catch (error) {
+        expect(port).to.throw()
+        return
+      }
+      expect(port()).to.deep.eq(expected)
+    }
+
+    it('tiny fuzzing', async () => {
+      for (let i = 0; i < 50; i++) {
+        const [sqrtRatioX96, sqrtRatioAX96, sqrtRatioBX96] = [randomSqrtRatio(), randomSqrtRatio(), randomSqrtRatio()]
+        const [amount0, amount1, liquidity] = [randomUint(32), randomUint(32), randomUint(16)]
+
+        await expectSame(
+          () => getLiquidityForAmount0(sqrtRatioAX96, sqrtRatioBX96, amount0),
+          () => liquidityFromAmounts.getLiquidityForAmount0(sqrtRatioAX96, sqrtRatioBX96, amount0)
+        )
+        await expectSame(
+          () => getLiquidityForAmount1(sqrtRatioAX96, sqrtRatioBX96, amount1),
+          () => liquidityFromAmounts.getLiquidityForAmount1(sqrtRatioAX96, sqrtRatioBX96, amount1)
+        )
+        await expectSame(
+          () => getLiquidityForAmounts(sqrtRatioX96, sqrtRatioAX96, sqrtRatioBX96, amount0, amount1),
+          () =>
+            liquidityFromAmounts.getLiquidityForAmounts(sqrtRatioX96, sqrtRatioAX96, sqrtRatioBX96, amount0, amount1)
+        )
+        await expectSame(
+          () => getAmount0ForLiquidity(sqrtRatioAX96, sqrtRatioBX96, liquidity),
+          () => liquidityFromAmounts.getAmount0ForLiquidity(sqrtRatioAX96, sqrtRatioBX96, liquidity)
+        )
+        await expectSame(
+          () => getAmount1ForLiquidity(sqrtRatioAX96, sqrtRatioBX96, liquidity),
+          () => liquidityFromAmounts.getAmount1ForLiquidity(sqrtRatioAX96, sqrtRatioBX96, liquidity)
+        )
+        await expectSame(
+          () => getAmountsForLiquidity(sqrtRatioX96, sqrtRatioAX96, sqrtRatioBX96, liquidity),
+          async () => {
+            const { amount0, amount1 } = await liquidityFromAmounts.getAmountsForLiquidity(
+              sqrtRatioX96,
+              sqrtRatioAX96,
+              sqrtRatioBX96,
+              liquidity
+            )
+            return { amount0, amount1 }
+          }
+        )
+      }
+    })
+
+    describe('#getMaxLiquidityForAmounts', () => {
+      it('mints more than getLiquidityForAmounts within the budget', () => {
+        // at very low prices the intermediate of getLiquidityForAmount0 loses most of its precision
+        const sqrtRatioAX96 = MIN_SQRT_RATIO.mul(100_000)
+        const sqrtRatioBX96 = sqrtRatioAX96.mul(2)
+        const budget0 = expandTo18Decimals(1)
+
+        const liquidity = getLiquidityForAmounts(sqrtRatioAX96, sqrtRatioAX96, sqrtRatioBX96, budget0, 0)
+        const { liquidity: maxLiquidity, amount0, amount1 } = getMaxLiquidityForAmounts(
+          sqrtRatioAX96,
+          sqrtRatioAX96,
+          sqrtRatioBX96,
+          budget0,
+          0
+        )
+        expect(maxLiquidity).to.be.gt(liquidity)
+        expect(amount0).to.be.lte(budget0)
+        expect(amount1).to.eq(0)
+      })
+
+      it('returns nothing for an empty budget', () => {
+        expect(
+          getMaxLiquidityForAmounts(encodePriceSqrt(1, 1), encodePriceSqrt(1, 2), encodePriceSqrt(2, 1), 0, 0)
+        ).to.deep.eq({
+          liquidity: BigNumber.from(0),
+          amount0: BigNumber.from(0),
+          amount1: BigNumber.from(0),
+        })
+      })
+
+      it('throws for an empty range', () => {
+        expect(() =>
+          getMaxLiquidityForAmounts(encodePriceSqrt(1, 1), encodePriceSqrt(1, 2), encodePriceSqrt(1, 2), 100, 100)
+        ).to.throw('sqrt ratios must differ')
+      })
+
+      it('tiny fuzzing', () => {
+        for (let i = 0; i < 50; i++) {
+          const [sqrtRatioX96, sqrtRatioAX96, sqrtRatioBX96] = [randomSqrtRatio(), randomSqrtRatio(), randomSqrtRatio()]
+          const [budget0, budget1] = [randomUint(12), randomUint(12)]
+
+          const { liquidity, amount0, amount1 } = getMaxLiquidityForAmounts(
+            sqrtRatioX96,
+            sqrtRatioAX96,
+            sqrtRatioBX96,
+            budget0,
+            budget1
+          )
+          expect(amount0).to.be.lte(budget0)
+          expect(amount1).to.be.lte(budget1)
+          // the library reverts if the liquidity does not fit in a uint128
+          let liquidityForAmounts = BigNumber.from(0)
+          try {
+            liquidityForAmounts = getLiquidityForAmounts(sqrtRatioX96, sqrtRatioAX96, sqrtRatioBX96, budget0, budget1)
+          } catch (error) {}
+          expect(liquidity).to.be.gte(liquidityForAmounts)
+
+          // one more unit of liquidity exceeds the budget, unless the liquidity is capped at the max uint128
+          if (liquidity.lt(BigNumber.from(2).pow(128).sub(1))) {
+            const next = getMintAmounts(sqrtRatioX96, sqrtRatioAX96, sqrtRatioBX96, liquidity.add(1))
+            expect(next.amount0.gt(budget0) || next.amount1.gt(budget1)).to.be.true
+          }
+        }
+      })
+    })
+  })
 })
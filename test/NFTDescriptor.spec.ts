@@ -8,6 +8,7 @@ import { FeeAmount, TICK_SPACINGS } from './shared/constants'
 import snapshotGasCost from './shared/snapshotGasCost'
 import { formatSqrtRatioX96 } from './shared/formatSqrtRatioX96'
 import { getMaxTick, getMinTick } from './shared/ticks'
+import { getSqrtRatioAtTick } from './shared/tickMath'
 import { randomBytes } from 'crypto'
 import { extractJSONFromURI } from './shared/extractJSONFromURI'
 import fs from 'fs'
@@ -642,6 +643,55 @@ describe('NFTDescriptor', () => {
         }
       }).timeout(300_000)
     })
+
+    describe('matches formatSqrtRatioX96 at tick spacing boundaries', () => {
+      // the library squares the decimal adjusted sqrt price after dropping 64 bits, so its output is only exact for
+      // adjusted sqrt prices in [2^64, 2^160)
+      const isExactOnChain = (sqrtRatioX96: BigNumber, decimals0: number, decimals1: number): boolean => {
+        const adjustment = TEN.pow(Math.abs(decimals0 - decimals1) / 2)
+        const adjusted = decimals0 > decimals1 ? sqrtRatioX96.mul(adjustment) : sqrtRatioX96.div(adjustment)
+        return adjusted.gte(BigNumber.from(2).pow(64)) && adjusted.lt(BigNumber.from(2).pow(160))
+      }
+
+      for (const feeAmount of [FeeAmount.LOW, FeeAmount.MEDIUM, FeeAmount.HIGH]) {
+        const tickSpacing = TICK_SPACINGS[feeAmount]
+        const ticks = [0]
+        for (let tick = tickSpacing; tick < getMaxTick(tickSpacing); tick *= 2) ticks.push(tick, -tick)
+
+        for (const [decimals0, decimals1] of [
+          [18, 18],
+          [6, 18],
+          [18, 6],
+        ]) {
+          it(`tick spacing ${tickSpacing} with decimals ${decimals0}/${decimals1}`, async () => {
+            for (const tick of [getMinTick(tickSpacing), ...ticks, getMaxTick(tickSpacing)]) {
+              const sqrtRatioX96 = getSqrtRatioAtTick(tick)
+              if (!isExactOnChain(sqrtRatioX96, decimals0, decimals1)) continue
+              expect(formatSqrtRatioX96(sqrtRatioX96, decimals0, decimals1)).to.eq(
+                await nftDescriptor.fixedPointToDecimalString(sqrtRatioX96, decimals0, decimals1)
+              )
+            }
+          })
+        }
+
+        it(`tick spacing ${tickSpacing} inverted`, async () => {
+          for (const tick of ticks) {
+            if (!isExactOnChain(BigNumber.from(2).pow(192).div(getSqrtRatioAtTick(tick)), 18, 18)) continue
+            expect(formatSqrtRatioX96(getSqrtRatioAtTick(tick), 18, 18, { invert: true })).to.eq(
+              await nftDescriptor.tickToDecimalString(tick, tickSpacing, 18, 18, true)
+            )
+          }
+        })
+      }
+
+      it('is more precise for the smallest prices', async () => {
+        const sqrtRatioX96 = getSqrtRatioAtTick(getMinTick(TICK_SPACINGS[FeeAmount.LOW]))
+        expect(await nftDescriptor.fixedPointToDecimalString(sqrtRatioX96, 18, 18)).to.eq(
+          '0.0000000000000000000000000000000000000029387'
+        )
+        expect(formatSqrtRatioX96(sqrtRatioX96, 18, 18)).to.eq('0.0000000000000000000000000000000000000029395')
+      })
+    })
   })
 
   describe('#feeToPercentString', () => {
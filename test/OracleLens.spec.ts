@@ -0,0 +1,175 @@
+import { BigNumber } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import { MockObservable, OracleLens, OracleTest } from '../typechain'
+import { expandTo18Decimals } from './shared/expandTo18Decimals'
+import { expect } from './shared/expect'
+import { getWindowPrices, RISK_WINDOWS, toWindowPrice } from './shared/oracleLens'
+import revertChainAfter from './shared/revertChainAfter'
+import snapshotGasCost from './shared/snapshotGasCost'
+import { MAX_TICK, MIN_TICK } from './shared/tickMath'
+import { tickToPrice } from './shared/tickPrice'
+
+describe('OracleLens', () => {
+  revertChainAfter()
+
+  let loadFixture: ReturnType<typeof waffle.createFixtureLoader>
+  let oracleLens: OracleLens
+  let oracleTest: OracleTest
+
+  const oracleLensFixture = async () => {
+    const oracleLens = (await (await ethers.getContractFactory('OracleLens')).deploy()) as OracleLens
+    const oracleTest = (await (await ethers.getContractFactory('OracleTest')).deploy()) as OracleTest
+    return { oracleLens, oracleTest }
+  }
+
+  before('create fixture loader', async () => {
+    loadFixture = waffle.createFixtureLoader(await (ethers as any).getSigners())
+  })
+
+  beforeEach('deploy fixture', async () => {
+    ;({ oracleLens, oracleTest } = await loadFixture(oracleLensFixture))
+  })
+
+  // the price quadrupled half an hour ago, from tick 0 to tick 13864
+  const TICK = 13864
+  const MOVED_SECONDS_AGO = 1800
+  const LIQUIDITY = expandTo18Decimals(1)
+
+  // deploys a pool with the price history that observes the start of each sub-interval of the windows
+  async function deployPool(windows: number[], intervals: number): Promise<MockObservable> {
+    const secondsAgos = [0]
+    for (const window of windows) {
+      for (let j = 0; j < intervals; j++) secondsAgos.push(window - (j * window) / intervals)
+    }
+
+    // the cumulatives are 0 for now, and are observed back from now
+    const tickCumulatives = secondsAgos.map((secondsAgo) => -TICK * Math.min(secondsAgo, MOVED_SECONDS_AGO))
+    const secondsPerLiqCumulatives = secondsAgos.map((secondsAgo) =>
+      BigNumber.from(2).pow(150).sub(BigNumber.from(2).pow(128).mul(secondsAgo).div(LIQUIDITY))
+    )
+
+    return (await (await ethers.getContractFactory('MockObservable')).deploy(
+      secondsAgos,
+      tickCumulatives,
+      secondsPerLiqCumulatives
+    )) as MockObservable
+  }
+
+  describe('#observeWindows', () => {
+    it('returns the means and the tick variance of each window', async () => {
+      const pool = await deployPool(RISK_WINDOWS, 12)
+
+      const observations = await oracleLens.observeWindows(pool.address, RISK_WINDOWS, 12)
+
+      expect(observations.map(({ secondsAgo }) => secondsAgo)).to.deep.eq(RISK_WINDOWS)
+      expect(observations.map(({ arithmeticMeanTick }) => arithmeticMeanTick)).to.deep.eq([
+        TICK,
+        TICK,
+        TICK / 2,
+        // rounded down from 13864 * 1800 / 86400
+        288,
+      ])
+      // the last sub-interval of the 24 hour window is at tick 3466 on average, and the others at tick 0
+      expect(observations.map(({ tickVariance }) => tickVariance.toNumber())).to.deep.eq([
+        0,
+        0,
+        (TICK / 2) ** 2,
+        Math.floor((11 * 3466 ** 2) / 144),
+      ])
+    })
+
+    it('returns the same windows as OracleLibrary', async () => {
+      const pool = await deployPool(RISK_WINDOWS, 12)
+
+      const observations = await oracleLens.observeWindows(pool.address, RISK_WINDOWS, 12)
+      const windowData = await oracleTest.consultWindows(pool.address, RISK_WINDOWS, 12)
+
+      for (let i = 0; i < RISK_WINDOWS.length; i++) {
+        expect(observations[i].arithmeticMeanTick).to.eq(windowData[i].arithmeticMeanTick)
+        expect(observations[i].harmonicMeanLiquidity).to.eq(windowData[i].harmonicMeanLiquidity)
+        expect(observations[i].tickVariance).to.eq(windowData[i].tickVariance)
+      }
+    })
+
+    it('returns the harmonic mean liquidity that consult returns', async () => {
+      const pool = await deployPool([3600], 2)
+
+      const [{ harmonicMeanLiquidity }] = await oracleLens.observeWindows(pool.address, [3600], 2)
+
+      expect(harmonicMeanLiquidity).to.eq((await oracleTest.consult(pool.address, 3600)).harmonicMeanLiquidity)
+      expect(harmonicMeanLiquidity).to.be.gt(LIQUIDITY.mul(999).div(1000)).and.to.be.lte(LIQUIDITY)
+    })
+
+    it('fails if the intervals do not divide a window', async () => {
+      const pool = await deployPool([3600], 12)
+      await expect(oracleLens.observeWindows(pool.address, [3600, 100], 12)).to.be.revertedWith('BI')
+    })
+
+    it('gas', async () => {
+      const pool = await deployPool(RISK_WINDOWS, 12)
+      await snapshotGasCost(oracleLens.estimateGas.observeWindows(pool.address, RISK_WINDOWS, 12))
+    })
+  })
+
+  describe('#getWindowPrices', () => {
+    it('converts the mean ticks to prices', async () => {
+      const pool = await deployPool(RISK_WINDOWS, 12)
+
+      const prices = await getWindowPrices(oracleLens, pool.address)
+
+      expect(prices.map(({ secondsAgo }) => secondsAgo)).to.deep.eq(RISK_WINDOWS)
+      expect(prices[0].price).to.eq(tickToPrice(TICK))
+      expect(prices[0].price).to.eq('4.0001')
+      expect(prices[3].price).to.eq(tickToPrice(288))
+    })
+
+    it('returns the prices one standard deviation from the mean price', async () => {
+      const pool = await deployPool(RISK_WINDOWS, 12)
+
+      const [fiveMinutes, , oneHour] = await getWindowPrices(oracleLens, pool.address)
+
+      expect(fiveMinutes.tickStandardDeviation).to.eq(0)
+      expect(fiveMinutes.priceLower).to.eq(fiveMinutes.price)
+      expect(fiveMinutes.priceUpper).to.eq(fiveMinutes.price)
+      expect(fiveMinutes.volatility).to.eq(0)
+
+      // the price is 1 for half the sub-intervals and 4 for the others
+      expect(oneHour.tickStandardDeviation).to.eq(TICK / 2)
+      expect(oneHour.priceLower).to.eq('1.0000')
+      expect(oneHour.priceUpper).to.eq('4.0001')
+      // the log price moves by log(4) / 2
+      expect(oneHour.volatility).to.be.closeTo(Math.log(2), 0.0001)
+    })
+
+    it('accounts for the token decimals and inversion', async () => {
+      const pool = await deployPool([300], 12)
+
+      const [{ price, priceLower, priceUpper }] = await getWindowPrices(oracleLens, pool.address, [300], 12, {
+        decimalsToken0: 6,
+        decimalsToken1: 18,
+        invert: true,
+      })
+
+      // 4 units of token1 per unit of token0 is 4 * 10**-12 whole token1 per whole token0, so a whole token1 is worth
+      // 2.5 * 10**11 whole token0
+      expect(price).to.eq(tickToPrice(TICK, 6, 18, { invert: true }))
+      expect(price).to.eq('249990000000')
+      expect(priceLower).to.eq(price)
+      expect(priceUpper).to.eq(price)
+    })
+
+    it('bounds the prices one standard deviation from the mean price by the minimum and maximum tick', () => {
+      const window = {
+        secondsAgo: 300,
+        harmonicMeanLiquidity: BigNumber.from(1),
+        tickVariance: BigNumber.from(1000).pow(2),
+      }
+      for (const invert of [false, true]) {
+        const high = toWindowPrice({ ...window, arithmeticMeanTick: MAX_TICK - 10 }, { invert })
+        expect(invert ? high.priceLower : high.priceUpper).to.eq(tickToPrice(MAX_TICK, 18, 18, { invert }))
+        const low = toWindowPrice({ ...window, arithmeticMeanTick: MIN_TICK + 10 }, { invert })
+        expect(invert ? low.priceUpper : low.priceLower).to.eq(tickToPrice(MIN_TICK, 18, 18, { invert }))
+      }
+    })
+  })
+})
@@ -12,6 +12,32 @@ describe('OracleLibrary', () => {
 
   const BN0 = BigNumber.from(0)
 
+  let mockObservableFactory: ContractFactory
+
+  before('create mockObservableFactory', async () => {
+    mockObservableFactory = await ethers.getContractFactory('MockObservable')
+  })
+
+  // deploys a pool that observes the given tick and liquidity for each second of the period, the first one being
+  // `ticks.length` seconds ago. the liquidity is 1 by default
+  function observableWithTicks(ticks: number[], liquidities: BigNumberish[] = ticks.map(() => 1)) {
+    const secondsAgos: number[] = []
+    const tickCumulatives: BigNumber[] = []
+    const secondsPerLiqCumulatives: BigNumber[] = []
+    let tickCumulative = BN0
+    let secondsPerLiqCumulative = BN0
+    for (let i = 0; i <= ticks.length; i++) {
+      secondsAgos.push(ticks.length - i)
+      tickCumulatives.push(tickCumulative)
+      secondsPerLiqCumulatives.push(secondsPerLiqCumulative)
+      if (i < ticks.length) {
+        tickCumulative = tickCumulative.add(ticks[i])
+        secondsPerLiqCumulative = secondsPerLiqCumulative.add(BigNumber.from(2).pow(128).div(liquidities[i]))
+      }
+    }
+    return mockObservableFactory.deploy(secondsAgos, tickCumulatives, secondsPerLiqCumulatives)
+  }
+
   const oracleTestFixture = async () => {
     const tokenFactory = await ethers.getContractFactory('TestERC20')
     const tokens: [TestERC20, TestERC20, TestERC20] = [
@@ -42,12 +68,6 @@ describe('OracleLibrary', () => {
   })
 
   describe('#consult', () => {
-    let mockObservableFactory: ContractFactory
-
-    before('create mockObservableFactory', async () => {
-      mockObservableFactory = await ethers.getContractFactory('MockObservable')
-    })
-
     it('reverts when period is 0', async () => {
       await expect(oracle.consult(oracle.address, 0)).to.be.revertedWith('BP')
     })
@@ -126,6 +146,242 @@ describe('OracleLibrary', () => {
     }
   })
 
+  describe('#consultClamped', () => {
+    const period = 60
+
+    it('reverts when period is 0', async () => {
+      await expect(oracle.consultClamped(oracle.address, 0, 1, 0)).to.be.revertedWith('BP')
+    })
+
+    it('reverts when the intervals do not divide the period', async () => {
+      const mockObservable = await observableWithTicks(Array(period).fill(100))
+      await expect(oracle.consultClamped(mockObservable.address, period, 0, 10)).to.be.revertedWith('BI')
+      await expect(oracle.consultClamped(mockObservable.address, period, 7, 10)).to.be.revertedWith('BI')
+    })
+
+    it('equals the arithmetic mean tick for a constant tick', async () => {
+      const mockObservable = await observableWithTicks(Array(period).fill(100))
+
+      const { arithmeticMeanTick, clampedArithmeticMeanTick } = await oracle.consultClamped(
+        mockObservable.address,
+        period,
+        10,
+        0
+      )
+
+      expect(arithmeticMeanTick).to.equal(100)
+      expect(clampedArithmeticMeanTick).to.equal(100)
+      expect(arithmeticMeanTick).to.equal((await oracle.consult(mockObservable.address, period)).arithmeticMeanTick)
+    })
+
+    it('follows a price that moves by less than the max tick delta', async () => {
+      // moves up 1 tick per second, i.e. 6 ticks per sub-interval
+      const mockObservable = await observableWithTicks([...Array(period).keys()])
+
+      const { arithmeticMeanTick, clampedArithmeticMeanTick } = await oracle.consultClamped(
+        mockObservable.address,
+        period,
+        10,
+        6
+      )
+
+      // the mean of 0 to 59
+      expect(arithmeticMeanTick).to.equal(29)
+      expect(clampedArithmeticMeanTick).to.equal(29)
+    })
+
+    it('resists a one-block price spike', async () => {
+      // one block 30 seconds ago is 60000 ticks above the price of the rest of the period
+      const ticks = Array(period).fill(100)
+      ticks[30] = 60100
+      const mockObservable = await observableWithTicks(ticks)
+
+      const { arithmeticMeanTick, clampedArithmeticMeanTick } = await oracle.consultClamped(
+        mockObservable.address,
+        period,
+        10,
+        50
+      )
+
+      // the spike moves the mean tick by 60000 / 60 ticks
+      expect(arithmeticMeanTick).to.equal(1100)
+      // the sub-interval of the spike is clamped to 150, and the next one returns to 100
+      expect(clampedArithmeticMeanTick).to.equal(105)
+    })
+
+    for (const [position, second] of [
+      ['start', 0],
+      ['end', period - 1],
+    ] as const) {
+      it(`resists a one-block price spike at the ${position} of the period`, async () => {
+        const ticks = Array(period).fill(100)
+        ticks[second] = 60100
+        const mockObservable = await observableWithTicks(ticks)
+
+        const { arithmeticMeanTick, clampedArithmeticMeanTick } = await oracle.consultClamped(
+          mockObservable.address,
+          period,
+          10,
+          50
+        )
+
+        expect(arithmeticMeanTick).to.equal(1100)
+        // the median of the sub-intervals is 100, so the sub-interval of the spike is clamped to 150
+        expect(clampedArithmeticMeanTick).to.equal(105)
+      })
+
+      it(`resists a one-block price spike down at the ${position} of the period`, async () => {
+        const ticks = Array(period).fill(100)
+        ticks[second] = -59900
+        const mockObservable = await observableWithTicks(ticks)
+
+        const { arithmeticMeanTick, clampedArithmeticMeanTick } = await oracle.consultClamped(
+          mockObservable.address,
+          period,
+          10,
+          50
+        )
+
+        expect(arithmeticMeanTick).to.equal(-900)
+        expect(clampedArithmeticMeanTick).to.equal(95)
+      })
+    }
+
+    it('resists a one-block price spike down', async () => {
+      const ticks = Array(period).fill(100)
+      ticks[30] = -59900
+      const mockObservable = await observableWithTicks(ticks)
+
+      const { arithmeticMeanTick, clampedArithmeticMeanTick } = await oracle.consultClamped(
+        mockObservable.address,
+        period,
+        10,
+        50
+      )
+
+      expect(arithmeticMeanTick).to.equal(-900)
+      expect(clampedArithmeticMeanTick).to.equal(95)
+    })
+
+    it('lags a price that moves by more than the max tick delta', async () => {
+      // moves 600 ticks down at the start of the second half of the period
+      const ticks = Array(period).fill(100)
+      ticks.fill(-500, period / 2)
+      const mockObservable = await observableWithTicks(ticks)
+
+      const { arithmeticMeanTick, clampedArithmeticMeanTick } = await oracle.consultClamped(
+        mockObservable.address,
+        period,
+        10,
+        50
+      )
+
+      expect(arithmeticMeanTick).to.equal(-200)
+      // the clamped ticks of the second half are 50, 0, -50, -100 and -150
+      expect(clampedArithmeticMeanTick).to.equal(25)
+    })
+
+    it('correct rounding for negative ticks', async () => {
+      // the sub-intervals have mean ticks of -1 and -2 after rounding -0.5 and -1.5
+      const mockObservable = await observableWithTicks([0, -1, -1, -2])
+
+      const { arithmeticMeanTick, clampedArithmeticMeanTick } = await oracle.consultClamped(
+        mockObservable.address,
+        4,
+        2,
+        10
+      )
+
+      expect(arithmeticMeanTick).to.equal(-1)
+      expect(clampedArithmeticMeanTick).to.equal(-2)
+    })
+
+    it('gas test', async () => {
+      const mockObservable = await observableWithTicks(Array(period).fill(100))
+
+      await snapshotGasCost(oracle.getGasCostOfConsultClamped(mockObservable.address, period, 10, 50))
+    })
+  })
+
+  describe('#consultWindows', () => {
+    it('reverts when intervals is 0', async () => {
+      const mockObservable = await observableWithTicks(Array(60).fill(100))
+      await expect(oracle.consultWindows(mockObservable.address, [60], 0)).to.be.revertedWith('BI')
+    })
+
+    it('reverts when a window is 0', async () => {
+      const mockObservable = await observableWithTicks(Array(60).fill(100))
+      await expect(oracle.consultWindows(mockObservable.address, [60, 0], 2)).to.be.revertedWith('BP')
+    })
+
+    it('reverts when the intervals do not divide a window', async () => {
+      const mockObservable = await observableWithTicks(Array(60).fill(100))
+      await expect(oracle.consultWindows(mockObservable.address, [60, 45], 2)).to.be.revertedWith('BI')
+    })
+
+    it('returns no windows for no windows', async () => {
+      const mockObservable = await observableWithTicks(Array(60).fill(100))
+      expect(await oracle.consultWindows(mockObservable.address, [], 2)).to.be.empty
+    })
+
+    it('has no variance for a constant tick', async () => {
+      const mockObservable = await observableWithTicks(Array(60).fill(100))
+
+      const [long, short] = await oracle.consultWindows(mockObservable.address, [60, 30], 3)
+
+      expect(long.arithmeticMeanTick).to.equal(100)
+      expect(long.tickVariance).to.equal(0)
+      expect(short.arithmeticMeanTick).to.equal(100)
+      expect(short.tickVariance).to.equal(0)
+    })
+
+    it('returns the variance of the mean ticks of the sub-intervals', async () => {
+      // moves 300 ticks up half way through the period
+      const ticks = Array(60).fill(0)
+      ticks.fill(300, 30)
+      const mockObservable = await observableWithTicks(ticks)
+
+      const [long, short] = await oracle.consultWindows(mockObservable.address, [60, 30], 2)
+
+      // the sub-intervals of the long window have mean ticks of 0 and 300
+      expect(long.arithmeticMeanTick).to.equal(150)
+      expect(long.tickVariance).to.equal(150 ** 2)
+      expect(short.arithmeticMeanTick).to.equal(300)
+      expect(short.tickVariance).to.equal(0)
+    })
+
+    it('rounds the mean ticks of the sub-intervals to negative infinity', async () => {
+      // the sub-intervals have mean ticks of -1 and -2 after rounding -0.5 and -1.5, so the variance is 0.25
+      const mockObservable = await observableWithTicks([0, -1, -1, -2])
+
+      const [{ arithmeticMeanTick, tickVariance }] = await oracle.consultWindows(mockObservable.address, [4], 2)
+
+      expect(arithmeticMeanTick).to.equal(-1)
+      expect(tickVariance).to.equal(0)
+    })
+
+    it('returns the same means as consult for each window', async () => {
+      const ticks = [...Array(60).keys()].map((i) => ((i * 7919) % 2000) - 1000)
+      const liquidities = [...Array(60).keys()].map((i) => expandTo18Decimals(1 + (i % 5)))
+      const mockObservable = await observableWithTicks(ticks, liquidities)
+      const windows = [60, 30, 12, 6]
+
+      const windowData = await oracle.consultWindows(mockObservable.address, windows, 6)
+
+      for (let i = 0; i < windows.length; i++) {
+        const { arithmeticMeanTick, harmonicMeanLiquidity } = await oracle.consult(mockObservable.address, windows[i])
+        expect(windowData[i].arithmeticMeanTick).to.equal(arithmeticMeanTick)
+        expect(windowData[i].harmonicMeanLiquidity).to.equal(harmonicMeanLiquidity)
+      }
+    })
+
+    it('gas test', async () => {
+      const mockObservable = await observableWithTicks(Array(60).fill(100))
+
+      await snapshotGasCost(oracle.getGasCostOfConsultWindows(mockObservable.address, [60, 30, 12], 6))
+    })
+  })
+
   describe('#getQuoteAtTick', () => {
     // sanity check
     it('token0: returns correct value when tick = 0', async () => {
@@ -1,10 +1,11 @@
+import { randomBytes } from 'crypto'
 import { waffle, ethers } from 'hardhat'
 import { FeeAmount } from './shared/constants'
 
 import { expect } from './shared/expect'
 
 import { PathTest } from '../typechain'
-import { decodePath, encodePath } from './shared/path'
+import { decodePath, encodePath, getHops, numPools, parsePath, reversePath, toPath } from './shared/path'
 
 import snapshotGasCost from './shared/snapshotGasCost'
 
@@ -53,6 +54,89 @@ describe('Path', () => {
     expect(decodedFees).to.deep.eq(fees)
   })
 
+  it('js decoding works for paths with more than two pools', async () => {
+    const tokens = [...tokenAddresses, '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0']
+    const fees = [FeeAmount.LOW, FeeAmount.MEDIUM, FeeAmount.HIGH]
+    const [decodedTokens, decodedFees] = decodePath(encodePath(tokens, fees))
+    expect(decodedTokens).to.deep.eq(tokens)
+    expect(decodedFees).to.deep.eq(fees)
+  })
+
+  describe('validation', () => {
+    it('fails if the fee is not a FeeAmount', () => {
+      expect(() => encodePath(tokenAddresses.slice(0, 2), [100])).to.throw('invalid fee: 100')
+    })
+
+    it('fails if the path and fee lengths do not match', () => {
+      expect(() => encodePath(tokenAddresses, [FeeAmount.MEDIUM])).to.throw('path/fee lengths do not match')
+      expect(() => encodePath(tokenAddresses.slice(0, 1), [])).to.throw('path must contain at least one pool')
+    })
+
+    it('fails if an address has a bad checksum', () => {
+      const badChecksum = tokenAddresses[0].replace('F', 'f')
+      expect(() => encodePath([badChecksum, tokenAddresses[1]], [FeeAmount.MEDIUM])).to.throw(
+        `invalid token address: ${badChecksum}`
+      )
+    })
+
+    it('accepts lower case addresses and checksums them', () => {
+      const { tokens } = toPath(
+        tokenAddresses.map((address) => address.toLowerCase()),
+        fees
+      )
+      expect(tokens).to.deep.eq(tokenAddresses)
+    })
+
+    it('fails if the encoded path is too short', () => {
+      expect(() => decodePath('0x' + tokenAddresses[0].slice(2) + '000bb8')).to.throw('path must be at least 43 bytes')
+    })
+
+    it('fails if the encoded path has trailing bytes', () => {
+      expect(() => decodePath(encodePath(tokenAddresses, fees) + '00')).to.throw(
+        'path length must be 20 + 23 * n bytes'
+      )
+      expect(() => decodePath(encodePath(tokenAddresses, fees) + '000bb8')).to.throw(
+        'path length must be 20 + 23 * n bytes'
+      )
+    })
+
+    it('fails if the encoded path is not hex', () => {
+      expect(() => decodePath('0xzz')).to.throw('path is not a hex string')
+    })
+
+    it('fails if the encoded fee is not a FeeAmount', () => {
+      expect(() => decodePath(encodePath(tokenAddresses, fees).replace('000bb8', '000064'))).to.throw(
+        'invalid fee: 100'
+      )
+    })
+  })
+
+  describe('#getHops / #reversePath', () => {
+    it('returns every pool in order', () => {
+      expect(getHops(parsePath(encodePath(tokenAddresses, [FeeAmount.LOW, FeeAmount.HIGH])))).to.deep.eq([
+        { tokenIn: tokenAddresses[0], tokenOut: tokenAddresses[1], fee: FeeAmount.LOW },
+        { tokenIn: tokenAddresses[1], tokenOut: tokenAddresses[2], fee: FeeAmount.HIGH },
+      ])
+    })
+
+    it('reverses tokens and fees', () => {
+      const reversed = reversePath(toPath(tokenAddresses, [FeeAmount.LOW, FeeAmount.HIGH]))
+      expect(reversed).to.deep.eq({
+        tokens: tokenAddresses.slice().reverse(),
+        fees: [FeeAmount.HIGH, FeeAmount.LOW],
+      })
+      expect(encodePath(reversed.tokens, reversed.fees)).to.eq(
+        encodePath(tokenAddresses.slice().reverse(), [FeeAmount.HIGH, FeeAmount.LOW])
+      )
+    })
+
+    it('does not modify its input', () => {
+      const path = toPath(tokenAddresses, fees)
+      reversePath(path)
+      expect(path.tokens).to.deep.eq(tokenAddresses)
+    })
+  })
+
   describe('#hasMultiplePools / #decodeFirstPool / #skipToken / #getFirstPool', () => {
     const encodedPath = encodePath(tokenAddresses, fees)
 
@@ -82,6 +166,39 @@ describe('Path', () => {
     })
   })
 
+  it('tiny fuzzing', async () => {
+    const feeAmounts = [FeeAmount.LOW, FeeAmount.MEDIUM, FeeAmount.HIGH]
+    const paths = []
+    for (let i = 0; i < 20; i++) {
+      const poolCount = 1 + Math.floor(Math.random() * 4)
+      const tokens = new Array(poolCount + 1)
+        .fill(0)
+        .map(() => ethers.utils.getAddress(`0x${randomBytes(20).toString('hex')}`))
+      const fees = new Array(poolCount).fill(0).map(() => feeAmounts[Math.floor(Math.random() * feeAmounts.length)])
+      paths.push(toPath(tokens, fees))
+    }
+
+    for (const expected of paths) {
+      const encoded = encodePath(expected.tokens, expected.fees)
+      expect(parsePath(encoded)).to.deep.eq(expected)
+      expect(parsePath(encodePath(reversePath(expected).tokens, reversePath(expected).fees))).to.deep.eq(
+        reversePath(expected)
+      )
+
+      expect(numPools(encoded)).to.eq(expected.fees.length)
+      expect(await path.numPools(encoded)).to.eq(expected.fees.length)
+
+      // walk the path on chain the same way the router does
+      let remaining = encoded
+      for (const [i, hop] of getHops(expected).entries()) {
+        const { tokenA, tokenB, fee } = await path.decodeFirstPool(remaining)
+        expect({ tokenIn: tokenA, tokenOut: tokenB, fee }).to.deep.eq(hop)
+        expect(await path.hasMultiplePools(remaining)).to.eq(i < expected.fees.length - 1)
+        if (i < expected.fees.length - 1) remaining = await path.skipToken(remaining)
+      }
+    }
+  }).timeout(300_000)
+
   it('gas cost', async () => {
     await snapshotGasCost(
       path.getGasCostOfDecodeFirstPool(encodePath([tokenAddresses[0], tokenAddresses[1]], [FeeAmount.MEDIUM]))
@@ -0,0 +1,183 @@
+import { Fixture } from 'ethereum-waffle'
+import { constants, Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import {
+  IUniswapV3Factory,
+  MockTimeNonfungiblePositionManager,
+  PoolInitializerWithCardinalityTest,
+  TestERC20,
+} from '../typechain'
+import completeFixture from './shared/completeFixture'
+import { FeeAmount } from './shared/constants'
+import { encodePriceSqrt } from './shared/encodePriceSqrt'
+import { expect } from './shared/expect'
+import { estimateObservationCardinalityGas, getObservationCardinalityForWindow } from './shared/oracle'
+import poolAtAddress from './shared/poolAtAddress'
+import revertChainAfter from './shared/revertChainAfter'
+import snapshotGasCost from './shared/snapshotGasCost'
+
+describe('PoolInitializerWithCardinality', () => {
+  revertChainAfter()
+
+  let wallet: Wallet
+
+  const poolInitializerFixture: Fixture<{
+    factory: IUniswapV3Factory
+    tokens: [TestERC20, TestERC20, TestERC20]
+    nft: MockTimeNonfungiblePositionManager
+    poolInitializer: PoolInitializerWithCardinalityTest
+  }> = async (wallets, provider) => {
+    const { factory, tokens, nft, weth9 } = await completeFixture(wallets, provider)
+
+    for (const token of tokens) {
+      await token.approve(nft.address, constants.MaxUint256)
+    }
+
+    const poolInitializerFactory = await ethers.getContractFactory('PoolInitializerWithCardinalityTest')
+    const poolInitializer = (await poolInitializerFactory.deploy(
+      factory.address,
+      weth9.address
+    )) as PoolInitializerWithCardinalityTest
+
+    return {
+      factory,
+      tokens,
+      nft,
+      poolInitializer,
+    }
+  }
+
+  let factory: IUniswapV3Factory
+  let tokens: [TestERC20, TestERC20, TestERC20]
+  let nft: MockTimeNonfungiblePositionManager
+  let poolInitializer: PoolInitializerWithCardinalityTest
+
+  let loadFixture: ReturnType<typeof waffle.createFixtureLoader>
+
+  before('create fixture loader', async () => {
+    const wallets = await (ethers as any).getSigners()
+    ;[wallet] = wallets
+
+    loadFixture = waffle.createFixtureLoader(wallets)
+  })
+
+  beforeEach('load fixture', async () => {
+    ;({ factory, tokens, nft, poolInitializer } = await loadFixture(poolInitializerFixture))
+  })
+
+  describe('#createAndInitializePoolIfNecessaryWithCardinality', () => {
+    // a 10 minute window with 12 second blocks
+    const secondsAgo = 600
+    const blockTime = 12
+
+    async function createPool(fee: FeeAmount, secondsAgo: number, blockTime: number) {
+      return poolInitializer.createAndInitializePoolIfNecessaryWithCardinality(
+        tokens[0].address,
+        tokens[1].address,
+        fee,
+        encodePriceSqrt(1, 1),
+        secondsAgo,
+        blockTime
+      )
+    }
+
+    async function observationCardinalityNext(fee: FeeAmount) {
+      const pool = poolAtAddress(await factory.getPool(tokens[0].address, tokens[1].address, fee), wallet)
+      return (await pool.slot0()).observationCardinalityNext
+    }
+
+    it('creates and initializes the pool and grows its cardinality to cover the window', async () => {
+      const {
+        pool,
+        observationCardinalityNext: returned,
+      } = await poolInitializer.callStatic.createAndInitializePoolIfNecessaryWithCardinality(
+        tokens[0].address,
+        tokens[1].address,
+        FeeAmount.LOW,
+        encodePriceSqrt(1, 1),
+        secondsAgo,
+        blockTime
+      )
+      await createPool(FeeAmount.LOW, secondsAgo, blockTime)
+
+      expect(pool).to.eq(await factory.getPool(tokens[0].address, tokens[1].address, FeeAmount.LOW))
+      expect((await poolAtAddress(pool, wallet).slot0()).sqrtPriceX96).to.eq(encodePriceSqrt(1, 1))
+      expect(returned).to.eq(51)
+      expect(await observationCardinalityNext(FeeAmount.LOW)).to.eq(51)
+      expect(getObservationCardinalityForWindow(secondsAgo, blockTime)).to.eq(51)
+    })
+
+    it('rounds up to a whole block', async () => {
+      await createPool(FeeAmount.LOW, secondsAgo + 1, blockTime)
+      expect(await observationCardinalityNext(FeeAmount.LOW)).to.eq(52)
+      expect(getObservationCardinalityForWindow(secondsAgo + 1, blockTime)).to.eq(52)
+    })
+
+    it('initializes a pool that is created but not initialized', async () => {
+      await factory.createPool(tokens[0].address, tokens[1].address, FeeAmount.MEDIUM)
+
+      await createPool(FeeAmount.MEDIUM, secondsAgo, blockTime)
+
+      const pool = poolAtAddress(await factory.getPool(tokens[0].address, tokens[1].address, FeeAmount.MEDIUM), wallet)
+      expect((await pool.slot0()).sqrtPriceX96).to.eq(encodePriceSqrt(1, 1))
+      expect(await observationCardinalityNext(FeeAmount.MEDIUM)).to.eq(51)
+    })
+
+    it('grows the cardinality of an existing pool without changing its price', async () => {
+      await nft.createAndInitializePoolIfNecessary(
+        tokens[0].address,
+        tokens[1].address,
+        FeeAmount.MEDIUM,
+        encodePriceSqrt(2, 1)
+      )
+
+      await createPool(FeeAmount.MEDIUM, secondsAgo, blockTime)
+
+      const pool = poolAtAddress(await factory.getPool(tokens[0].address, tokens[1].address, FeeAmount.MEDIUM), wallet)
+      expect((await pool.slot0()).sqrtPriceX96).to.eq(encodePriceSqrt(2, 1))
+      expect(await observationCardinalityNext(FeeAmount.MEDIUM)).to.eq(51)
+    })
+
+    it('does not shrink the cardinality', async () => {
+      await createPool(FeeAmount.MEDIUM, secondsAgo * 2, blockTime)
+      await createPool(FeeAmount.MEDIUM, secondsAgo, blockTime)
+      expect(await observationCardinalityNext(FeeAmount.MEDIUM)).to.eq(101)
+    })
+
+    it('fails if the tokens are not sorted', async () => {
+      await expect(
+        poolInitializer.createAndInitializePoolIfNecessaryWithCardinality(
+          tokens[1].address,
+          tokens[0].address,
+          FeeAmount.MEDIUM,
+          encodePriceSqrt(1, 1),
+          secondsAgo,
+          blockTime
+        )
+      ).to.be.reverted
+    })
+
+    it('fails for a block time of 0', async () => {
+      await expect(createPool(FeeAmount.LOW, secondsAgo, 0)).to.be.revertedWith('Invalid block time')
+    })
+
+    it('fails if the window needs more observations than the pool can store', async () => {
+      await expect(createPool(FeeAmount.LOW, 65535, 1)).to.be.revertedWith('Window too long')
+    })
+
+    it('costs the estimated gas for growing the cardinality', async () => {
+      await createPool(FeeAmount.MEDIUM, 0, blockTime)
+
+      const withoutGrowth = await (await createPool(FeeAmount.MEDIUM, 0, blockTime)).wait()
+      const withGrowth = await (await createPool(FeeAmount.MEDIUM, secondsAgo, blockTime)).wait()
+
+      const estimate = estimateObservationCardinalityGas(1, 51)
+      const actual = withGrowth.gasUsed.sub(withoutGrowth.gasUsed).toNumber()
+      expect(actual).to.be.within(estimate * 0.99, estimate * 1.01)
+    })
+
+    it('gas', async () => {
+      await snapshotGasCost(createPool(FeeAmount.LOW, secondsAgo, blockTime))
+    })
+  })
+})
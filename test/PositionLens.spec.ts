@@ -0,0 +1,252 @@
+import { Fixture } from 'ethereum-waffle'
+import { constants, Contract, Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import {
+  MockTimeNonfungiblePositionManager,
+  PositionLensTest,
+  PositionValueTest,
+  SwapRouter,
+  TestERC20,
+} from '../typechain'
+import completeFixture from './shared/completeFixture'
+import { computePoolAddress } from './shared/computePoolAddress'
+import { FeeAmount, TICK_SPACINGS } from './shared/constants'
+import { encodePriceSqrt } from './shared/encodePriceSqrt'
+import { expandTo18Decimals } from './shared/expandTo18Decimals'
+import { expect } from './shared/expect'
+import { encodePath } from './shared/path'
+import { getAllPositionsOfOwner, getPositions, getPositionsOfOwner } from './shared/positionLens'
+import revertChainAfter from './shared/revertChainAfter'
+import snapshotGasCost from './shared/snapshotGasCost'
+import { getMaxTick, getMinTick } from './shared/ticks'
+
+describe('PositionLens', () => {
+  revertChainAfter()
+
+  let wallets: Wallet[]
+
+  const positionLensFixture: Fixture<{
+    factory: Contract
+    nft: MockTimeNonfungiblePositionManager
+    router: SwapRouter
+    tokens: [TestERC20, TestERC20, TestERC20]
+    positionLens: PositionLensTest
+    positionValue: PositionValueTest
+  }> = async (wallets, provider) => {
+    const { factory, tokens, nft, router } = await completeFixture(wallets, provider)
+
+    for (const token of tokens) {
+      await token.approve(nft.address, constants.MaxUint256)
+      await token.approve(router.address, constants.MaxUint256)
+    }
+
+    const positionLensFactory = await ethers.getContractFactory('PositionLensTest')
+    const positionLens = (await positionLensFactory.deploy()) as PositionLensTest
+    const positionValueFactory = await ethers.getContractFactory('PositionValueTest')
+    const positionValue = (await positionValueFactory.deploy()) as PositionValueTest
+
+    return {
+      factory,
+      nft,
+      router,
+      tokens,
+      positionLens,
+      positionValue,
+    }
+  }
+
+  let factory: Contract
+  let nft: MockTimeNonfungiblePositionManager
+  let router: SwapRouter
+  let tokens: [TestERC20, TestERC20, TestERC20]
+  let positionLens: PositionLensTest
+  let positionValue: PositionValueTest
+
+  let loadFixture: ReturnType<typeof waffle.createFixtureLoader>
+
+  before('create fixture loader', async () => {
+    wallets = await (ethers as any).getSigners()
+    loadFixture = waffle.createFixtureLoader(wallets)
+  })
+
+  // the ranges of token IDs 1, 2 and 3, which the price is within, above and below after the swaps
+  const ranges = [
+    [getMinTick(TICK_SPACINGS[FeeAmount.MEDIUM]), getMaxTick(TICK_SPACINGS[FeeAmount.MEDIUM])],
+    [getMinTick(TICK_SPACINGS[FeeAmount.MEDIUM]), -60],
+    [60, getMaxTick(TICK_SPACINGS[FeeAmount.MEDIUM])],
+  ]
+
+  beforeEach('load fixture', async () => {
+    ;({ factory, nft, router, tokens, positionLens, positionValue } = await loadFixture(positionLensFixture))
+
+    await nft.createAndInitializePoolIfNecessary(
+      tokens[0].address,
+      tokens[1].address,
+      FeeAmount.MEDIUM,
+      encodePriceSqrt(1, 1)
+    )
+    for (const [tickLower, tickUpper] of ranges) {
+      await nft.mint({
+        token0: tokens[0].address,
+        token1: tokens[1].address,
+        fee: FeeAmount.MEDIUM,
+        tickLower,
+        tickUpper,
+        recipient: wallets[0].address,
+        amount0Desired: expandTo18Decimals(1_000),
+        amount1Desired: expandTo18Decimals(1_000),
+        amount0Min: 0,
+        amount1Min: 0,
+        deadline: 1,
+      })
+    }
+
+    // accumulate fees in both tokens and leave the price slightly above 1
+    await router.exactInput({
+      recipient: wallets[0].address,
+      deadline: 1,
+      path: encodePath([tokens[0].address, tokens[1].address], [FeeAmount.MEDIUM]),
+      amountIn: expandTo18Decimals(1),
+      amountOutMinimum: 0,
+    })
+    await router.exactInput({
+      recipient: wallets[0].address,
+      deadline: 1,
+      path: encodePath([tokens[1].address, tokens[0].address], [FeeAmount.MEDIUM]),
+      amountIn: expandTo18Decimals(2),
+      amountOutMinimum: 0,
+    })
+  })
+
+  describe('#getPositions', () => {
+    it('returns the position fields, values and pool state', async () => {
+      const pool = await ethers.getContractAt(
+        'IUniswapV3Pool',
+        computePoolAddress(factory.address, [tokens[0].address, tokens[1].address], FeeAmount.MEDIUM)
+      )
+      const { sqrtPriceX96, tick } = await pool.slot0()
+
+      const positions = await getPositions(positionLens, nft.address, [1, 2, 3])
+      expect(positions).to.have.length(3)
+      for (const [i, details] of positions.entries()) {
+        const tokenId = i + 1
+        const position = await nft.positions(tokenId)
+        const principal = await positionValue.principal(nft.address, tokenId, sqrtPriceX96)
+        const fees = await positionValue.fees(nft.address, tokenId)
+
+        expect(details.tokenId).to.eq(tokenId)
+        expect(details.nonce).to.eq(position.nonce)
+        expect(details.operator).to.eq(position.operator)
+        expect(details.token0).to.eq(position.token0)
+        expect(details.token1).to.eq(position.token1)
+        expect(details.fee).to.eq(position.fee)
+        expect([details.tickLower, details.tickUpper]).to.deep.eq(ranges[i])
+        expect(details.liquidity).to.eq(position.liquidity)
+        expect(details.feeGrowthInside0LastX128).to.eq(position.feeGrowthInside0LastX128)
+        expect(details.feeGrowthInside1LastX128).to.eq(position.feeGrowthInside1LastX128)
+        expect(details.tokensOwed0).to.eq(position.tokensOwed0)
+        expect(details.tokensOwed1).to.eq(position.tokensOwed1)
+        expect(details.principal0).to.eq(principal.amount0)
+        expect(details.principal1).to.eq(principal.amount1)
+        expect(details.fees0).to.eq(fees.amount0)
+        expect(details.fees1).to.eq(fees.amount1)
+        expect(details.sqrtPriceX96).to.eq(sqrtPriceX96)
+        expect(details.tick).to.eq(tick)
+      }
+      expect(positions.map(({ inRange }) => inRange)).to.deep.eq([true, false, false])
+    })
+
+    it('accrues the fees of the in range position only', async () => {
+      const [inRange, below, above] = await getPositions(positionLens, nft.address, [1, 2, 3])
+      expect(inRange.fees0).to.be.gt(0)
+      expect(inRange.fees1).to.be.gt(0)
+      for (const { fees0, fees1 } of [below, above]) {
+        expect(fees0).to.eq(0)
+        expect(fees1).to.eq(0)
+      }
+    })
+
+    it('returns the positions in the order of the token IDs', async () => {
+      const positions = await getPositions(positionLens, nft.address, [3, 1, 3])
+      expect(positions.map(({ tokenId }) => tokenId.toNumber())).to.deep.eq([3, 1, 3])
+    })
+
+    it('returns an empty list for no token IDs', async () => {
+      expect(await getPositions(positionLens, nft.address, [])).to.deep.eq([])
+    })
+
+    it('reverts for a token ID that does not exist', async () => {
+      await expect(positionLens.getPositions(nft.address, [1, 4])).to.be.revertedWith('Invalid token ID')
+    })
+
+    it('gas', async () => {
+      await snapshotGasCost(positionLens.getGasCostOfGetPositions(nft.address, [1, 2, 3]))
+    })
+  })
+
+  describe('#getPositionsOfOwner', () => {
+    it('returns a page of the positions of the owner', async () => {
+      const first = await getPositionsOfOwner(positionLens, nft.address, wallets[0].address, 0, 2)
+      expect(first.balance).to.eq(3)
+      expect(first.positions.map(({ tokenId }) => tokenId.toNumber())).to.deep.eq([1, 2])
+
+      const second = await getPositionsOfOwner(positionLens, nft.address, wallets[0].address, 2, 2)
+      expect(second.balance).to.eq(3)
+      expect(second.positions.map(({ tokenId }) => tokenId.toNumber())).to.deep.eq([3])
+      expect(second.positions).to.deep.eq(await getPositions(positionLens, nft.address, [3]))
+    })
+
+    it('returns an empty page past the end', async () => {
+      const { positions, balance } = await getPositionsOfOwner(positionLens, nft.address, wallets[0].address, 3, 2)
+      expect(balance).to.eq(3)
+      expect(positions).to.deep.eq([])
+    })
+
+    it('returns an empty page for a limit of zero', async () => {
+      const { positions } = await getPositionsOfOwner(positionLens, nft.address, wallets[0].address, 0, 0)
+      expect(positions).to.deep.eq([])
+    })
+
+    it('follows transfers', async () => {
+      await nft.transferFrom(wallets[0].address, wallets[1].address, 2)
+      const { positions, balance } = await getPositionsOfOwner(positionLens, nft.address, wallets[1].address, 0, 10)
+      expect(balance).to.eq(1)
+      expect(positions.map(({ tokenId }) => tokenId.toNumber())).to.deep.eq([2])
+    })
+
+    it('does not overflow for a large limit', async () => {
+      const { positions } = await getPositionsOfOwner(
+        positionLens,
+        nft.address,
+        wallets[0].address,
+        1,
+        constants.MaxUint256
+      )
+      expect(positions.map(({ tokenId }) => tokenId.toNumber())).to.deep.eq([2, 3])
+    })
+
+    it('gas', async () => {
+      await snapshotGasCost(positionLens.getGasCostOfGetPositionsOfOwner(nft.address, wallets[0].address, 0, 3))
+    })
+  })
+
+  describe('getAllPositionsOfOwner', () => {
+    it('fetches every page', async () => {
+      for (const pageSize of [1, 2, 3, 50]) {
+        expect(await getAllPositionsOfOwner(positionLens, nft.address, wallets[0].address, pageSize)).to.deep.eq(
+          await getPositions(positionLens, nft.address, [1, 2, 3])
+        )
+      }
+    })
+
+    it('returns an empty list for an owner without positions', async () => {
+      expect(await getAllPositionsOfOwner(positionLens, nft.address, wallets[1].address)).to.deep.eq([])
+    })
+
+    it('throws for an invalid page size', async () => {
+      let error: Error | undefined
+      await getAllPositionsOfOwner(positionLens, nft.address, wallets[0].address, 0).catch((e) => (error = e))
+      expect(error?.message).to.eq('page size must be a positive integer')
+    })
+  })
+})
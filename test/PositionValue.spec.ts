@@ -8,6 +8,7 @@ import {
   IUniswapV3Pool,
   TestERC20,
   IUniswapV3Factory,
+  OracleTest,
 } from '../typechain'
 import { FeeAmount, MaxUint128, TICK_SPACINGS } from './shared/constants'
 import { getMaxTick, getMinTick } from './shared/ticks'
@@ -19,6 +20,7 @@ import completeFixture from './shared/completeFixture'
 import snapshotGasCost from './shared/snapshotGasCost'
 
 import { expect } from './shared/expect'
+import { fees, fetchPositionValueInputs, principal, total, valuePortfolio } from './shared/positionValue'
 
 import { abi as IUniswapV3PoolABI } from '@uniswap/v3-core/artifacts/contracts/interfaces/IUniswapV3Pool.sol/IUniswapV3Pool.json'
 
@@ -77,6 +79,127 @@ describe('PositionValue', async () => {
     pool = new ethers.Contract(poolAddress, IUniswapV3PoolABI, wallets[0])
   })
 
+  // asserts that the off-chain valuation reproduces PositionValue for the token ID
+  async function expectSameValuation(tokenId: BigNumberish, sqrtRatioX96: BigNumberish) {
+    const { position, poolFeeGrowth } = await fetchPositionValueInputs(nft, tokenId)
+    const [principalAmounts, feeAmounts, totalAmounts] = await Promise.all([
+      positionValue.principal(nft.address, tokenId, sqrtRatioX96),
+      positionValue.fees(nft.address, tokenId),
+      positionValue.total(nft.address, tokenId, sqrtRatioX96),
+    ])
+    expect(principal(position, sqrtRatioX96)).to.deep.eq({
+      amount0: principalAmounts.amount0,
+      amount1: principalAmounts.amount1,
+    })
+    expect(fees(position, poolFeeGrowth)).to.deep.eq({ amount0: feeAmounts.amount0, amount1: feeAmounts.amount1 })
+    expect(total(position, sqrtRatioX96, poolFeeGrowth)).to.deep.eq({
+      amount0: totalAmounts.amount0,
+      amount1: totalAmounts.amount1,
+    })
+  }
+
+  describe('#valuePortfolio', () => {
+    let oracle: OracleTest
+
+    beforeEach(async () => {
+      const oracleFactory = await ethers.getContractFactory('OracleTest')
+      oracle = (await oracleFactory.deploy()) as OracleTest
+
+      await nft.createAndInitializePoolIfNecessary(
+        tokens[1].address,
+        tokens[2].address,
+        FeeAmount.MEDIUM,
+        encodePriceSqrt(1, 1)
+      )
+
+      amountDesired = expandTo18Decimals(100_000)
+      for (const [token0, token1] of [
+        [tokens[0], tokens[1]],
+        [tokens[1], tokens[2]],
+      ]) {
+        await nft.mint({
+          token0: token0.address,
+          token1: token1.address,
+          tickLower: getMinTick(TICK_SPACINGS[FeeAmount.MEDIUM]),
+          tickUpper: getMaxTick(TICK_SPACINGS[FeeAmount.MEDIUM]),
+          fee: FeeAmount.MEDIUM,
+          recipient: wallets[0].address,
+          amount0Desired: amountDesired,
+          amount1Desired: amountDesired,
+          amount0Min: 0,
+          amount1Min: 0,
+          deadline: 10,
+        })
+      }
+
+      // move the price of both pools away from 1 and accumulate fees
+      await tokens[0].approve(router.address, constants.MaxUint256)
+      await tokens[2].approve(router.address, constants.MaxUint256)
+      await router.exactInput({
+        recipient: wallets[0].address,
+        deadline: 1,
+        path: encodePath([tokens[0].address, tokens[1].address], [FeeAmount.MEDIUM]),
+        amountIn: expandTo18Decimals(10_000),
+        amountOutMinimum: 0,
+      })
+      await router.exactInput({
+        recipient: wallets[0].address,
+        deadline: 1,
+        path: encodePath([tokens[2].address, tokens[1].address], [FeeAmount.MEDIUM]),
+        amountIn: expandTo18Decimals(5_000),
+        amountOutMinimum: 0,
+      })
+
+      await ethers.provider.send('evm_increaseTime', [3_600])
+      await ethers.provider.send('evm_mine', [])
+    })
+
+    it('values every position at its total in the numeraire', async () => {
+      const { positions, value } = await valuePortfolio({
+        nft,
+        factory,
+        owner: wallets[0].address,
+        numeraire: tokens[1].address,
+        secondsAgo: 1_800,
+      })
+
+      expect(positions.map(({ tokenId }) => tokenId.toNumber())).to.deep.eq([1, 2])
+      let expectedValue = constants.Zero
+      for (const [{ tokenId, amount0, amount1, value }, base] of [
+        [positions[0], tokens[0]],
+        [positions[1], tokens[2]],
+      ] as const) {
+        const { token0, token1, fee } = await nft.positions(tokenId)
+        const poolAddress = computePoolAddress(factory.address, [token0, token1], fee)
+        const { sqrtPriceX96 } = await (await ethers.getContractAt('IUniswapV3Pool', poolAddress)).slot0()
+        const totalAmounts = await positionValue.total(nft.address, tokenId, sqrtPriceX96)
+        expect(amount0).to.eq(totalAmounts.amount0)
+        expect(amount1).to.eq(totalAmounts.amount1)
+
+        const { arithmeticMeanTick } = await oracle.consult(poolAddress, 1_800)
+        const [baseAmount, quoteAmount] = base === tokens[0] ? [amount0, amount1] : [amount1, amount0]
+        const expected = (
+          await oracle.getQuoteAtTick(arithmeticMeanTick, baseAmount, base.address, tokens[1].address)
+        ).add(quoteAmount)
+        expect(value).to.eq(expected)
+        expectedValue = expectedValue.add(expected)
+      }
+      expect(value).to.eq(expectedValue)
+    })
+
+    it('throws if a token has no pool with the numeraire', async () => {
+      let error: Error | undefined
+      await valuePortfolio({
+        nft,
+        factory,
+        owner: wallets[0].address,
+        numeraire: tokens[2].address,
+        secondsAgo: 1_800,
+      }).catch((e) => (error = e))
+      expect(error?.message).to.eq(`no pool to price ${tokens[0].address} in ${tokens[2].address}`)
+    })
+  })
+
   describe('#total', () => {
     let tokenId: number
     let sqrtRatioX96: BigNumberish
@@ -132,6 +255,10 @@ describe('PositionValue', async () => {
       expect(total[1]).to.equal(principal[1].add(fees[1]))
     })
 
+    it('matches the off-chain valuation', async () => {
+      await expectSameValuation(1, sqrtRatioX96)
+    })
+
     it('gas', async () => {
       await snapshotGasCost(positionValue.totalGas(nft.address, 1, sqrtRatioX96))
     })
@@ -163,6 +290,7 @@ describe('PositionValue', async () => {
       const principal = await positionValue.principal(nft.address, 1, sqrtRatioX96)
       expect(principal.amount0).to.equal('99999999999999999999999')
       expect(principal.amount1).to.equal('99999999999999999999999')
+      await expectSameValuation(1, sqrtRatioX96)
     })
 
     it('returns the correct values when range is below current price', async () => {
@@ -183,6 +311,7 @@ describe('PositionValue', async () => {
       const principal = await positionValue.principal(nft.address, 1, sqrtRatioX96)
       expect(principal.amount0).to.equal('0')
       expect(principal.amount1).to.equal('99999999999999999999999')
+      await expectSameValuation(1, sqrtRatioX96)
     })
 
     it('returns the correct values when range is below current price', async () => {
@@ -203,6 +332,7 @@ describe('PositionValue', async () => {
       const principal = await positionValue.principal(nft.address, 1, sqrtRatioX96)
       expect(principal.amount0).to.equal('99999999999999999999999')
       expect(principal.amount1).to.equal('0')
+      await expectSameValuation(1, sqrtRatioX96)
     })
 
     it('returns the correct values when range is skewed above price', async () => {
@@ -223,6 +353,7 @@ describe('PositionValue', async () => {
       const principal = await positionValue.principal(nft.address, 1, sqrtRatioX96)
       expect(principal.amount0).to.equal('99999999999999999999999')
       expect(principal.amount1).to.equal('25917066770240321655335')
+      await expectSameValuation(1, sqrtRatioX96)
     })
 
     it('returns the correct values when range is skewed below price', async () => {
@@ -243,6 +374,7 @@ describe('PositionValue', async () => {
       const principal = await positionValue.principal(nft.address, 1, sqrtRatioX96)
       expect(principal.amount0).to.equal('25917066770240321655335')
       expect(principal.amount1).to.equal('99999999999999999999999')
+      await expectSameValuation(1, sqrtRatioX96)
     })
 
     it('gas', async () => {
@@ -336,6 +468,7 @@ describe('PositionValue', async () => {
 
         expect(feeAmounts[0]).to.equal(feesFromCollect[0])
         expect(feeAmounts[1]).to.equal(feesFromCollect[1])
+        await expectSameValuation(tokenId, (await pool.slot0()).sqrtPriceX96)
       })
 
       it('returns the correct amount of fees if tokensOwed fields are greater than 0', async () => {
@@ -369,6 +502,7 @@ describe('PositionValue', async () => {
         const feeAmounts = await positionValue.fees(nft.address, tokenId)
         expect(feeAmounts[0]).to.equal(feesFromCollect[0])
         expect(feeAmounts[1]).to.equal(feesFromCollect[1])
+        await expectSameValuation(tokenId, (await pool.slot0()).sqrtPriceX96)
       })
 
       it('gas', async () => {
@@ -425,6 +559,7 @@ describe('PositionValue', async () => {
         const feeAmounts = await positionValue.fees(nft.address, tokenId)
         expect(feeAmounts[0]).to.equal(feesFromCollect[0])
         expect(feeAmounts[1]).to.equal(feesFromCollect[1])
+        await expectSameValuation(tokenId, (await pool.slot0()).sqrtPriceX96)
       })
 
       it('gas', async () => {
@@ -480,6 +615,7 @@ describe('PositionValue', async () => {
         const feeAmounts = await positionValue.fees(nft.address, tokenId)
         expect(feeAmounts[0]).to.equal(feesFromCollect[0])
         expect(feeAmounts[1]).to.equal(feesFromCollect[1])
+        await expectSameValuation(tokenId, (await pool.slot0()).sqrtPriceX96)
       })
 
       it('gas', async () => {
@@ -0,0 +1,243 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import { MockObservablePool, MockPoolPriceOracle, OracleTest } from '../typechain'
+import { FeeAmount } from './shared/constants'
+import { expandTo18Decimals } from './shared/expandTo18Decimals'
+import { expect } from './shared/expect'
+import revertChainAfter from './shared/revertChainAfter'
+import snapshotGasCost from './shared/snapshotGasCost'
+
+describe('PriceOracle', () => {
+  revertChainAfter()
+
+  let loadFixture: ReturnType<typeof waffle.createFixtureLoader>
+  let oracle: MockPoolPriceOracle
+  let oracleTest: OracleTest
+
+  // the oracle never calls the tokens, only the pools
+  const [tokenA, tokenB, tokenC] = [
+    '0x0000000000000000000000000000000000000001',
+    '0x0000000000000000000000000000000000000002',
+    '0x0000000000000000000000000000000000000003',
+  ]
+
+  const PERIOD = 60
+  const BASE_AMOUNT = expandTo18Decimals(1)
+
+  const oracleFixture = async () => {
+    const oracle = (await (await ethers.getContractFactory('MockPoolPriceOracle')).deploy()) as MockPoolPriceOracle
+    const oracleTest = (await (await ethers.getContractFactory('OracleTest')).deploy()) as OracleTest
+    return { oracle, oracleTest }
+  }
+
+  before('create fixture loader', async () => {
+    loadFixture = waffle.createFixtureLoader(await (ethers as any).getSigners())
+  })
+
+  beforeEach('deploy fixture', async () => {
+    ;({ oracle, oracleTest } = await loadFixture(oracleFixture))
+  })
+
+  // the harmonic mean liquidity that OracleLibrary#consult computes for the pool
+  function harmonicMeanLiquidity(secondsAgo: number, liquidity: BigNumberish): BigNumber {
+    const secondsPerLiquidityDelta = BigNumber.from(2).pow(128).mul(secondsAgo).div(liquidity)
+    return BigNumber.from(2).pow(160).sub(1).mul(secondsAgo).div(secondsPerLiquidityDelta.shl(32))
+  }
+
+  // deploys a pool with the given mean tick and liquidity over the last `secondsAgo` seconds, which is the period that
+  // the oracle must consult it for
+  async function setPool(
+    tokenX: string,
+    tokenY: string,
+    fee: FeeAmount,
+    {
+      tick,
+      liquidity,
+      secondsAgo = PERIOD,
+      oldestObservationSecondsAgo = secondsAgo,
+      newestObservationSecondsAgo = 0,
+    }: {
+      tick: number
+      liquidity: BigNumberish
+      secondsAgo?: number
+      oldestObservationSecondsAgo?: number
+      newestObservationSecondsAgo?: number
+    }
+  ) {
+    const pool = (await (await ethers.getContractFactory('MockObservablePool')).deploy(
+      [secondsAgo, 0],
+      [0, tick * secondsAgo],
+      [0, BigNumber.from(2).pow(128).mul(secondsAgo).div(liquidity)],
+      oldestObservationSecondsAgo,
+      newestObservationSecondsAgo
+    )) as MockObservablePool
+    await oracle.setPool(tokenX, tokenY, fee, pool.address)
+  }
+
+  describe('#quote', () => {
+    it('quotes the price of a pool', async () => {
+      await setPool(tokenA, tokenB, FeeAmount.MEDIUM, { tick: 6932, liquidity: expandTo18Decimals(1) })
+
+      const result = await oracle.quote([tokenA, tokenB], [[FeeAmount.MEDIUM]], BASE_AMOUNT, PERIOD)
+
+      expect(result.arithmeticMeanTick).to.eq(6932)
+      expect(result.quoteAmount).to.eq(await oracleTest.getQuoteAtTick(6932, BASE_AMOUNT, tokenA, tokenB))
+      expect(result.quoteAmount).to.be.gt(BASE_AMOUNT.mul(2).sub(expandTo18Decimals(1).div(1000)))
+      expect(result.shortestPeriod).to.eq(PERIOD)
+      expect(result.staleness).to.eq(0)
+      expect(result.harmonicMeanLiquidity).to.eq(harmonicMeanLiquidity(PERIOD, expandTo18Decimals(1)))
+    })
+
+    it('quotes the inverse price for the reverse path', async () => {
+      await setPool(tokenA, tokenB, FeeAmount.MEDIUM, { tick: 6932, liquidity: expandTo18Decimals(1) })
+
+      const result = await oracle.quote([tokenB, tokenA], [[FeeAmount.MEDIUM]], BASE_AMOUNT, PERIOD)
+
+      expect(result.arithmeticMeanTick).to.eq(-6932)
+      expect(result.quoteAmount).to.eq(await oracleTest.getQuoteAtTick(6932, BASE_AMOUNT, tokenB, tokenA))
+      expect(result.quoteAmount).to.be.lt(BASE_AMOUNT.div(2).add(expandTo18Decimals(1).div(1000)))
+    })
+
+    it('weights the fee tiers by their harmonic mean liquidity', async () => {
+      await setPool(tokenA, tokenB, FeeAmount.LOW, { tick: 100, liquidity: expandTo18Decimals(1) })
+      await setPool(tokenA, tokenB, FeeAmount.MEDIUM, { tick: 200, liquidity: expandTo18Decimals(3) })
+
+      const result = await oracle.quote([tokenA, tokenB], [[FeeAmount.LOW, FeeAmount.MEDIUM]], BASE_AMOUNT, PERIOD)
+
+      const weightLow = harmonicMeanLiquidity(PERIOD, expandTo18Decimals(1))
+      const weightMedium = harmonicMeanLiquidity(PERIOD, expandTo18Decimals(3))
+      const expectedTick = weightLow.mul(100).add(weightMedium.mul(200)).div(weightLow.add(weightMedium))
+      expect(result.arithmeticMeanTick).to.eq(expectedTick)
+      expect(result.harmonicMeanLiquidity).to.eq(weightLow.add(weightMedium))
+    })
+
+    it('chains the prices of the hops', async () => {
+      await setPool(tokenA, tokenB, FeeAmount.MEDIUM, { tick: 1000, liquidity: expandTo18Decimals(2) })
+      await setPool(tokenB, tokenC, FeeAmount.LOW, { tick: 500, liquidity: expandTo18Decimals(1) })
+
+      const result = await oracle.quote(
+        [tokenA, tokenB, tokenC],
+        [[FeeAmount.MEDIUM], [FeeAmount.LOW]],
+        BASE_AMOUNT,
+        PERIOD
+      )
+
+      expect(result.arithmeticMeanTick).to.eq(1500)
+      expect(result.quoteAmount).to.eq(await oracleTest.getQuoteAtTick(1500, BASE_AMOUNT, tokenA, tokenC))
+      // the liquidity of the shallowest hop
+      expect(result.harmonicMeanLiquidity).to.eq(harmonicMeanLiquidity(PERIOD, expandTo18Decimals(1)))
+    })
+
+    it('chains the prices of the hops of the reverse path', async () => {
+      await setPool(tokenA, tokenB, FeeAmount.MEDIUM, { tick: 1000, liquidity: expandTo18Decimals(2) })
+      await setPool(tokenB, tokenC, FeeAmount.LOW, { tick: 500, liquidity: expandTo18Decimals(1) })
+
+      const result = await oracle.quote(
+        [tokenC, tokenB, tokenA],
+        [[FeeAmount.LOW], [FeeAmount.MEDIUM]],
+        BASE_AMOUNT,
+        PERIOD
+      )
+
+      expect(result.arithmeticMeanTick).to.eq(-1500)
+      expect(result.quoteAmount).to.eq(await oracleTest.getQuoteAtTick(1500, BASE_AMOUNT, tokenC, tokenA))
+    })
+
+    it('falls back to the oldest observation if the period exceeds the history of a pool', async () => {
+      await setPool(tokenA, tokenB, FeeAmount.MEDIUM, { tick: 1000, liquidity: expandTo18Decimals(1) })
+      await setPool(tokenB, tokenC, FeeAmount.MEDIUM, {
+        tick: 500,
+        liquidity: expandTo18Decimals(1),
+        secondsAgo: 30,
+      })
+
+      const result = await oracle.quote(
+        [tokenA, tokenB, tokenC],
+        [[FeeAmount.MEDIUM], [FeeAmount.MEDIUM]],
+        BASE_AMOUNT,
+        PERIOD
+      )
+
+      expect(result.arithmeticMeanTick).to.eq(1500)
+      expect(result.shortestPeriod).to.eq(30)
+    })
+
+    it('reports the staleness of the least recently written pool', async () => {
+      await setPool(tokenA, tokenB, FeeAmount.LOW, {
+        tick: 1000,
+        liquidity: expandTo18Decimals(1),
+        newestObservationSecondsAgo: 10,
+      })
+      await setPool(tokenA, tokenB, FeeAmount.MEDIUM, {
+        tick: 1000,
+        liquidity: expandTo18Decimals(1),
+        newestObservationSecondsAgo: 20,
+      })
+      await setPool(tokenB, tokenC, FeeAmount.MEDIUM, {
+        tick: 500,
+        liquidity: expandTo18Decimals(1),
+        newestObservationSecondsAgo: 5,
+      })
+
+      const result = await oracle.quote(
+        [tokenA, tokenB, tokenC],
+        [[FeeAmount.LOW, FeeAmount.MEDIUM], [FeeAmount.MEDIUM]],
+        BASE_AMOUNT,
+        PERIOD
+      )
+
+      expect(result.staleness).to.eq(20)
+    })
+
+    it('fails for an invalid path', async () => {
+      await expect(oracle.quote([tokenA], [], BASE_AMOUNT, PERIOD)).to.be.revertedWith('Invalid path')
+      await expect(oracle.quote([tokenA, tokenB], [], BASE_AMOUNT, PERIOD)).to.be.revertedWith('Invalid path')
+    })
+
+    it('fails for a period of 0', async () => {
+      await expect(oracle.quote([tokenA, tokenB], [[FeeAmount.MEDIUM]], BASE_AMOUNT, 0)).to.be.revertedWith(
+        'Invalid period'
+      )
+    })
+
+    it('fails for a hop without fee tiers', async () => {
+      await expect(oracle.quote([tokenA, tokenB], [[]], BASE_AMOUNT, PERIOD)).to.be.revertedWith('No pools')
+    })
+
+    it('fails if a pool has no history', async () => {
+      await setPool(tokenA, tokenB, FeeAmount.MEDIUM, {
+        tick: 1000,
+        liquidity: expandTo18Decimals(1),
+        oldestObservationSecondsAgo: 0,
+      })
+
+      await expect(oracle.quote([tokenA, tokenB], [[FeeAmount.MEDIUM]], BASE_AMOUNT, PERIOD)).to.be.revertedWith(
+        'No history'
+      )
+    })
+
+    it('fails if the chained tick is out of range', async () => {
+      await setPool(tokenA, tokenB, FeeAmount.MEDIUM, { tick: 500000, liquidity: expandTo18Decimals(1) })
+      await setPool(tokenB, tokenC, FeeAmount.MEDIUM, { tick: 500000, liquidity: expandTo18Decimals(1) })
+
+      await expect(
+        oracle.quote([tokenA, tokenB, tokenC], [[FeeAmount.MEDIUM], [FeeAmount.MEDIUM]], BASE_AMOUNT, PERIOD)
+      ).to.be.revertedWith('Tick out of range')
+    })
+
+    it('gas', async () => {
+      await setPool(tokenA, tokenB, FeeAmount.LOW, { tick: 1000, liquidity: expandTo18Decimals(1) })
+      await setPool(tokenA, tokenB, FeeAmount.MEDIUM, { tick: 1000, liquidity: expandTo18Decimals(1) })
+      await setPool(tokenB, tokenC, FeeAmount.MEDIUM, { tick: 500, liquidity: expandTo18Decimals(1) })
+
+      await snapshotGasCost(
+        oracle.estimateGas.quote(
+          [tokenA, tokenB, tokenC],
+          [[FeeAmount.LOW, FeeAmount.MEDIUM], [FeeAmount.MEDIUM]],
+          BASE_AMOUNT,
+          PERIOD
+        )
+      )
+    })
+  })
+})
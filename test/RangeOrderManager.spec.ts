@@ -0,0 +1,364 @@
+import { Fixture } from 'ethereum-waffle'
+import { BigNumberish, constants, Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import {
+  IUniswapV3Pool,
+  MockTimeNonfungiblePositionManager,
+  MockTimeSwapRouter,
+  RangeOrderManager,
+  TestERC20,
+} from '../typechain'
+import completeFixture from './shared/completeFixture'
+import { computePoolAddress } from './shared/computePoolAddress'
+import { FeeAmount, TICK_SPACINGS } from './shared/constants'
+import { encodePriceSqrt } from './shared/encodePriceSqrt'
+import { expandTo18Decimals } from './shared/expandTo18Decimals'
+import { expect } from './shared/expect'
+import { encodePath } from './shared/path'
+import { getRangeOrderAmountOut, getRangeOrderTicks, isRangeOrderFilled } from './shared/rangeOrders'
+import revertChainAfter from './shared/revertChainAfter'
+import snapshotGasCost from './shared/snapshotGasCost'
+import { tickToPrice } from './shared/tickPrice'
+import { getMaxTick, getMinTick } from './shared/ticks'
+
+describe('RangeOrderManager', () => {
+  revertChainAfter()
+
+  let wallets: Wallet[]
+  let wallet: Wallet
+  let keeper: Wallet
+
+  const rangeOrderFixture: Fixture<{
+    nft: MockTimeNonfungiblePositionManager
+    router: MockTimeSwapRouter
+    tokens: [TestERC20, TestERC20, TestERC20]
+    pool: IUniswapV3Pool
+    rangeOrders: RangeOrderManager
+  }> = async (wallets, provider) => {
+    const { factory, weth9, nft, router, tokens } = await completeFixture(wallets, provider)
+
+    const rangeOrders = (await (await ethers.getContractFactory('RangeOrderManager')).deploy(
+      factory.address,
+      weth9.address
+    )) as RangeOrderManager
+
+    for (const token of tokens) {
+      await token.approve(nft.address, constants.MaxUint256)
+      await token.approve(router.address, constants.MaxUint256)
+      await token.approve(rangeOrders.address, constants.MaxUint256)
+    }
+
+    await nft.createAndInitializePoolIfNecessary(
+      tokens[0].address,
+      tokens[1].address,
+      FeeAmount.MEDIUM,
+      encodePriceSqrt(1, 1)
+    )
+    await nft.mint({
+      token0: tokens[0].address,
+      token1: tokens[1].address,
+      fee: FeeAmount.MEDIUM,
+      tickLower: getMinTick(TICK_SPACINGS[FeeAmount.MEDIUM]),
+      tickUpper: getMaxTick(TICK_SPACINGS[FeeAmount.MEDIUM]),
+      recipient: wallets[0].address,
+      amount0Desired: expandTo18Decimals(1_000),
+      amount1Desired: expandTo18Decimals(1_000),
+      amount0Min: 0,
+      amount1Min: 0,
+      deadline: 1,
+    })
+
+    const pool = (await ethers.getContractAt(
+      'IUniswapV3Pool',
+      computePoolAddress(factory.address, [tokens[0].address, tokens[1].address], FeeAmount.MEDIUM)
+    )) as IUniswapV3Pool
+
+    return { nft, router, tokens, pool, rangeOrders }
+  }
+
+  let router: MockTimeSwapRouter
+  let tokens: [TestERC20, TestERC20, TestERC20]
+  let pool: IUniswapV3Pool
+  let rangeOrders: RangeOrderManager
+
+  let loadFixture: ReturnType<typeof waffle.createFixtureLoader>
+
+  before('create fixture loader', async () => {
+    wallets = await (ethers as any).getSigners()
+    ;[wallet, keeper] = wallets
+    loadFixture = waffle.createFixtureLoader(wallets)
+  })
+
+  beforeEach('load fixture', async () => {
+    ;({ router, tokens, pool, rangeOrders } = await loadFixture(rangeOrderFixture))
+  })
+
+  function placeOrder(tickLower: number, zeroForOne: boolean, amountIn: BigNumberish, deadline: BigNumberish = 1e10) {
+    return rangeOrders.placeOrder({
+      token0: tokens[0].address,
+      token1: tokens[1].address,
+      fee: FeeAmount.MEDIUM,
+      tickLower,
+      zeroForOne,
+      amountIn,
+      owner: wallet.address,
+      deadline,
+    })
+  }
+
+  // moves the price by selling the token for the other token of the pool
+  async function swap(zeroForOne: boolean, amountIn: BigNumberish) {
+    await router.exactInput({
+      recipient: wallet.address,
+      deadline: 1,
+      path: encodePath(zeroForOne ? [tokens[0].address, tokens[1].address] : [tokens[1].address, tokens[0].address], [
+        FeeAmount.MEDIUM,
+      ]),
+      amountIn,
+      amountOutMinimum: 0,
+    })
+  }
+
+  describe('#placeOrder', () => {
+    it('adds the liquidity and records the order', async () => {
+      const balanceBefore = await tokens[0].balanceOf(wallet.address)
+      const { liquidity, amountIn } = await rangeOrders.callStatic.placeOrder({
+        token0: tokens[0].address,
+        token1: tokens[1].address,
+        fee: FeeAmount.MEDIUM,
+        tickLower: 60,
+        zeroForOne: true,
+        amountIn: expandTo18Decimals(1),
+        owner: keeper.address,
+        deadline: 1e10,
+      })
+      await expect(
+        rangeOrders.placeOrder({
+          token0: tokens[0].address,
+          token1: tokens[1].address,
+          fee: FeeAmount.MEDIUM,
+          tickLower: 60,
+          zeroForOne: true,
+          amountIn: expandTo18Decimals(1),
+          owner: keeper.address,
+          deadline: 1e10,
+        })
+      )
+        .to.emit(rangeOrders, 'OrderPlaced')
+        .withArgs(1, keeper.address, pool.address, 60, 120, true, liquidity)
+
+      expect(amountIn).to.be.lte(expandTo18Decimals(1))
+      expect(await tokens[0].balanceOf(wallet.address)).to.eq(balanceBefore.sub(amountIn))
+
+      const order = await rangeOrders.orders(1)
+      expect(order.owner).to.eq(keeper.address)
+      expect(order.token0).to.eq(tokens[0].address)
+      expect(order.token1).to.eq(tokens[1].address)
+      expect(order.fee).to.eq(FeeAmount.MEDIUM)
+      expect(order.tickLower).to.eq(60)
+      expect(order.tickUpper).to.eq(120)
+      expect(order.zeroForOne).to.eq(true)
+      expect(order.liquidity).to.eq(liquidity)
+      expect(await rangeOrders.isFilled(1)).to.eq(false)
+    })
+
+    it('takes only token1 for an order selling token1', async () => {
+      const balance0Before = await tokens[0].balanceOf(wallet.address)
+      await placeOrder(-120, false, expandTo18Decimals(1))
+      expect(await tokens[0].balanceOf(wallet.address)).to.eq(balance0Before)
+      expect((await rangeOrders.orders(1)).tickUpper).to.eq(-60)
+    })
+
+    it('fails if the range is not entirely on the side of the token sold', async () => {
+      await expect(placeOrder(0, true, expandTo18Decimals(1))).to.be.revertedWith('Range not out of price')
+      await expect(placeOrder(0, false, expandTo18Decimals(1))).to.be.revertedWith('Range not out of price')
+    })
+
+    it('fails if the amount is too small', async () => {
+      await expect(placeOrder(60, true, 0)).to.be.reverted
+    })
+
+    it('fails for the zero owner', async () => {
+      await expect(
+        rangeOrders.placeOrder({
+          token0: tokens[0].address,
+          token1: tokens[1].address,
+          fee: FeeAmount.MEDIUM,
+          tickLower: 60,
+          zeroForOne: true,
+          amountIn: 1,
+          owner: constants.AddressZero,
+          deadline: 1e10,
+        })
+      ).to.be.revertedWith('Invalid owner')
+    })
+
+    it('fails after the deadline', async () => {
+      await expect(placeOrder(60, true, expandTo18Decimals(1), 0)).to.be.revertedWith('Transaction too old')
+    })
+
+    it('gas', async () => {
+      await snapshotGasCost(placeOrder(60, true, expandTo18Decimals(1)))
+    })
+  })
+
+  describe('#executeOrder', () => {
+    it('fails before the price has fully crossed the range', async () => {
+      await placeOrder(60, true, expandTo18Decimals(1))
+      await expect(rangeOrders.connect(keeper).executeOrder(1)).to.be.revertedWith('Not filled')
+
+      // inside the range the order is partially filled
+      await swap(false, expandTo18Decimals(4))
+      const { tick } = await pool.slot0()
+      expect(tick).to.be.gte(60)
+      expect(tick).to.be.lt(120)
+      expect(await rangeOrders.isFilled(1)).to.eq(false)
+      await expect(rangeOrders.connect(keeper).executeOrder(1)).to.be.revertedWith('Not filled')
+    })
+
+    it('fails for an order that does not exist', async () => {
+      await expect(rangeOrders.executeOrder(1)).to.be.revertedWith('Invalid order ID')
+    })
+
+    it('sends the proceeds of an order selling token0 to the owner', async () => {
+      const { amountIn } = await rangeOrders.callStatic.placeOrder({
+        token0: tokens[0].address,
+        token1: tokens[1].address,
+        fee: FeeAmount.MEDIUM,
+        tickLower: 60,
+        zeroForOne: true,
+        amountIn: expandTo18Decimals(1),
+        owner: wallet.address,
+        deadline: 1e10,
+      })
+      await placeOrder(60, true, expandTo18Decimals(1))
+      await swap(false, expandTo18Decimals(20))
+      expect(await rangeOrders.isFilled(1)).to.eq(true)
+
+      const balance0Before = await tokens[0].balanceOf(wallet.address)
+      const balance1Before = await tokens[1].balanceOf(wallet.address)
+      const { amount0, amount1 } = await rangeOrders.connect(keeper).callStatic.executeOrder(1)
+      await expect(rangeOrders.connect(keeper).executeOrder(1))
+        .to.emit(rangeOrders, 'OrderExecuted')
+        .withArgs(1, keeper.address, amount0, amount1)
+
+      // the swap only paid fees in token1
+      expect(amount0).to.eq(0)
+      expect(amount1).to.be.gt(getRangeOrderAmountOut({ tickLower: 60, tickUpper: 120 }, true, amountIn))
+      expect(await tokens[0].balanceOf(wallet.address)).to.eq(balance0Before)
+      expect(await tokens[1].balanceOf(wallet.address)).to.eq(balance1Before.add(amount1))
+
+      expect((await rangeOrders.orders(1)).owner).to.eq(constants.AddressZero)
+      await expect(rangeOrders.executeOrder(1)).to.be.revertedWith('Invalid order ID')
+    })
+
+    it('sends the proceeds of an order selling token1 to the owner', async () => {
+      await placeOrder(-120, false, expandTo18Decimals(1))
+      await swap(true, expandTo18Decimals(20))
+      expect(await rangeOrders.isFilled(1)).to.eq(true)
+
+      const { amount0, amount1 } = await rangeOrders.connect(keeper).callStatic.executeOrder(1)
+      await rangeOrders.connect(keeper).executeOrder(1)
+      expect(amount0).to.be.gt(expandTo18Decimals(1))
+      expect(amount1).to.eq(0)
+    })
+
+    it('splits the fees of orders in the same range by liquidity', async () => {
+      await placeOrder(60, true, expandTo18Decimals(1))
+      await placeOrder(60, true, expandTo18Decimals(3))
+      await swap(false, expandTo18Decimals(30))
+
+      const [first, second] = [await rangeOrders.orders(1), await rangeOrders.orders(2)]
+      const { amount1: amount1First } = await rangeOrders.callStatic.executeOrder(1)
+      await rangeOrders.executeOrder(1)
+      const { amount1: amount1Second } = await rangeOrders.callStatic.executeOrder(2)
+      await rangeOrders.executeOrder(2)
+
+      // the proceeds and fees are both proportional to the liquidity, up to rounding
+      expect(amount1Second.mul(first.liquidity).div(second.liquidity).sub(amount1First).abs()).to.be.lte(2)
+
+      // everything owed to the position of the orders has been collected
+      const position = await pool.positions(
+        ethers.utils.solidityKeccak256(['address', 'int24', 'int24'], [rangeOrders.address, 60, 120])
+      )
+      expect(position._liquidity).to.eq(0)
+      expect(position.tokensOwed0).to.eq(0)
+      expect(position.tokensOwed1).to.be.lte(2)
+    })
+
+    it('gas', async () => {
+      await placeOrder(60, true, expandTo18Decimals(1))
+      await swap(false, expandTo18Decimals(20))
+      await snapshotGasCost(rangeOrders.connect(keeper).executeOrder(1))
+    })
+  })
+
+  describe('#cancelOrder', () => {
+    it('returns the tokens of an unfilled order', async () => {
+      const balanceBefore = await tokens[0].balanceOf(keeper.address)
+      await placeOrder(60, true, expandTo18Decimals(1))
+      const { amount0, amount1 } = await rangeOrders.callStatic.cancelOrder(1, keeper.address)
+      await expect(rangeOrders.cancelOrder(1, keeper.address))
+        .to.emit(rangeOrders, 'OrderCancelled')
+        .withArgs(1, keeper.address, amount0, amount1)
+
+      // the pool rounds the amounts of burned liquidity down
+      expect(amount0).to.be.gte(expandTo18Decimals(1).sub(2))
+      expect(amount1).to.eq(0)
+      expect(await tokens[0].balanceOf(keeper.address)).to.eq(balanceBefore.add(amount0))
+    })
+
+    it('returns both tokens of a partially filled order', async () => {
+      await placeOrder(60, true, expandTo18Decimals(1))
+      await swap(false, expandTo18Decimals(4))
+      const { amount0, amount1 } = await rangeOrders.callStatic.cancelOrder(1, wallet.address)
+      expect(amount0).to.be.gt(0)
+      expect(amount1).to.be.gt(0)
+    })
+
+    it('fails if not called by the owner', async () => {
+      await placeOrder(60, true, expandTo18Decimals(1))
+      await expect(rangeOrders.connect(keeper).cancelOrder(1, keeper.address)).to.be.revertedWith('Not owner')
+    })
+  })
+
+  describe('getRangeOrderTicks', () => {
+    it('picks the range at or above the price for an order selling token0', () => {
+      expect(getRangeOrderTicks('1', true, FeeAmount.MEDIUM)).to.deep.eq({ tickLower: 0, tickUpper: 60 })
+      expect(getRangeOrderTicks('1.001', true, FeeAmount.MEDIUM)).to.deep.eq({ tickLower: 60, tickUpper: 120 })
+      expect(getRangeOrderTicks('0.999', true, FeeAmount.MEDIUM)).to.deep.eq({ tickLower: 0, tickUpper: 60 })
+      expect(getRangeOrderTicks('1.001', true, FeeAmount.LOW)).to.deep.eq({ tickLower: 10, tickUpper: 20 })
+    })
+
+    it('picks the range at or below the price for an order selling token1', () => {
+      expect(getRangeOrderTicks('1', false, FeeAmount.MEDIUM)).to.deep.eq({ tickLower: -60, tickUpper: 0 })
+      expect(getRangeOrderTicks('0.999', false, FeeAmount.MEDIUM)).to.deep.eq({ tickLower: -120, tickUpper: -60 })
+      expect(getRangeOrderTicks('1.001', false, FeeAmount.MEDIUM)).to.deep.eq({ tickLower: -60, tickUpper: 0 })
+    })
+
+    it('accounts for token decimals', () => {
+      // selling WETH as token1 for USDC as token0 at 2000 USDC per WETH or more
+      const { tickLower, tickUpper } = getRangeOrderTicks('0.0005', false, FeeAmount.MEDIUM, 6, 18)
+      expect(tickUpper).to.be.lte(200311)
+      expect(tickUpper).to.be.gt(200311 - 60)
+      expect(tickUpper - tickLower).to.eq(60)
+    })
+
+    it('throws for prices out of range', () => {
+      expect(() =>
+        getRangeOrderTicks(tickToPrice(887250, 18, 18, { significantFigures: 40 }), true, FeeAmount.HIGH)
+      ).to.throw('price out of range')
+    })
+
+    it('picks a range that fills only after the price has moved past the desired price', async () => {
+      const ticks = getRangeOrderTicks('1.005', true, FeeAmount.MEDIUM)
+      await placeOrder(ticks.tickLower, true, expandTo18Decimals(1))
+      for (const amountIn of [3, 3, 3, 3, 3, 3]) {
+        const { tick } = await pool.slot0()
+        expect(await rangeOrders.isFilled(1)).to.eq(isRangeOrderFilled(ticks, true, tick))
+        await swap(false, expandTo18Decimals(amountIn))
+      }
+      expect(await rangeOrders.isFilled(1)).to.eq(true)
+    })
+  })
+})
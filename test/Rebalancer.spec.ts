@@ -0,0 +1,245 @@
+import { Fixture } from 'ethereum-waffle'
+import { BigNumber, BigNumberish, constants, Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import { MockTimeNonfungiblePositionManager, Rebalancer, SwapRouter, TestERC20 } from '../typechain'
+import completeFixture from './shared/completeFixture'
+import { FeeAmount, TICK_SPACINGS } from './shared/constants'
+import { encodePriceSqrt } from './shared/encodePriceSqrt'
+import { expandTo18Decimals } from './shared/expandTo18Decimals'
+import { expect } from './shared/expect'
+import getPermitNFTSignature from './shared/getPermitNFTSignature'
+import { encodePath } from './shared/path'
+import revertChainAfter from './shared/revertChainAfter'
+import snapshotGasCost from './shared/snapshotGasCost'
+import { getMaxTick, getMinTick } from './shared/ticks'
+
+describe('Rebalancer', () => {
+  revertChainAfter()
+
+  let wallets: Wallet[]
+  let wallet: Wallet, other: Wallet
+
+  const rebalancerFixture: Fixture<{
+    nft: MockTimeNonfungiblePositionManager
+    router: SwapRouter
+    tokens: [TestERC20, TestERC20, TestERC20]
+    rebalancer: Rebalancer
+  }> = async (wallets, provider) => {
+    const { tokens, nft, router } = await completeFixture(wallets, provider)
+
+    for (const token of tokens) {
+      await token.approve(nft.address, constants.MaxUint256)
+      await token.approve(router.address, constants.MaxUint256)
+    }
+
+    const rebalancerFactory = await ethers.getContractFactory('Rebalancer')
+    const rebalancer = (await rebalancerFactory.deploy(nft.address, router.address)) as Rebalancer
+
+    return {
+      nft,
+      router,
+      tokens,
+      rebalancer,
+    }
+  }
+
+  let nft: MockTimeNonfungiblePositionManager
+  let router: SwapRouter
+  let tokens: [TestERC20, TestERC20, TestERC20]
+  let rebalancer: Rebalancer
+
+  let loadFixture: ReturnType<typeof waffle.createFixtureLoader>
+
+  before('create fixture loader', async () => {
+    wallets = await (ethers as any).getSigners()
+    ;[wallet, other] = wallets
+    loadFixture = waffle.createFixtureLoader(wallets)
+  })
+
+  // token ID 1 provides the depth of the pool, and token IDs 2, 3 and 4 are in range, below range and above range
+  const IN_RANGE = 2
+  const BELOW_RANGE = 3
+  const ABOVE_RANGE = 4
+
+  async function mint(tickLower: number, tickUpper: number, amount: BigNumber) {
+    await nft.mint({
+      token0: tokens[0].address,
+      token1: tokens[1].address,
+      fee: FeeAmount.MEDIUM,
+      tickLower,
+      tickUpper,
+      recipient: wallet.address,
+      amount0Desired: amount,
+      amount1Desired: amount,
+      amount0Min: 0,
+      amount1Min: 0,
+      deadline: 1,
+    })
+  }
+
+  beforeEach('load fixture', async () => {
+    ;({ nft, router, tokens, rebalancer } = await loadFixture(rebalancerFixture))
+
+    await nft.createAndInitializePoolIfNecessary(
+      tokens[0].address,
+      tokens[1].address,
+      FeeAmount.MEDIUM,
+      encodePriceSqrt(1, 1)
+    )
+    await mint(
+      getMinTick(TICK_SPACINGS[FeeAmount.MEDIUM]),
+      getMaxTick(TICK_SPACINGS[FeeAmount.MEDIUM]),
+      expandTo18Decimals(1_000_000)
+    )
+    await mint(-600, 600, expandTo18Decimals(10))
+    // the price is below the range, so the position only holds token0
+    await mint(600, 1200, expandTo18Decimals(10))
+    // the price is above the range, so the position only holds token1
+    await mint(-1200, -600, expandTo18Decimals(10))
+
+    // accumulate fees in both tokens
+    for (const [tokenIn, tokenOut] of [
+      [tokens[0], tokens[1]],
+      [tokens[1], tokens[0]],
+    ]) {
+      await router.exactInput({
+        recipient: wallet.address,
+        deadline: 1,
+        path: encodePath([tokenIn.address, tokenOut.address], [FeeAmount.MEDIUM]),
+        amountIn: expandTo18Decimals(1_000),
+        amountOutMinimum: 0,
+      })
+    }
+
+    await nft.setApprovalForAll(rebalancer.address, true)
+  })
+
+  function rebalanceParams(tokenId: number, tickLower: number, tickUpper: number, liquidityMin: BigNumberish = 0) {
+    return { tokenId, tickLower, tickUpper, liquidityMin, recipient: other.address, deadline: 1 }
+  }
+
+  // rebalances the position and checks the new position and the tokens that were sent back
+  async function rebalanceAndCheck(tokenId: number, tickLower: number, tickUpper: number) {
+    const params = rebalanceParams(tokenId, tickLower, tickUpper)
+    const { newTokenId, liquidity, amount0, amount1 } = await rebalancer.callStatic.rebalance(params)
+    const [balance0Before, balance1Before] = await Promise.all([
+      tokens[0].balanceOf(other.address),
+      tokens[1].balanceOf(other.address),
+    ])
+
+    await expect(rebalancer.rebalance(params))
+      .to.emit(rebalancer, 'Rebalanced')
+      .withArgs(tokenId, newTokenId, liquidity, amount0, amount1)
+
+    await expect(nft.positions(tokenId)).to.be.revertedWith('Invalid token ID')
+    expect(await nft.ownerOf(newTokenId)).to.eq(other.address)
+    const position = await nft.positions(newTokenId)
+    expect([position.tickLower, position.tickUpper]).to.deep.eq([tickLower, tickUpper])
+    expect(position.liquidity).to.eq(liquidity)
+
+    // nothing is left behind in the rebalancer
+    for (const token of [tokens[0], tokens[1]]) {
+      expect(await token.balanceOf(rebalancer.address)).to.eq(0)
+      expect(await token.allowance(rebalancer.address, nft.address)).to.eq(0)
+      expect(await token.allowance(rebalancer.address, router.address)).to.eq(0)
+    }
+
+    const refund0 = (await tokens[0].balanceOf(other.address)).sub(balance0Before)
+    const refund1 = (await tokens[1].balanceOf(other.address)).sub(balance1Before)
+    return { liquidity, amount0, amount1, refund0, refund1 }
+  }
+
+  describe('#rebalance', () => {
+    it('moves an in range position to a wider range', async () => {
+      const { amount0, amount1, refund0, refund1 } = await rebalanceAndCheck(IN_RANGE, -1200, 1200)
+      // the price is close to 1, so the dust is a small part of the value at that price
+      expect(refund0.add(refund1).mul(1000)).to.be.lt(amount0.add(amount1))
+    })
+
+    it('moves a position below range around the price', async () => {
+      const { amount0, amount1, refund0, refund1 } = await rebalanceAndCheck(BELOW_RANGE, -600, 600)
+      expect(amount0).to.be.gt(0)
+      expect(amount1).to.be.gt(0)
+      expect(refund0.add(refund1).mul(1000)).to.be.lt(amount0.add(amount1))
+    })
+
+    it('moves a position above range around the price', async () => {
+      const { amount0, amount1, refund0, refund1 } = await rebalanceAndCheck(ABOVE_RANGE, -600, 600)
+      expect(amount0).to.be.gt(0)
+      expect(amount1).to.be.gt(0)
+      expect(refund0.add(refund1).mul(1000)).to.be.lt(amount0.add(amount1))
+    })
+
+    it('swaps everything into token0 for a new range above the price', async () => {
+      const { amount0, amount1, refund1 } = await rebalanceAndCheck(ABOVE_RANGE, 600, 1200)
+      expect(amount0).to.be.gt(0)
+      expect(amount1).to.eq(0)
+      expect(refund1).to.eq(0)
+    })
+
+    it('swaps everything into token1 for a new range below the price', async () => {
+      const { amount0, amount1, refund0 } = await rebalanceAndCheck(IN_RANGE, -1200, -600)
+      expect(amount0).to.eq(0)
+      expect(amount1).to.be.gt(0)
+      expect(refund0).to.eq(0)
+    })
+
+    it('moves the fees of the position with its liquidity', async () => {
+      const { liquidity: liquidityWithFees } = await rebalancer.callStatic.rebalance(
+        rebalanceParams(IN_RANGE, -600, 600)
+      )
+      // the position is moved to the same range, so only the fees and the swap change its liquidity
+      expect(liquidityWithFees).to.be.gt((await nft.positions(IN_RANGE)).liquidity)
+    })
+
+    it('fails if the liquidity is less than the minimum', async () => {
+      const { liquidity } = await rebalancer.callStatic.rebalance(rebalanceParams(IN_RANGE, -1200, 1200))
+      await expect(rebalancer.rebalance(rebalanceParams(IN_RANGE, -1200, 1200, liquidity.add(1)))).to.be.revertedWith(
+        'Price slippage check'
+      )
+      await rebalancer.rebalance(rebalanceParams(IN_RANGE, -1200, 1200, liquidity))
+    })
+
+    it('fails if the caller is not approved', async () => {
+      await expect(rebalancer.connect(other).rebalance(rebalanceParams(IN_RANGE, -1200, 1200))).to.be.revertedWith(
+        'Not approved'
+      )
+    })
+
+    it('can be called by an operator of the owner', async () => {
+      await nft.setApprovalForAll(other.address, true)
+      await expect(rebalancer.connect(other).rebalance(rebalanceParams(IN_RANGE, -1200, 1200))).to.emit(
+        rebalancer,
+        'Rebalanced'
+      )
+    })
+
+    it('can be called by the account approved for the position', async () => {
+      await nft.approve(other.address, IN_RANGE)
+      await expect(rebalancer.connect(other).rebalance(rebalanceParams(IN_RANGE, -1200, 1200))).to.emit(
+        rebalancer,
+        'Rebalanced'
+      )
+    })
+
+    it('fails if the rebalancer is not approved for the position', async () => {
+      await nft.setApprovalForAll(rebalancer.address, false)
+      await expect(rebalancer.rebalance(rebalanceParams(IN_RANGE, -1200, 1200))).to.be.revertedWith('Not approved')
+    })
+
+    it('approves and rebalances in a multicall', async () => {
+      await nft.setApprovalForAll(rebalancer.address, false)
+      const { v, r, s } = await getPermitNFTSignature(wallet, nft, rebalancer.address, IN_RANGE, 1)
+      await expect(
+        rebalancer.multicall([
+          rebalancer.interface.encodeFunctionData('selfPermitPosition', [IN_RANGE, 1, v, r, s]),
+          rebalancer.interface.encodeFunctionData('rebalance', [rebalanceParams(IN_RANGE, -1200, 1200)]),
+        ])
+      ).to.emit(rebalancer, 'Rebalanced')
+    })
+
+    it('gas', async () => {
+      await snapshotGasCost(rebalancer.rebalance(rebalanceParams(IN_RANGE, -1200, 1200)))
+    })
+  })
+})
@@ -0,0 +1,275 @@
+import { Fixture } from 'ethereum-waffle'
+import { constants, Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import { IUniswapV3Factory, MockTimeNonfungiblePositionManager, QuoterV2, TestERC20, TickLens } from '../typechain'
+import completeFixture from './shared/completeFixture'
+import { FeeAmount, TICK_SPACINGS } from './shared/constants'
+import { encodePriceSqrt } from './shared/encodePriceSqrt'
+import { expect } from './shared/expect'
+import { encodePath } from './shared/path'
+import revertChainAfter from './shared/revertChainAfter'
+import { findRoutes } from './shared/routing'
+import { getMaxTick, getMinTick } from './shared/ticks'
+
+describe('Routing', function () {
+  revertChainAfter()
+
+  this.timeout(40000)
+  let wallet: Wallet
+
+  const routingFixture: Fixture<{
+    factory: IUniswapV3Factory
+    nft: MockTimeNonfungiblePositionManager
+    tokens: [TestERC20, TestERC20, TestERC20]
+    quoter: QuoterV2
+    tickLens: TickLens
+  }> = async (wallets, provider) => {
+    const { weth9, factory, tokens, nft } = await completeFixture(wallets, provider)
+
+    for (const token of tokens) {
+      await token.approve(nft.address, constants.MaxUint256)
+    }
+
+    const quoterFactory = await ethers.getContractFactory('QuoterV2')
+    const quoter = (await quoterFactory.deploy(factory.address, weth9.address)) as QuoterV2
+
+    const tickLensFactory = await ethers.getContractFactory('TickLens')
+    const tickLens = (await tickLensFactory.deploy()) as TickLens
+
+    return {
+      factory,
+      nft,
+      tokens,
+      quoter,
+      tickLens,
+    }
+  }
+
+  let factory: IUniswapV3Factory
+  let nft: MockTimeNonfungiblePositionManager
+  let tokens: [TestERC20, TestERC20, TestERC20]
+  let quoter: QuoterV2
+  let tickLens: TickLens
+
+  let loadFixture: ReturnType<typeof waffle.createFixtureLoader>
+
+  before('create fixture loader', async () => {
+    const wallets = await (ethers as any).getSigners()
+    ;[wallet] = wallets
+    loadFixture = waffle.createFixtureLoader(wallets)
+  })
+
+  beforeEach('load fixture', async () => {
+    ;({ factory, nft, tokens, quoter, tickLens } = await loadFixture(routingFixture))
+  })
+
+  async function createPool(
+    tokenAddressA: string,
+    tokenAddressB: string,
+    fee: FeeAmount,
+    amount: number,
+    tickLower = getMinTick(TICK_SPACINGS[fee]),
+    tickUpper = getMaxTick(TICK_SPACINGS[fee])
+  ) {
+    if (tokenAddressA.toLowerCase() > tokenAddressB.toLowerCase())
+      [tokenAddressA, tokenAddressB] = [tokenAddressB, tokenAddressA]
+
+    await nft.createAndInitializePoolIfNecessary(tokenAddressA, tokenAddressB, fee, encodePriceSqrt(1, 1))
+
+    if (amount == 0) return
+
+    await nft.mint({
+      token0: tokenAddressA,
+      token1: tokenAddressB,
+      fee,
+      tickLower,
+      tickUpper,
+      recipient: wallet.address,
+      amount0Desired: amount,
+      amount1Desired: amount,
+      amount0Min: 0,
+      amount1Min: 0,
+      deadline: 1,
+    })
+  }
+
+  describe('#findRoutes', () => {
+    beforeEach('create a shallow direct pool and deep pools through token 1', async () => {
+      await createPool(tokens[0].address, tokens[2].address, FeeAmount.LOW, 1000)
+      await createPool(tokens[0].address, tokens[1].address, FeeAmount.MEDIUM, 1000000)
+      await createPool(tokens[1].address, tokens[2].address, FeeAmount.MEDIUM, 1000000)
+    })
+
+    it('fails if tokenIn and tokenOut are the same', async () => {
+      const error = await findRoutes({
+        quoter,
+        tickLens,
+        factory: factory.address,
+        tokenIn: tokens[0].address,
+        tokenOut: tokens[0].address,
+        amountIn: 1000,
+      }).catch((error) => error)
+      expect(error.message).to.eq('tokenIn and tokenOut must differ')
+    })
+
+    it('only returns the direct route without intermediate tokens', async () => {
+      const routes = await findRoutes({
+        quoter,
+        tickLens,
+        factory: factory.address,
+        tokenIn: tokens[0].address,
+        tokenOut: tokens[2].address,
+        amountIn: 1000,
+      })
+
+      expect(routes.map(({ path }) => path)).to.deep.eq([
+        { tokens: [tokens[0].address, tokens[2].address], fees: [FeeAmount.LOW] },
+      ])
+    })
+
+    it('skips pools that do not exist', async () => {
+      const routes = await findRoutes({
+        quoter,
+        tickLens,
+        factory: factory.address,
+        tokenIn: tokens[0].address,
+        tokenOut: tokens[2].address,
+        amountIn: 1000,
+        intermediateTokens: [tokens[1].address],
+      })
+
+      expect(routes.map(({ path }) => path)).to.deep.eq([
+        {
+          tokens: [tokens[0].address, tokens[1].address, tokens[2].address],
+          fees: [FeeAmount.MEDIUM, FeeAmount.MEDIUM],
+        },
+        { tokens: [tokens[0].address, tokens[2].address], fees: [FeeAmount.LOW] },
+      ])
+    })
+
+    it('skips pools without liquidity', async () => {
+      await createPool(tokens[0].address, tokens[2].address, FeeAmount.HIGH, 0)
+
+      const routes = await findRoutes({
+        quoter,
+        tickLens,
+        factory: factory.address,
+        tokenIn: tokens[0].address,
+        tokenOut: tokens[2].address,
+        amountIn: 1000,
+      })
+
+      expect(routes.map(({ path }) => path.fees)).to.deep.eq([[FeeAmount.LOW]])
+    })
+
+    it('includes pools with initialized ticks near the current tick', async () => {
+      // the position is entirely above the current price, so the pool has no active liquidity
+      await createPool(tokens[2].address, tokens[0].address, FeeAmount.HIGH, 1000000, 200, 400)
+
+      const routes = await findRoutes({
+        quoter,
+        tickLens,
+        factory: factory.address,
+        tokenIn: tokens[2].address,
+        tokenOut: tokens[0].address,
+        amountIn: 1000,
+      })
+
+      expect(routes.map(({ path }) => path.fees)).to.deep.eq([[FeeAmount.HIGH], [FeeAmount.LOW]])
+    })
+
+    it('skips pools whose liquidity is only on the other side of the current price', async () => {
+      // the position is entirely above the current price, so a swap that lowers the price has no liquidity to swap
+      await createPool(tokens[2].address, tokens[0].address, FeeAmount.HIGH, 1000000, 200, 400)
+
+      const routes = await findRoutes({
+        quoter,
+        tickLens,
+        factory: factory.address,
+        tokenIn: tokens[0].address,
+        tokenOut: tokens[2].address,
+        amountIn: 1000,
+      })
+
+      expect(routes.map(({ path }) => path.fees)).to.deep.eq([[FeeAmount.LOW]])
+    })
+
+    it('fails if the quoter fails for another reason', async () => {
+      // there is no quoter at the address
+      const error = await findRoutes({
+        quoter: quoter.attach(wallet.address),
+        tickLens,
+        factory: factory.address,
+        tokenIn: tokens[0].address,
+        tokenOut: tokens[2].address,
+        amountIn: 1000,
+      }).catch((error) => error)
+      expect(error).to.be.instanceOf(Error)
+      expect(error.code).to.eq('CALL_EXCEPTION')
+    })
+
+    it('returns the same values as QuoterV2', async () => {
+      const routes = await findRoutes({
+        quoter,
+        tickLens,
+        factory: factory.address,
+        tokenIn: tokens[0].address,
+        tokenOut: tokens[2].address,
+        amountIn: 1000,
+        intermediateTokens: [tokens[1].address],
+      })
+
+      for (const route of routes) {
+        expect(route.encodedPath).to.eq(encodePath(route.path.tokens, route.path.fees))
+        const {
+          amountOut,
+          sqrtPriceX96AfterList,
+          initializedTicksCrossedList,
+          gasEstimate,
+        } = await quoter.callStatic.quoteExactInput(route.encodedPath, 1000)
+        expect(route.amountOut).to.eq(amountOut)
+        expect(route.sqrtPriceX96AfterList).to.deep.eq(sqrtPriceX96AfterList)
+        expect(route.initializedTicksCrossedList).to.deep.eq(initializedTicksCrossedList)
+        expect(route.gasEstimate).to.eq(gasEstimate)
+        expect(route.gasAdjustedAmountOut).to.eq(amountOut)
+      }
+    })
+
+    it('ranks routes by gas adjusted amount out', async () => {
+      const routes = await findRoutes({
+        quoter,
+        tickLens,
+        factory: factory.address,
+        tokenIn: tokens[0].address,
+        tokenOut: tokens[2].address,
+        amountIn: 1000,
+        intermediateTokens: [tokens[1].address],
+        gasPriceInTokenOut: 1,
+      })
+
+      // the direct route has the lower output, but costs less gas
+      expect(routes.map(({ path }) => path.fees)).to.deep.eq([[FeeAmount.LOW], [FeeAmount.MEDIUM, FeeAmount.MEDIUM]])
+      expect(routes[0].amountOut).to.be.lt(routes[1].amountOut)
+      for (const route of routes) {
+        expect(route.gasAdjustedAmountOut).to.eq(route.amountOut.sub(route.gasEstimate))
+      }
+    })
+
+    it('respects maxHops and maxRoutes', async () => {
+      const params = {
+        quoter,
+        tickLens,
+        factory: factory.address,
+        tokenIn: tokens[0].address,
+        tokenOut: tokens[2].address,
+        amountIn: 1000,
+        intermediateTokens: [tokens[1].address],
+      }
+
+      expect((await findRoutes({ ...params, maxHops: 1 })).map(({ path }) => path.fees)).to.deep.eq([[FeeAmount.LOW]])
+      expect((await findRoutes({ ...params, maxRoutes: 1 })).map(({ path }) => path.fees)).to.deep.eq([
+        [FeeAmount.MEDIUM, FeeAmount.MEDIUM],
+      ])
+    })
+  })
+})
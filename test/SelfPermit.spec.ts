@@ -4,7 +4,7 @@ import { waffle, ethers } from 'hardhat'
 import { Fixture } from 'ethereum-waffle'
 import { SelfPermitTest, TestERC20PermitAllowed } from '../typechain'
 import { expect } from 'chai'
-import { getPermitSignature } from './shared/permit'
+import { getPermitAllowedSignature, getPermitSignature } from './shared/permit'
 
 describe('SelfPermit', () => {
   let wallet: Wallet
@@ -123,7 +123,7 @@ describe('SelfPermit', () => {
 
   describe('#selfPermitAllowed', () => {
     it('works', async () => {
-      const { v, r, s } = await getPermitSignature(wallet, token, selfPermitTest.address, constants.MaxUint256)
+      const { v, r, s } = await getPermitAllowedSignature(wallet, token, selfPermitTest.address)
 
       expect(await token.allowance(wallet.address, selfPermitTest.address)).to.be.eq(0)
       await expect(selfPermitTest.selfPermitAllowed(token.address, 0, constants.MaxUint256, v, r, s))
@@ -133,7 +133,7 @@ describe('SelfPermit', () => {
     })
 
     it('fails if permit is submitted externally', async () => {
-      const { v, r, s } = await getPermitSignature(wallet, token, selfPermitTest.address, constants.MaxUint256)
+      const { v, r, s } = await getPermitAllowedSignature(wallet, token, selfPermitTest.address)
 
       expect(await token.allowance(wallet.address, selfPermitTest.address)).to.be.eq(0)
       await token['permit(address,address,uint256,uint256,bool,uint8,bytes32,bytes32)'](
@@ -156,7 +156,7 @@ describe('SelfPermit', () => {
 
   describe('#selfPermitAllowedIfNecessary', () => {
     it('works', async () => {
-      const { v, r, s } = await getPermitSignature(wallet, token, selfPermitTest.address, constants.MaxUint256)
+      const { v, r, s } = await getPermitAllowedSignature(wallet, token, selfPermitTest.address)
 
       expect(await token.allowance(wallet.address, selfPermitTest.address)).to.eq(0)
       await expect(selfPermitTest.selfPermitAllowedIfNecessary(token.address, 0, constants.MaxUint256, v, r, s))
@@ -166,7 +166,7 @@ describe('SelfPermit', () => {
     })
 
     it('skips if already max approved', async () => {
-      const { v, r, s } = await getPermitSignature(wallet, token, selfPermitTest.address, constants.MaxUint256)
+      const { v, r, s } = await getPermitAllowedSignature(wallet, token, selfPermitTest.address)
 
       expect(await token.allowance(wallet.address, selfPermitTest.address)).to.be.eq(0)
       await token.approve(selfPermitTest.address, constants.MaxUint256)
@@ -177,7 +177,7 @@ describe('SelfPermit', () => {
     })
 
     it('does not fail if permit is submitted externally', async () => {
-      const { v, r, s } = await getPermitSignature(wallet, token, selfPermitTest.address, constants.MaxUint256)
+      const { v, r, s } = await getPermitAllowedSignature(wallet, token, selfPermitTest.address)
 
       expect(await token.allowance(wallet.address, selfPermitTest.address)).to.be.eq(0)
       await token['permit(address,address,uint256,uint256,bool,uint8,bytes32,bytes32)'](
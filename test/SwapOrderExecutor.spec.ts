@@ -0,0 +1,232 @@
+import { Fixture } from 'ethereum-waffle'
+import { constants, Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import { MockTimeNonfungiblePositionManager, MockTimeSwapRouter, SwapOrderExecutor, TestERC20 } from '../typechain'
+import completeFixture from './shared/completeFixture'
+import { FeeAmount, TICK_SPACINGS } from './shared/constants'
+import { encodePriceSqrt } from './shared/encodePriceSqrt'
+import { expandTo18Decimals } from './shared/expandTo18Decimals'
+import { expect } from './shared/expect'
+import { encodePath } from './shared/path'
+import { getPermitSignature } from './shared/permit'
+import revertChainAfter from './shared/revertChainAfter'
+import snapshotGasCost from './shared/snapshotGasCost'
+import { getSwapOrderSignature, SwapOrder } from './shared/swapOrder'
+import { getMaxTick, getMinTick } from './shared/ticks'
+
+describe('SwapOrderExecutor', () => {
+  revertChainAfter()
+
+  let wallet: Wallet
+  let trader: Wallet
+
+  const executorFixture: Fixture<{
+    router: MockTimeSwapRouter
+    nft: MockTimeNonfungiblePositionManager
+    tokens: [TestERC20, TestERC20, TestERC20]
+    executor: SwapOrderExecutor
+  }> = async (wallets, provider) => {
+    const { router, tokens, nft } = await completeFixture(wallets, provider)
+
+    const executorFactory = await ethers.getContractFactory('SwapOrderExecutor')
+    const executor = (await executorFactory.deploy(router.address)) as SwapOrderExecutor
+
+    // approve & fund wallets
+    for (const token of tokens) {
+      await token.approve(nft.address, constants.MaxUint256)
+      await token.connect(trader).approve(executor.address, constants.MaxUint256)
+      await token.transfer(trader.address, expandTo18Decimals(1_000_000))
+    }
+
+    // create the 0-1 and 1-2 pools
+    for (const [tokenA, tokenB] of [
+      [tokens[0], tokens[1]],
+      [tokens[1], tokens[2]],
+    ]) {
+      const [token0, token1] =
+        tokenA.address.toLowerCase() < tokenB.address.toLowerCase()
+          ? [tokenA.address, tokenB.address]
+          : [tokenB.address, tokenA.address]
+      await nft.createAndInitializePoolIfNecessary(token0, token1, FeeAmount.MEDIUM, encodePriceSqrt(1, 1))
+      await nft.mint({
+        token0,
+        token1,
+        fee: FeeAmount.MEDIUM,
+        tickLower: getMinTick(TICK_SPACINGS[FeeAmount.MEDIUM]),
+        tickUpper: getMaxTick(TICK_SPACINGS[FeeAmount.MEDIUM]),
+        recipient: wallet.address,
+        amount0Desired: 1000000,
+        amount1Desired: 1000000,
+        amount0Min: 0,
+        amount1Min: 0,
+        deadline: 1,
+      })
+    }
+
+    return { router, nft, tokens, executor }
+  }
+
+  let router: MockTimeSwapRouter
+  let tokens: [TestERC20, TestERC20, TestERC20]
+  let executor: SwapOrderExecutor
+
+  let loadFixture: ReturnType<typeof waffle.createFixtureLoader>
+
+  before('create fixture loader', async () => {
+    ;[wallet, trader] = await (ethers as any).getSigners()
+    loadFixture = waffle.createFixtureLoader([wallet, trader])
+  })
+
+  beforeEach('load fixture', async () => {
+    ;({ router, tokens, executor } = await loadFixture(executorFixture))
+  })
+
+  // ensure neither the executor nor the router ends up with a balance
+  afterEach('check balances', async () => {
+    for (const token of tokens) {
+      expect(await token.balanceOf(executor.address)).to.be.eq(0)
+      expect(await token.balanceOf(router.address)).to.be.eq(0)
+    }
+  })
+
+  // the trader signs the orders and the wallet relays them
+  function swapOrder(tokenAddresses: string[], overrides: Partial<SwapOrder> = {}): SwapOrder {
+    return {
+      signer: trader.address,
+      tokenIn: tokenAddresses[0],
+      tokenOut: tokenAddresses[tokenAddresses.length - 1],
+      path: encodePath(tokenAddresses, new Array(tokenAddresses.length - 1).fill(FeeAmount.MEDIUM)),
+      amountIn: 3,
+      amountOutMinimum: 1,
+      recipient: trader.address,
+      nonce: 0,
+      deadline: 1,
+      ...overrides,
+    }
+  }
+
+  async function executeSwapOrder(order: SwapOrder, signer: Wallet = trader) {
+    const { v, r, s } = await getSwapOrderSignature(signer, executor, order)
+    return executor.executeSwapOrder(order, v, r, s)
+  }
+
+  it('constructor initializes immutables', async () => {
+    expect(await executor.swapRouter()).to.eq(router.address)
+  })
+
+  describe('#executeSwapOrder', () => {
+    it('0 -> 1 paid by the signer', async () => {
+      const traderToken0Before = await tokens[0].balanceOf(trader.address)
+      const traderToken1Before = await tokens[1].balanceOf(trader.address)
+      const walletToken0Before = await tokens[0].balanceOf(wallet.address)
+
+      await expect(executeSwapOrder(swapOrder([tokens[0].address, tokens[1].address])))
+        .to.emit(executor, 'SwapOrderExecuted')
+        .withArgs(trader.address, 0, 1)
+
+      expect(await tokens[0].balanceOf(trader.address)).to.be.eq(traderToken0Before.sub(3))
+      expect(await tokens[1].balanceOf(trader.address)).to.be.eq(traderToken1Before.add(1))
+      expect(await tokens[0].balanceOf(wallet.address)).to.be.eq(walletToken0Before)
+      expect(await executor.isSwapOrderNonceUsed(trader.address, 0)).to.be.eq(true)
+    })
+
+    it('0 -> 1 -> 2 to another recipient', async () => {
+      const walletToken2Before = await tokens[2].balanceOf(wallet.address)
+
+      await executeSwapOrder(
+        swapOrder([tokens[0].address, tokens[1].address, tokens[2].address], {
+          amountIn: 5,
+          recipient: wallet.address,
+        })
+      )
+
+      expect(await tokens[2].balanceOf(wallet.address)).to.be.eq(walletToken2Before.add(1))
+    })
+
+    it('pulls the amount in with an ERC-2612 permit of the signer', async () => {
+      await tokens[0].connect(trader).approve(executor.address, 0)
+      const { v, r, s } = await getPermitSignature(trader, tokens[0], executor.address, 3)
+      await tokens[0].permit(trader.address, executor.address, 3, constants.MaxUint256, v, r, s)
+
+      await expect(executeSwapOrder(swapOrder([tokens[0].address, tokens[1].address]))).to.emit(
+        executor,
+        'SwapOrderExecuted'
+      )
+      expect(await tokens[0].allowance(trader.address, executor.address)).to.be.eq(0)
+    })
+
+    it('fails if the order is replayed', async () => {
+      const order = swapOrder([tokens[0].address, tokens[1].address])
+      const { v, r, s } = await getSwapOrderSignature(trader, executor, order)
+
+      await executor.executeSwapOrder(order, v, r, s)
+      await expect(executor.executeSwapOrder(order, v, r, s)).to.be.revertedWith('Nonce used')
+    })
+
+    it('executes orders with unused nonces in any order', async () => {
+      await executeSwapOrder(swapOrder([tokens[0].address, tokens[1].address], { nonce: 2 }))
+      await executeSwapOrder(swapOrder([tokens[0].address, tokens[1].address], { nonce: 1 }))
+      await expect(
+        executeSwapOrder(swapOrder([tokens[1].address, tokens[0].address], { nonce: 2 }))
+      ).to.be.revertedWith('Nonce used')
+    })
+
+    it('fails if the order is signed by another account', async () => {
+      await expect(executeSwapOrder(swapOrder([tokens[0].address, tokens[1].address]), wallet)).to.be.revertedWith(
+        'Unauthorized'
+      )
+    })
+
+    it('fails if the order is changed after it is signed', async () => {
+      const order = swapOrder([tokens[0].address, tokens[1].address])
+      const { v, r, s } = await getSwapOrderSignature(trader, executor, order)
+
+      await expect(executor.executeSwapOrder({ ...order, amountIn: 4 }, v, r, s)).to.be.revertedWith('Unauthorized')
+      await expect(executor.executeSwapOrder({ ...order, recipient: wallet.address }, v, r, s)).to.be.revertedWith(
+        'Unauthorized'
+      )
+    })
+
+    it('fails if the tokens do not match the path', async () => {
+      await expect(
+        executeSwapOrder(swapOrder([tokens[0].address, tokens[1].address], { tokenOut: tokens[2].address }))
+      ).to.be.revertedWith('Invalid path')
+    })
+
+    it('fails if the amount out is less than the minimum', async () => {
+      await expect(
+        executeSwapOrder(swapOrder([tokens[0].address, tokens[1].address], { amountOutMinimum: 2 }))
+      ).to.be.revertedWith('Too little received')
+    })
+
+    it('fails if the deadline has passed', async () => {
+      await router.setTime(2)
+      await expect(executeSwapOrder(swapOrder([tokens[0].address, tokens[1].address]))).to.be.revertedWith(
+        'Transaction too old'
+      )
+    })
+
+    it('gas', async () => {
+      await snapshotGasCost(executeSwapOrder(swapOrder([tokens[0].address, tokens[1].address])))
+    })
+  })
+
+  describe('#cancelSwapOrder', () => {
+    it('fails if the order is cancelled', async () => {
+      const order = swapOrder([tokens[0].address, tokens[1].address])
+      const { v, r, s } = await getSwapOrderSignature(trader, executor, order)
+
+      await expect(executor.connect(trader).cancelSwapOrder(0))
+        .to.emit(executor, 'SwapOrderCancelled')
+        .withArgs(trader.address, 0)
+      expect(await executor.isSwapOrderNonceUsed(trader.address, 0)).to.be.eq(true)
+      await expect(executor.executeSwapOrder(order, v, r, s)).to.be.revertedWith('Nonce used')
+    })
+
+    it('cancels only the nonce of the caller', async () => {
+      await executor.cancelSwapOrder(0)
+      await expect(executor.connect(trader).cancelSwapOrder(0)).to.emit(executor, 'SwapOrderCancelled')
+      await expect(executor.cancelSwapOrder(0)).to.be.revertedWith('Nonce used')
+    })
+  })
+})
@@ -393,6 +393,39 @@ describe('SwapRouter gas tests', function () {
     await snapshotGasCost(router.connect(trader).multicall(data))
   })
 
+  describe('#exactInputSplit', () => {
+    it('0 -> 1 in 2 parts', async () => {
+      const path = encodePath([tokens[0].address, tokens[1].address], [FeeAmount.MEDIUM])
+      await snapshotGasCost(
+        router.connect(trader).exactInputSplit({
+          paths: [path, path],
+          amountsIn: [2, 2],
+          recipient: trader.address,
+          deadline: 1,
+          amountOutMinimum: 2,
+        })
+      )
+    })
+
+    it('0 -> 1 and 0 -> 1 -> 2 -> 1', async () => {
+      await snapshotGasCost(
+        router.connect(trader).exactInputSplit({
+          paths: [
+            encodePath([tokens[0].address, tokens[1].address], [FeeAmount.MEDIUM]),
+            encodePath(
+              [tokens[0].address, tokens[1].address, tokens[2].address, tokens[1].address],
+              [FeeAmount.MEDIUM, FeeAmount.MEDIUM, FeeAmount.MEDIUM]
+            ),
+          ],
+          amountsIn: [2, 5],
+          recipient: trader.address,
+          deadline: 1,
+          amountOutMinimum: 2,
+        })
+      )
+    })
+  })
+
   describe('#exactInputSingle', () => {
     it('0 -> 1', async () => {
       await snapshotGasCost(exactInputSingle(tokens[0].address, tokens[1].address))
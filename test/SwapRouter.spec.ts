@@ -7,7 +7,8 @@ import { FeeAmount, TICK_SPACINGS } from './shared/constants'
 import { encodePriceSqrt } from './shared/encodePriceSqrt'
 import { expandTo18Decimals } from './shared/expandTo18Decimals'
 import { expect } from './shared/expect'
-import { encodePath } from './shared/path'
+import { encodePath, toPath } from './shared/path'
+import { encodeExactInputSplit, getExactInputSplitParams, splitAmount, SplitRoute } from './shared/splitRoute'
 import { getMaxTick, getMinTick } from './shared/ticks'
 import { computePoolAddress } from './shared/computePoolAddress'
 
@@ -361,6 +362,281 @@ describe('SwapRouter', function () {
       })
     })
 
+    describe('#exactInputSplit', () => {
+      beforeEach('create a low fee 0-1 pool', async () => {
+        const [token0, token1] = [tokens[0].address, tokens[1].address]
+        await nft.createAndInitializePoolIfNecessary(token0, token1, FeeAmount.LOW, encodePriceSqrt(1, 1))
+        await nft.mint({
+          token0,
+          token1,
+          fee: FeeAmount.LOW,
+          tickLower: getMinTick(TICK_SPACINGS[FeeAmount.LOW]),
+          tickUpper: getMaxTick(TICK_SPACINGS[FeeAmount.LOW]),
+          recipient: wallet.address,
+          amount0Desired: 1000000,
+          amount1Desired: 1000000,
+          amount0Min: 0,
+          amount1Min: 0,
+          deadline: 1,
+        })
+      })
+
+      async function exactInputSplit(
+        routes: SplitRoute[],
+        amountOutMinimum: number = 1,
+        value: number = 0
+      ): Promise<ContractTransaction> {
+        const outputIsWETH9 = routes[0].path.tokens[routes[0].path.tokens.length - 1] === weth9.address
+
+        const params = getExactInputSplitParams(
+          routes,
+          outputIsWETH9 ? constants.AddressZero : trader.address,
+          1,
+          amountOutMinimum
+        )
+
+        const data = [encodeExactInputSplit(router, params)]
+        if (outputIsWETH9)
+          data.push(router.interface.encodeFunctionData('unwrapWETH9', [amountOutMinimum, trader.address]))
+
+        // ensure that the swap fails if the aggregate limit is any tighter
+        await expect(
+          router.connect(trader).exactInputSplit({ ...params, amountOutMinimum: amountOutMinimum + 1 }, { value })
+        ).to.be.revertedWith('Too little received')
+
+        return data.length === 1
+          ? router.connect(trader).exactInputSplit(params, { value })
+          : router.connect(trader).multicall(data, { value })
+      }
+
+      it('0 -> 1 split across fee tiers', async () => {
+        const traderBefore = await getBalances(trader.address)
+        const [amountMedium, amountLow] = splitAmount(10, [1, 1])
+
+        const tx = exactInputSplit(
+          [
+            { path: toPath([tokens[0].address, tokens[1].address], [FeeAmount.MEDIUM]), amountIn: amountMedium },
+            { path: toPath([tokens[0].address, tokens[1].address], [FeeAmount.LOW]), amountIn: amountLow },
+          ],
+          6
+        )
+
+        // the trader pays the first pool of each path directly
+        await expect(tx)
+          .to.emit(tokens[0], 'Transfer')
+          .withArgs(
+            trader.address,
+            computePoolAddress(factory.address, [tokens[0].address, tokens[1].address], FeeAmount.MEDIUM),
+            amountMedium
+          )
+        await expect(tx)
+          .to.emit(tokens[0], 'Transfer')
+          .withArgs(
+            trader.address,
+            computePoolAddress(factory.address, [tokens[0].address, tokens[1].address], FeeAmount.LOW),
+            amountLow
+          )
+
+        const traderAfter = await getBalances(trader.address)
+
+        expect(traderAfter.token0).to.be.eq(traderBefore.token0.sub(10))
+        expect(traderAfter.token1).to.be.eq(traderBefore.token1.add(6))
+      })
+
+      it('0 -> 2 split across paths of different length', async () => {
+        await createPool(tokens[0].address, tokens[2].address)
+        const traderBefore = await getBalances(trader.address)
+
+        await exactInputSplit(
+          [
+            {
+              path: toPath(
+                [tokens[0].address, tokens[1].address, tokens[2].address],
+                [FeeAmount.LOW, FeeAmount.MEDIUM]
+              ),
+              amountIn: 5,
+            },
+            { path: toPath([tokens[0].address, tokens[2].address], [FeeAmount.MEDIUM]), amountIn: 5 },
+          ],
+          4
+        )
+
+        const traderAfter = await getBalances(trader.address)
+
+        expect(traderAfter.token0).to.be.eq(traderBefore.token0.sub(10))
+        expect(traderAfter.token2).to.be.eq(traderBefore.token2.add(4))
+      })
+
+      it('only takes what a path that runs out of liquidity swaps', async () => {
+        // a high fee 0-1 pool with liquidity only between ticks -200 and 200
+        const [token0, token1] = [tokens[0].address, tokens[1].address]
+        await nft.createAndInitializePoolIfNecessary(token0, token1, FeeAmount.HIGH, encodePriceSqrt(1, 1))
+        await nft.mint({
+          token0,
+          token1,
+          fee: FeeAmount.HIGH,
+          tickLower: -200,
+          tickUpper: 200,
+          recipient: wallet.address,
+          amount0Desired: 1000000,
+          amount1Desired: 1000000,
+          amount0Min: 0,
+          amount1Min: 0,
+          deadline: 1,
+        })
+        const pool = computePoolAddress(factory.address, [token0, token1], FeeAmount.HIGH)
+        const traderBefore = await getBalances(trader.address)
+        const poolBefore = await tokens[0].balanceOf(pool)
+
+        await router.connect(trader).exactInputSplit({
+          paths: [encodePath([token0, token1], [FeeAmount.MEDIUM]), encodePath([token0, token1], [FeeAmount.HIGH])],
+          amountsIn: [10, 100000000],
+          recipient: trader.address,
+          deadline: 1,
+          amountOutMinimum: 0,
+        })
+
+        // the swap through the high fee pool stops at the minimum price, short of the amount in
+        const poolTaken = (await tokens[0].balanceOf(pool)).sub(poolBefore)
+        expect(poolTaken).to.be.gt(0).and.to.be.lt(100000000)
+
+        // the router keeps nothing, as checked after each test, and the trader keeps the rest
+        const traderAfter = await getBalances(trader.address)
+        expect(traderAfter.token0).to.be.eq(traderBefore.token0.sub(poolTaken.add(10)))
+      })
+
+      it('fails if the paths and amounts lengths do not match', async () => {
+        await expect(
+          router.connect(trader).exactInputSplit({
+            paths: [encodePath([tokens[0].address, tokens[1].address], [FeeAmount.MEDIUM])],
+            amountsIn: [3, 3],
+            recipient: trader.address,
+            deadline: 1,
+            amountOutMinimum: 0,
+          })
+        ).to.be.revertedWith('Invalid split')
+      })
+
+      it('fails if there are no paths', async () => {
+        await expect(
+          router.connect(trader).exactInputSplit({
+            paths: [],
+            amountsIn: [],
+            recipient: trader.address,
+            deadline: 1,
+            amountOutMinimum: 0,
+          })
+        ).to.be.revertedWith('Invalid split')
+      })
+
+      it('fails if the paths start with different tokens', async () => {
+        await expect(
+          router.connect(trader).exactInputSplit({
+            paths: [
+              encodePath(
+                [tokens[0].address, tokens[1].address, tokens[2].address],
+                [FeeAmount.MEDIUM, FeeAmount.MEDIUM]
+              ),
+              encodePath([tokens[1].address, tokens[2].address], [FeeAmount.MEDIUM]),
+            ],
+            amountsIn: [3, 3],
+            recipient: trader.address,
+            deadline: 1,
+            amountOutMinimum: 0,
+          })
+        ).to.be.revertedWith('Invalid split')
+      })
+
+      it('fails if the paths end with different tokens', async () => {
+        await expect(
+          router.connect(trader).exactInputSplit({
+            paths: [
+              encodePath([tokens[0].address, tokens[1].address], [FeeAmount.MEDIUM]),
+              encodePath([tokens[0].address, tokens[1].address, tokens[2].address], [FeeAmount.LOW, FeeAmount.MEDIUM]),
+            ],
+            amountsIn: [3, 3],
+            recipient: trader.address,
+            deadline: 1,
+            amountOutMinimum: 0,
+          })
+        ).to.be.revertedWith('Invalid split')
+      })
+
+      it('fails if the deadline has passed', async () => {
+        await router.setTime(2)
+        await expect(
+          router.connect(trader).exactInputSplit({
+            paths: [encodePath([tokens[0].address, tokens[1].address], [FeeAmount.MEDIUM])],
+            amountsIn: [3],
+            recipient: trader.address,
+            deadline: 1,
+            amountOutMinimum: 0,
+          })
+        ).to.be.revertedWith('Transaction too old')
+      })
+
+      describe('ETH input', () => {
+        beforeEach(async () => {
+          await createPoolWETH9(tokens[0].address)
+        })
+
+        it('WETH9 -> 0 wraps for each path', async () => {
+          const traderBefore = await getBalances(trader.address)
+          const path = toPath([weth9.address, tokens[0].address], [FeeAmount.MEDIUM])
+
+          await expect(
+            exactInputSplit(
+              [
+                { path, amountIn: 3 },
+                { path, amountIn: 3 },
+              ],
+              2,
+              6
+            )
+          )
+            .to.emit(weth9, 'Deposit')
+            .withArgs(router.address, 3)
+
+          const traderAfter = await getBalances(trader.address)
+
+          expect(traderAfter.token0).to.be.eq(traderBefore.token0.add(2))
+        })
+      })
+
+      describe('ETH output', () => {
+        beforeEach(async () => {
+          await createPoolWETH9(tokens[0].address)
+          await createPoolWETH9(tokens[1].address)
+        })
+
+        it('0 -> WETH9', async () => {
+          const traderBefore = await getBalances(trader.address)
+
+          await expect(
+            exactInputSplit(
+              [
+                { path: toPath([tokens[0].address, weth9.address], [FeeAmount.MEDIUM]), amountIn: 3 },
+                {
+                  path: toPath(
+                    [tokens[0].address, tokens[1].address, weth9.address],
+                    [FeeAmount.LOW, FeeAmount.MEDIUM]
+                  ),
+                  amountIn: 5,
+                },
+              ],
+              2
+            )
+          )
+            .to.emit(weth9, 'Withdrawal')
+            .withArgs(router.address, 2)
+
+          const traderAfter = await getBalances(trader.address)
+
+          expect(traderAfter.token0).to.be.eq(traderBefore.token0.sub(8))
+        })
+      })
+    })
+
     describe('#exactInputSingle', () => {
       async function exactInputSingle(
         tokenIn: string,
@@ -0,0 +1,236 @@
+import { Fixture } from 'ethereum-waffle'
+import { BigNumber, constants, Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import { IUniswapV3Factory, MockTimeNonfungiblePositionManager, QuoterV2, TestERC20, TickLens } from '../typechain'
+import completeFixture from './shared/completeFixture'
+import { FeeAmount } from './shared/constants'
+import { expect } from './shared/expect'
+import { encodePath } from './shared/path'
+import poolAtAddress from './shared/poolAtAddress'
+import { createPool, createPoolWithMultiplePositions, createPoolWithZeroTickInitialized } from './shared/quoter'
+import revertChainAfter from './shared/revertChainAfter'
+import {
+  fetchPoolState,
+  PoolState,
+  quoteExactInput,
+  quoteExactInputSingle,
+  quoteExactOutput,
+  quoteExactOutputSingle,
+} from './shared/swapSimulator'
+import { encodePriceSqrt } from './shared/encodePriceSqrt'
+
+describe('SwapSimulator', function () {
+  revertChainAfter()
+
+  this.timeout(120000)
+  let wallet: Wallet
+
+  const swapSimulatorFixture: Fixture<{
+    factory: IUniswapV3Factory
+    nft: MockTimeNonfungiblePositionManager
+    tokens: [TestERC20, TestERC20, TestERC20]
+    quoter: QuoterV2
+    tickLens: TickLens
+  }> = async (wallets, provider) => {
+    const { weth9, factory, tokens, nft } = await completeFixture(wallets, provider)
+
+    for (const token of tokens) {
+      await token.approve(nft.address, constants.MaxUint256)
+    }
+
+    const quoterFactory = await ethers.getContractFactory('QuoterV2')
+    const quoter = (await quoterFactory.deploy(factory.address, weth9.address)) as QuoterV2
+
+    const tickLensFactory = await ethers.getContractFactory('TickLens')
+    const tickLens = (await tickLensFactory.deploy()) as TickLens
+
+    return {
+      factory,
+      nft,
+      tokens,
+      quoter,
+      tickLens,
+    }
+  }
+
+  let factory: IUniswapV3Factory
+  let nft: MockTimeNonfungiblePositionManager
+  let tokens: [TestERC20, TestERC20, TestERC20]
+  let quoter: QuoterV2
+  let tickLens: TickLens
+
+  let loadFixture: ReturnType<typeof waffle.createFixtureLoader>
+
+  before('create fixture loader', async () => {
+    const wallets = await (ethers as any).getSigners()
+    ;[wallet] = wallets
+    loadFixture = waffle.createFixtureLoader(wallets)
+  })
+
+  beforeEach('load fixture', async () => {
+    ;({ factory, nft, tokens, quoter, tickLens } = await loadFixture(swapSimulatorFixture))
+  })
+
+  async function getPoolStates(): Promise<PoolState[]> {
+    const pairs = [
+      [tokens[0], tokens[1]],
+      [tokens[1], tokens[2]],
+      [tokens[0], tokens[2]],
+    ]
+    return Promise.all(
+      pairs.map(async ([tokenA, tokenB]) =>
+        fetchPoolState(
+          poolAtAddress(await factory.getPool(tokenA.address, tokenB.address, FeeAmount.MEDIUM), wallet),
+          tickLens
+        )
+      )
+    )
+  }
+
+  // asserts that the simulation and QuoterV2 either return the same values or both fail
+  async function expectSameQuote(
+    simulate: () => { amount: BigNumber; sqrtPriceX96AfterList: BigNumber[]; initializedTicksCrossedList: number[] },
+    quote: () => Promise<{ 0: BigNumber; sqrtPriceX96AfterList: BigNumber[]; initializedTicksCrossedList: number[] }>
+  ) {
+    let expected
+    try {
+      expected = await quote()
+    } catch (error) {
+      expect(simulate).to.throw()
+      return
+    }
+    const { 0: amount, sqrtPriceX96AfterList, initializedTicksCrossedList } = expected
+    expect(simulate()).to.deep.eq({ amount, sqrtPriceX96AfterList, initializedTicksCrossedList })
+  }
+
+  const amounts = [1, 10, 100, 3971, 4000, 6143, 6200, 9871, 10000, 100000, 1000000]
+
+  for (const [description, setup] of [
+    ['multiple positions', createPoolWithMultiplePositions],
+    ['zero tick initialized', createPoolWithZeroTickInitialized],
+  ] as const) {
+    describe(`pool with ${description}`, () => {
+      let pools: PoolState[]
+
+      beforeEach(async () => {
+        await createPool(nft, wallet, tokens[0].address, tokens[1].address)
+        await createPool(nft, wallet, tokens[1].address, tokens[2].address)
+        await createPoolWithMultiplePositions(nft, wallet, tokens[0].address, tokens[2].address)
+        if (setup !== createPoolWithMultiplePositions) await setup(nft, wallet, tokens[0].address, tokens[2].address)
+        pools = await getPoolStates()
+      })
+
+      for (const [tokenIn, tokenOut] of [
+        [0, 2],
+        [2, 0],
+      ]) {
+        it(`#quoteExactInput ${tokenIn} -> ${tokenOut}`, async () => {
+          const path = encodePath([tokens[tokenIn].address, tokens[tokenOut].address], [FeeAmount.MEDIUM])
+          for (const amount of amounts) {
+            await expectSameQuote(
+              () => quoteExactInput(pools, path, amount),
+              () => quoter.callStatic.quoteExactInput(path, amount)
+            )
+          }
+        })
+
+        it(`#quoteExactOutput ${tokenIn} -> ${tokenOut}`, async () => {
+          const path = encodePath([tokens[tokenOut].address, tokens[tokenIn].address], [FeeAmount.MEDIUM])
+          for (const amount of amounts) {
+            await expectSameQuote(
+              () => quoteExactOutput(pools, path, amount),
+              () => quoter.callStatic.quoteExactOutput(path, amount)
+            )
+          }
+        })
+      }
+
+      it('#quoteExactInput multihop', async () => {
+        for (const tokenAddresses of [
+          [tokens[0].address, tokens[2].address, tokens[1].address],
+          [tokens[1].address, tokens[2].address, tokens[0].address],
+          [tokens[0].address, tokens[2].address, tokens[1].address, tokens[0].address],
+        ]) {
+          const path = encodePath(tokenAddresses, new Array(tokenAddresses.length - 1).fill(FeeAmount.MEDIUM))
+          for (const amount of amounts) {
+            await expectSameQuote(
+              () => quoteExactInput(pools, path, amount),
+              () => quoter.callStatic.quoteExactInput(path, amount)
+            )
+          }
+        }
+      })
+
+      it('#quoteExactOutput multihop', async () => {
+        for (const tokenAddresses of [
+          [tokens[1].address, tokens[2].address, tokens[0].address],
+          [tokens[0].address, tokens[2].address, tokens[1].address],
+        ]) {
+          const path = encodePath(tokenAddresses, new Array(tokenAddresses.length - 1).fill(FeeAmount.MEDIUM))
+          for (const amount of amounts) {
+            await expectSameQuote(
+              () => quoteExactOutput(pools, path, amount),
+              () => quoter.callStatic.quoteExactOutput(path, amount)
+            )
+          }
+        }
+      })
+
+      it('respects the price limit', async () => {
+        const [, , pool] = pools
+        for (const [tokenIn, tokenOut, sqrtPriceLimitX96] of [
+          [tokens[0].address, tokens[2].address, encodePriceSqrt(100, 102)],
+          [tokens[2].address, tokens[0].address, encodePriceSqrt(102, 100)],
+        ] as const) {
+          const {
+            amountOut,
+            sqrtPriceX96After,
+            initializedTicksCrossed,
+          } = await quoter.callStatic.quoteExactInputSingle({
+            tokenIn,
+            tokenOut,
+            fee: FeeAmount.MEDIUM,
+            amountIn: 10000,
+            sqrtPriceLimitX96,
+          })
+          expect(quoteExactInputSingle(pool, { tokenIn, tokenOut, amountIn: 10000, sqrtPriceLimitX96 })).to.deep.eq({
+            amount: amountOut,
+            sqrtPriceX96After,
+            initializedTicksCrossed,
+          })
+
+          const {
+            amountIn,
+            sqrtPriceX96After: sqrtPriceX96AfterOutput,
+          } = await quoter.callStatic.quoteExactOutputSingle({
+            tokenIn,
+            tokenOut,
+            fee: FeeAmount.MEDIUM,
+            amount: 10000,
+            sqrtPriceLimitX96,
+          })
+          const simulated = quoteExactOutputSingle(pool, { tokenIn, tokenOut, amount: 10000, sqrtPriceLimitX96 })
+          expect(simulated.amount).to.eq(amountIn)
+          expect(simulated.sqrtPriceX96After).to.eq(sqrtPriceX96AfterOutput)
+        }
+      })
+    })
+  }
+
+  it('fails for pools without liquidity', async () => {
+    await nft.createAndInitializePoolIfNecessary(
+      tokens[0].address,
+      tokens[1].address,
+      FeeAmount.MEDIUM,
+      encodePriceSqrt(1, 1)
+    )
+    const state = await fetchPoolState(
+      poolAtAddress(await factory.getPool(tokens[0].address, tokens[1].address, FeeAmount.MEDIUM), wallet),
+      tickLens
+    )
+    expect(state.ticks).to.deep.eq([])
+    expect(() =>
+      quoteExactInputSingle(state, { tokenIn: tokens[0].address, tokenOut: tokens[1].address, amountIn: 100 })
+    ).to.throw('swap did not move any tokens')
+  })
+})
@@ -6,6 +6,8 @@ import completeFixture from './shared/completeFixture'
 import { FeeAmount, TICK_SPACINGS } from './shared/constants'
 import { encodePriceSqrt } from './shared/encodePriceSqrt'
 import { expect } from './shared/expect'
+import { fetchPoolSnapshot, getLiquidityDepth } from './shared/liquidityDepth'
+import { createPool } from './shared/quoter'
 import { getMaxTick, getMinTick } from './shared/ticks'
 import { computePoolAddress } from './shared/computePoolAddress'
 import snapshotGasCost from './shared/snapshotGasCost'
@@ -220,4 +222,185 @@ describe('TickLens', () => {
       )
     }).timeout(300_000)
   })
+
+  describe('#getPopulatedTicksInWordRange', () => {
+    const fullRangeLiquidity = 1000000
+    const tickSpacing = TICK_SPACINGS[FeeAmount.MEDIUM]
+    const [minWord, maxWord] = [getMinTick(tickSpacing), getMaxTick(tickSpacing)].map(
+      (tick) => (tick / tickSpacing) >> 8
+    )
+    let liquidities: number[]
+
+    async function mint(tickLower: number, tickUpper: number, amountBothDesired: BigNumberish): Promise<number> {
+      const mintParams = {
+        token0: tokens[0].address,
+        token1: tokens[1].address,
+        fee: FeeAmount.MEDIUM,
+        tickLower,
+        tickUpper,
+        amount0Desired: amountBothDesired,
+        amount1Desired: amountBothDesired,
+        amount0Min: 0,
+        amount1Min: 0,
+        recipient: wallets[0].address,
+        deadline: 1,
+      }
+
+      const { liquidity } = await nft.callStatic.mint(mintParams)
+
+      await nft.mint(mintParams)
+      return liquidity.toNumber()
+    }
+
+    beforeEach(async () => {
+      await createPool(nft, wallets[0], tokens[0].address, tokens[1].address)
+      poolAddress = computePoolAddress(factory.address, [tokens[0].address, tokens[1].address], FeeAmount.MEDIUM)
+      const lensFactory = await ethers.getContractFactory('TickLensTest')
+      tickLens = (await lensFactory.deploy()) as TickLensTest
+
+      liquidities = [
+        await mint(-2 * tickSpacing, -tickSpacing, 2),
+        await mint(-2 * tickSpacing, 0, 3),
+        await mint(-2 * tickSpacing, tickSpacing, 5),
+        await mint(-tickSpacing, 0, 7),
+        await mint(-tickSpacing, tickSpacing, 11),
+        await mint(0, tickSpacing, 13),
+      ]
+    })
+
+    it('returns the state of the pool', async () => {
+      const { state } = await tickLens.getPopulatedTicksInWordRange(poolAddress, 0, 0, 0)
+      const pool = await ethers.getContractAt('IUniswapV3Pool', poolAddress)
+      const slot0 = await pool.slot0()
+      expect(state.sqrtPriceX96).to.eq(slot0.sqrtPriceX96)
+      expect(state.tick).to.eq(slot0.tick)
+      expect(state.observationIndex).to.eq(slot0.observationIndex)
+      expect(state.observationCardinality).to.eq(slot0.observationCardinality)
+      expect(state.observationCardinalityNext).to.eq(slot0.observationCardinalityNext)
+      expect(state.feeProtocol).to.eq(slot0.feeProtocol)
+      expect(state.unlocked).to.eq(slot0.unlocked)
+      expect(state.liquidity).to.eq(await pool.liquidity())
+      expect(state.feeGrowthGlobal0X128).to.eq(await pool.feeGrowthGlobal0X128())
+      expect(state.feeGrowthGlobal1X128).to.eq(await pool.feeGrowthGlobal1X128())
+      expect(state.tickSpacing).to.eq(tickSpacing)
+    })
+
+    it('returns the populated ticks of the whole span in ascending order', async () => {
+      const { populatedTicks, nextWord, complete } = await tickLens.getPopulatedTicksInWordRange(
+        poolAddress,
+        -(2 ** 15),
+        2 ** 15 - 1,
+        0
+      )
+      expect(complete).to.eq(true)
+      expect(nextWord).to.eq(maxWord + 1)
+
+      const expected = []
+      for (const word of [minWord, -1, 0, maxWord]) {
+        expected.push(...(await tickLens.getPopulatedTicksInWord(poolAddress, word)).slice().reverse())
+      }
+      expect(populatedTicks.map(({ tick }) => tick)).to.deep.eq([
+        getMinTick(tickSpacing),
+        -2 * tickSpacing,
+        -tickSpacing,
+        0,
+        tickSpacing,
+        getMaxTick(tickSpacing),
+      ])
+      expect(populatedTicks).to.deep.eq(expected)
+    })
+
+    it('walks one word when the gas reserve is exceeded', async () => {
+      const { populatedTicks, nextWord, complete } = await tickLens.getPopulatedTicksInWordRange(
+        poolAddress,
+        -1,
+        0,
+        constants.MaxUint256
+      )
+      expect(complete).to.eq(false)
+      expect(nextWord).to.eq(0)
+      expect(populatedTicks.map(({ tick }) => tick)).to.deep.eq([-2 * tickSpacing, -tickSpacing])
+    })
+
+    it('returns nothing for an empty range', async () => {
+      for (const [startWord, endWord] of [
+        [1, 0],
+        [maxWord + 1, 2 ** 15 - 1],
+        [-(2 ** 15), minWord - 1],
+      ]) {
+        const { populatedTicks, nextWord, complete } = await tickLens.getPopulatedTicksInWordRange(
+          poolAddress,
+          startWord,
+          endWord,
+          0
+        )
+        expect(populatedTicks).to.deep.eq([])
+        expect(complete).to.eq(true)
+        expect(nextWord).to.eq(Math.max(startWord, minWord))
+      }
+    })
+
+    it('gas for the whole span', async () => {
+      await snapshotGasCost(tickLens.getGasCostOfGetPopulatedTicksInWordRange(poolAddress, minWord, maxWord, 0))
+    })
+
+    describe('fetchPoolSnapshot', () => {
+      it('follows the cursor', async () => {
+        const snapshot = await fetchPoolSnapshot(tickLens, poolAddress)
+        for (const gasReserve of [constants.MaxUint256, 0]) {
+          expect(await fetchPoolSnapshot(tickLens, poolAddress, { gasReserve })).to.deep.eq(snapshot)
+        }
+        expect(snapshot.populatedTicks).to.have.length(6)
+      }).timeout(60_000)
+
+      it('reads a single block', async () => {
+        const blockTag = (await ethers.provider.getBlock('latest')).number
+        await mint(-3 * tickSpacing, 3 * tickSpacing, 17)
+        const snapshot = await fetchPoolSnapshot(tickLens, poolAddress, { blockTag })
+        expect(snapshot.populatedTicks).to.have.length(6)
+        expect((await fetchPoolSnapshot(tickLens, poolAddress)).populatedTicks).to.have.length(8)
+      })
+    })
+
+    describe('getLiquidityDepth', () => {
+      it('returns the active liquidity between the populated ticks', async () => {
+        const buckets = getLiquidityDepth(await fetchPoolSnapshot(tickLens, poolAddress))
+        const [l0, l1, l2, l3, l4, l5] = liquidities
+        expect(
+          buckets.map(({ tickLower, tickUpper, liquidity }) => [tickLower, tickUpper, liquidity.toNumber()])
+        ).to.deep.eq([
+          [getMinTick(tickSpacing), -2 * tickSpacing, fullRangeLiquidity],
+          [-2 * tickSpacing, -tickSpacing, fullRangeLiquidity + l0 + l1 + l2],
+          [-tickSpacing, 0, fullRangeLiquidity + l1 + l2 + l3 + l4],
+          [0, tickSpacing, fullRangeLiquidity + l2 + l4 + l5],
+          [tickSpacing, getMaxTick(tickSpacing), fullRangeLiquidity],
+        ])
+      })
+
+      it('prices the liquidity of the buckets at the current price', async () => {
+        const buckets = getLiquidityDepth(await fetchPoolSnapshot(tickLens, poolAddress))
+        // the price is 1, so the buckets below hold token1 and the buckets above hold token0
+        for (const { tickLower, amount0, amount1 } of buckets) {
+          if (tickLower < 0) expect(amount0).to.eq(0)
+          else expect(amount1).to.eq(0)
+        }
+        expect(buckets[2].amount1).to.be.gt(0)
+        expect(buckets[3].amount0).to.be.gt(0)
+      })
+
+      it('works for part of the span', async () => {
+        const snapshot = await fetchPoolSnapshot(tickLens, poolAddress, { startWord: -1, endWord: 0 })
+        expect(getLiquidityDepth(snapshot)).to.deep.eq(
+          getLiquidityDepth(await fetchPoolSnapshot(tickLens, poolAddress)).slice(1, 4)
+        )
+      })
+
+      it('fails for part of the span without the word of the current tick', async () => {
+        const snapshot = await fetchPoolSnapshot(tickLens, poolAddress, { startWord: -1, endWord: -1 })
+        expect(() => getLiquidityDepth(snapshot)).to.throw(
+          'the words -1 to -1 do not include the word 0 of the current tick'
+        )
+      })
+    })
+  })
 })
@@ -0,0 +1,169 @@
+import { randomBytes } from 'crypto'
+import { BigNumber } from 'ethers'
+import { ethers } from 'hardhat'
+import { TickMathTest } from '../typechain'
+import { FeeAmount, TICK_SPACINGS } from './shared/constants'
+import { expect } from './shared/expect'
+import revertChainAfter from './shared/revertChainAfter'
+import {
+  getSqrtRatioAtTick,
+  getTickAtSqrtRatio,
+  MAX_SQRT_RATIO,
+  MAX_TICK,
+  MIN_SQRT_RATIO,
+  MIN_TICK,
+} from './shared/tickMath'
+import { priceToSqrtRatioX96, priceToTick, tickToPrice } from './shared/tickPrice'
+import { getMaxTick, getMinTick, nearestUsableTick } from './shared/ticks'
+
+describe('TickMath', () => {
+  revertChainAfter()
+
+  let tickMath: TickMathTest
+
+  before('deploy test library', async () => {
+    const tickMathTestFactory = await ethers.getContractFactory('TickMathTest')
+    tickMath = (await tickMathTestFactory.deploy()) as TickMathTest
+  })
+
+  const tickSpacings = [FeeAmount.LOW, FeeAmount.MEDIUM, FeeAmount.HIGH].map((feeAmount) => TICK_SPACINGS[feeAmount])
+
+  // every usable boundary tick and its neighbours
+  const boundaryTicks = [MIN_TICK, MIN_TICK + 1, -1, 0, 1, MAX_TICK - 1, MAX_TICK].concat(
+    ...tickSpacings.map((tickSpacing) => [
+      getMinTick(tickSpacing) - 1,
+      getMinTick(tickSpacing),
+      getMinTick(tickSpacing) + 1,
+      getMaxTick(tickSpacing) - 1,
+      getMaxTick(tickSpacing),
+      getMaxTick(tickSpacing) + 1,
+    ])
+  )
+
+  describe('#getSqrtRatioAtTick', () => {
+    it('matches the library at the boundary ticks', async () => {
+      for (const tick of boundaryTicks) {
+        expect(getSqrtRatioAtTick(tick)).to.eq(await tickMath.getSqrtRatioAtTick(tick))
+      }
+    })
+
+    it('returns the min and max sqrt ratio', () => {
+      expect(getSqrtRatioAtTick(MIN_TICK)).to.eq(MIN_SQRT_RATIO)
+      expect(getSqrtRatioAtTick(MAX_TICK)).to.eq(MAX_SQRT_RATIO)
+    })
+
+    it('throws for ticks out of range', () => {
+      expect(() => getSqrtRatioAtTick(MIN_TICK - 1)).to.throw('T')
+      expect(() => getSqrtRatioAtTick(MAX_TICK + 1)).to.throw('T')
+    })
+
+    it('tiny fuzzing', async () => {
+      for (let i = 0; i < 50; i++) {
+        const tick = Math.floor(Math.random() * (MAX_TICK - MIN_TICK + 1)) + MIN_TICK
+        expect(getSqrtRatioAtTick(tick)).to.eq(await tickMath.getSqrtRatioAtTick(tick))
+      }
+    })
+  })
+
+  describe('#getTickAtSqrtRatio', () => {
+    it('matches the library around the boundary sqrt ratios', async () => {
+      for (const tick of boundaryTicks) {
+        const sqrtRatioX96 = getSqrtRatioAtTick(tick)
+        for (const sqrtPriceX96 of [sqrtRatioX96.sub(1), sqrtRatioX96, sqrtRatioX96.add(1)]) {
+          if (sqrtPriceX96.lt(MIN_SQRT_RATIO) || sqrtPriceX96.gte(MAX_SQRT_RATIO)) continue
+          expect(getTickAtSqrtRatio(sqrtPriceX96)).to.eq(await tickMath.getTickAtSqrtRatio(sqrtPriceX96))
+        }
+      }
+    })
+
+    it('is the inverse of getSqrtRatioAtTick', () => {
+      for (const tick of boundaryTicks) {
+        if (tick === MAX_TICK) continue
+        expect(getTickAtSqrtRatio(getSqrtRatioAtTick(tick))).to.eq(tick)
+        if (tick > MIN_TICK) expect(getTickAtSqrtRatio(getSqrtRatioAtTick(tick).sub(1))).to.eq(tick - 1)
+      }
+    })
+
+    it('throws for sqrt ratios out of range', () => {
+      expect(() => getTickAtSqrtRatio(MIN_SQRT_RATIO.sub(1))).to.throw('R')
+      expect(() => getTickAtSqrtRatio(MAX_SQRT_RATIO)).to.throw('R')
+    })
+
+    it('tiny fuzzing', async () => {
+      for (let i = 0; i < 50; i++) {
+        const sqrtPriceX96 = BigNumber.from(`0x${randomBytes(20).toString('hex')}`)
+          .mod(MAX_SQRT_RATIO.sub(MIN_SQRT_RATIO))
+          .add(MIN_SQRT_RATIO)
+        expect(getTickAtSqrtRatio(sqrtPriceX96)).to.eq(await tickMath.getTickAtSqrtRatio(sqrtPriceX96))
+      }
+    })
+  })
+
+  describe('#nearestUsableTick', () => {
+    it('rounds to the nearest multiple of the tick spacing', () => {
+      expect(nearestUsableTick(4, 10)).to.eq(0)
+      expect(nearestUsableTick(5, 10)).to.eq(10)
+      expect(nearestUsableTick(-5, 10)).to.eq(0)
+      expect(nearestUsableTick(-6, 10)).to.eq(-10)
+      expect(nearestUsableTick(89, 60)).to.eq(60)
+      expect(nearestUsableTick(91, 60)).to.eq(120)
+    })
+
+    it('clamps to the min and max usable tick', () => {
+      for (const tickSpacing of tickSpacings) {
+        expect(nearestUsableTick(MIN_TICK, tickSpacing)).to.eq(getMinTick(tickSpacing))
+        expect(nearestUsableTick(MAX_TICK, tickSpacing)).to.eq(getMaxTick(tickSpacing))
+        expect(nearestUsableTick(getMinTick(tickSpacing), tickSpacing)).to.eq(getMinTick(tickSpacing))
+        expect(nearestUsableTick(getMaxTick(tickSpacing), tickSpacing)).to.eq(getMaxTick(tickSpacing))
+      }
+    })
+
+    it('throws for invalid inputs', () => {
+      expect(() => nearestUsableTick(MAX_TICK + 1, 10)).to.throw('invalid tick: 887273')
+      expect(() => nearestUsableTick(1.5, 10)).to.throw('invalid tick: 1.5')
+      expect(() => nearestUsableTick(0, 0)).to.throw('invalid tick spacing: 0')
+    })
+  })
+
+  describe('#priceToTick', () => {
+    it('returns the greatest tick at or below the price', () => {
+      expect(priceToTick('1')).to.eq(0)
+      // the sqrt ratio of a tick is rounded up, so its price is slightly above 1.0001^tick
+      expect(priceToTick('1.0001')).to.eq(0)
+      expect(priceToTick('1.0001000001')).to.eq(1)
+      expect(priceToTick('1.00009999')).to.eq(0)
+      expect(priceToTick('0.9999')).to.eq(-2)
+      expect(priceToTick('0.99990001')).to.eq(-1)
+    })
+
+    it('accounts for token decimals', () => {
+      // 2000 USDC per WETH, as WETH per USDC with USDC as token0 and as USDC per WETH with WETH as token0
+      expect(priceToTick('0.0005', 6, 18)).to.eq(200311)
+      expect(priceToTick('2000', 18, 6)).to.eq(-200312)
+    })
+
+    it('matches getTickAtSqrtRatio at the usable tick boundaries', () => {
+      for (const tickSpacing of tickSpacings) {
+        for (const tick of [getMinTick(tickSpacing), getMaxTick(tickSpacing)]) {
+          const price = tickToPrice(tick, 18, 18, { significantFigures: 240 })
+          expect(priceToSqrtRatioX96(price)).to.eq(getSqrtRatioAtTick(tick))
+          expect(priceToTick(price)).to.eq(tick)
+        }
+      }
+    })
+
+    it('throws for invalid prices', () => {
+      expect(() => priceToTick('-1')).to.throw('invalid price: -1')
+      expect(() => priceToTick('1e18')).to.throw('invalid price: 1e18')
+      expect(() => priceToTick('0')).to.throw('R')
+    })
+  })
+
+  describe('#tickToPrice', () => {
+    it('formats the price of the tick', () => {
+      expect(tickToPrice(0)).to.eq('1.0000')
+      expect(tickToPrice(200311, 6, 18, { invert: true })).to.eq('2000.0')
+      expect(tickToPrice(MAX_TICK)).to.eq('340260000000000000000000000000000000000')
+    })
+  })
+})
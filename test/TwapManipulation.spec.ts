@@ -0,0 +1,277 @@
+import { Fixture } from 'ethereum-waffle'
+import { BigNumberish, constants, Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import {
+  IUniswapV3Factory,
+  IUniswapV3Pool,
+  MockTimeNonfungiblePositionManager,
+  MockTimeSwapRouter,
+  TestERC20,
+  TickLens,
+} from '../typechain'
+import completeFixture from './shared/completeFixture'
+import { FeeAmount, TICK_SPACINGS } from './shared/constants'
+import { encodePriceSqrt } from './shared/encodePriceSqrt'
+import { expandTo18Decimals } from './shared/expandTo18Decimals'
+import { expect } from './shared/expect'
+import { meansFromCumulatives } from './shared/oracle'
+import poolAtAddress from './shared/poolAtAddress'
+import revertChainAfter from './shared/revertChainAfter'
+import { getMaxTick, getMinTick } from './shared/ticks'
+import { getSqrtRatioAtTick } from './shared/tickMath'
+import {
+  formatManipulationReports,
+  getManipulationReports,
+  getSpotTickShift,
+  ManipulationCost,
+} from './shared/twapManipulation'
+
+describe('TwapManipulation', function () {
+  revertChainAfter()
+
+  this.timeout(120000)
+  let wallet: Wallet
+
+  const twapManipulationFixture: Fixture<{
+    factory: IUniswapV3Factory
+    nft: MockTimeNonfungiblePositionManager
+    router: MockTimeSwapRouter
+    tokens: [TestERC20, TestERC20, TestERC20]
+    tickLens: TickLens
+  }> = async (wallets, provider) => {
+    const { factory, nft, router, tokens } = await completeFixture(wallets, provider)
+
+    for (const token of tokens) {
+      await token.approve(nft.address, constants.MaxUint256)
+      await token.approve(router.address, constants.MaxUint256)
+    }
+
+    const tickLens = (await (await ethers.getContractFactory('TickLens')).deploy()) as TickLens
+
+    return { factory, nft, router, tokens, tickLens }
+  }
+
+  let factory: IUniswapV3Factory
+  let nft: MockTimeNonfungiblePositionManager
+  let router: MockTimeSwapRouter
+  let tokens: [TestERC20, TestERC20, TestERC20]
+  let tickLens: TickLens
+
+  let loadFixture: ReturnType<typeof waffle.createFixtureLoader>
+
+  before('create fixture loader', async () => {
+    const wallets = await (ethers as any).getSigners()
+    ;[wallet] = wallets
+    loadFixture = waffle.createFixtureLoader(wallets)
+  })
+
+  beforeEach('load fixture', async () => {
+    ;({ factory, nft, router, tokens, tickLens } = await loadFixture(twapManipulationFixture))
+  })
+
+  // a 10 minute window
+  const secondsAgo = 600
+
+  // creates a pool with full range liquidity and deeper liquidity between ticks -600 and 600. the price is within tick
+  // 99, so that swapping back to it returns to the same tick
+  async function createPool(fee: FeeAmount, amount: BigNumberish): Promise<IUniswapV3Pool> {
+    await nft.createAndInitializePoolIfNecessary(tokens[0].address, tokens[1].address, fee, encodePriceSqrt(101, 100))
+    const tickSpacing = TICK_SPACINGS[fee]
+    await mint(fee, getMinTick(tickSpacing), getMaxTick(tickSpacing), amount)
+    await mint(fee, -600, 600, amount)
+
+    const pool = poolAtAddress(await factory.getPool(tokens[0].address, tokens[1].address, fee), wallet)
+    await pool.increaseObservationCardinalityNext(10)
+    return pool
+  }
+
+  async function mint(fee: FeeAmount, tickLower: number, tickUpper: number, amount: BigNumberish) {
+    await nft.mint({
+      token0: tokens[0].address,
+      token1: tokens[1].address,
+      fee,
+      tickLower,
+      tickUpper,
+      recipient: wallet.address,
+      amount0Desired: amount,
+      amount1Desired: amount,
+      amount0Min: 0,
+      amount1Min: 0,
+      deadline: 1,
+    })
+  }
+
+  async function swap(fee: FeeAmount, zeroForOne: boolean, amountIn: BigNumberish, sqrtPriceLimitX96: BigNumberish) {
+    const [tokenIn, tokenOut] = zeroForOne ? [tokens[0], tokens[1]] : [tokens[1], tokens[0]]
+    await router.exactInputSingle({
+      tokenIn: tokenIn.address,
+      tokenOut: tokenOut.address,
+      fee,
+      recipient: wallet.address,
+      deadline: 1,
+      amountIn,
+      amountOutMinimum: 0,
+      sqrtPriceLimitX96,
+    })
+  }
+
+  async function setNextBlockTimestamp(timestamp: number) {
+    await ethers.provider.send('evm_setNextBlockTimestamp', [timestamp])
+  }
+
+  // executes the manipulation through the router: swaps to the target tick, holds it for holdSeconds, swaps back to
+  // the price before, and writes an observation at the end of the window. returns the arithmetic mean tick that
+  // OracleLibrary.consult returns for the window at its end, and the balance of the token in that the first swap took
+  async function manipulate(
+    pool: IUniswapV3Pool,
+    fee: FeeAmount,
+    { zeroForOne, amountIn, sqrtPriceLimitX96 }: ManipulationCost,
+    holdSeconds: number
+  ) {
+    const { sqrtPriceX96: sqrtPriceX96Before } = await pool.slot0()
+    const tokenIn = zeroForOne ? tokens[0] : tokens[1]
+    const balanceBefore = await tokenIn.balanceOf(wallet.address)
+
+    const start = (await ethers.provider.getBlock('latest')).timestamp + 100
+    await setNextBlockTimestamp(start)
+    await swap(fee, zeroForOne, amountIn, sqrtPriceLimitX96)
+    const paid = balanceBefore.sub(await tokenIn.balanceOf(wallet.address))
+    const { tick: spotTick } = await pool.slot0()
+
+    await setNextBlockTimestamp(start + holdSeconds)
+    await swap(fee, !zeroForOne, expandTo18Decimals(100), sqrtPriceX96Before)
+    if (holdSeconds < secondsAgo) {
+      // a swap only writes an observation if it moves the tick, but a mint in range always does
+      await setNextBlockTimestamp(start + secondsAgo)
+      await mint(fee, -600, 600, 1000000)
+    }
+
+    // the observations written at the start and at the end of the window
+    const { observationCardinality } = await pool.slot0()
+    const observations = await Promise.all(
+      Array.from(Array(observationCardinality).keys()).map((index) => pool.observations(index))
+    )
+    const first = observations.find(({ blockTimestamp }) => blockTimestamp === start)!
+    const last = observations.find(({ blockTimestamp }) => blockTimestamp === start + secondsAgo)!
+    const { arithmeticMeanTick } = meansFromCumulatives(
+      secondsAgo,
+      [first.tickCumulative, last.tickCumulative],
+      [first.secondsPerLiquidityCumulativeX128, last.secondsPerLiquidityCumulativeX128]
+    )
+
+    return { arithmeticMeanTick, spotTick, paid }
+  }
+
+  describe('#getSpotTickShift', () => {
+    it('is the number of ticks when the price is held for the whole window', () => {
+      expect(getSpotTickShift({ ticks: 100, secondsAgo })).to.eq(100)
+    })
+
+    it('scales with the share of the window that the price is held for', () => {
+      expect(getSpotTickShift({ ticks: 100, secondsAgo, holdSeconds: 150 })).to.eq(400)
+      expect(getSpotTickShift({ ticks: 100, secondsAgo, holdSeconds: 7 })).to.eq(8572)
+    })
+
+    it('fails for a hold longer than the window', () => {
+      expect(() => getSpotTickShift({ ticks: 100, secondsAgo, holdSeconds: secondsAgo + 1 })).to.throw(
+        'holdSeconds must be within the window'
+      )
+    })
+  })
+
+  describe('#getManipulationReports', () => {
+    let pool: IUniswapV3Pool
+
+    beforeEach('create pool', async () => {
+      pool = await createPool(FeeAmount.MEDIUM, expandTo18Decimals(1))
+    })
+
+    for (const direction of ['up', 'down'] as const) {
+      describe(`moving the mean tick ${direction}`, () => {
+        for (const holdSeconds of [secondsAgo, secondsAgo / 4]) {
+          it(`moves the mean tick by the ticks when held for ${holdSeconds} seconds`, async () => {
+            const ticks = 200
+            const [report] = await getManipulationReports([pool], tickLens, { ticks, secondsAgo, holdSeconds })
+            const cost = report[direction]
+            expect(report.spotTickShift).to.eq((ticks * secondsAgo) / holdSeconds)
+            expect(cost.feasible).to.be.true
+
+            const { arithmeticMeanTick, spotTick, paid } = await manipulate(pool, FeeAmount.MEDIUM, cost, holdSeconds)
+
+            expect(paid).to.eq(cost.amountIn)
+            if (direction === 'up') {
+              expect(spotTick).to.eq(cost.targetTick)
+              expect(arithmeticMeanTick - report.tick).to.be.gte(ticks)
+            } else {
+              expect(spotTick).to.be.lte(cost.targetTick)
+              expect(report.tick - arithmeticMeanTick).to.be.gte(ticks)
+            }
+          })
+        }
+
+        it('does not reach the target tick with less capital', async () => {
+          const [report] = await getManipulationReports([pool], tickLens, { ticks: 200, secondsAgo })
+          const { zeroForOne, amountIn, sqrtPriceLimitX96 } = report[direction]
+
+          await swap(FeeAmount.MEDIUM, zeroForOne, amountIn.mul(99).div(100), 0)
+
+          const { sqrtPriceX96 } = await pool.slot0()
+          if (direction === 'up') expect(sqrtPriceX96).to.be.lt(sqrtPriceLimitX96)
+          else expect(sqrtPriceX96).to.be.gt(sqrtPriceLimitX96)
+        })
+      })
+    }
+
+    it('crosses the ticks of the liquidity distribution', async () => {
+      // the spot tick moves past the deeper liquidity that ends at tick 600
+      const [report] = await getManipulationReports([pool], tickLens, { ticks: 200, secondsAgo, holdSeconds: 100 })
+      expect(report.up.targetTick).to.eq(report.tick + 1200)
+
+      const { spotTick, paid } = await manipulate(pool, FeeAmount.MEDIUM, report.up, 100)
+
+      expect(spotTick).to.eq(report.tick + 1200)
+      expect(paid).to.eq(report.up.amountIn)
+    })
+
+    it('loses the fee and the price impact if the price returns', async () => {
+      const [report] = await getManipulationReports([pool], tickLens, { ticks: 200, secondsAgo })
+
+      for (const cost of [report.up, report.down]) {
+        expect(cost.loss).to.be.gt(0)
+        expect(cost.loss).to.be.lt(cost.amountIn)
+      }
+    })
+
+    it('reports the cheaper fee tier with less liquidity', async () => {
+      const lowPool = await createPool(FeeAmount.LOW, expandTo18Decimals(1).div(10))
+
+      const [medium, low] = await getManipulationReports([pool, lowPool], tickLens, { ticks: 100, secondsAgo })
+
+      expect(medium.fee).to.eq(FeeAmount.MEDIUM)
+      expect(low.fee).to.eq(FeeAmount.LOW)
+      expect(low.up.amountIn).to.be.lt(medium.up.amountIn)
+      expect(low.down.amountIn).to.be.lt(medium.down.amountIn)
+    })
+
+    it('reports a move past the bound of the pool as infeasible', async () => {
+      const [report] = await getManipulationReports([pool], tickLens, { ticks: 100, secondsAgo, holdSeconds: 60 })
+      expect(report.up.feasible).to.be.true
+
+      const [bounded] = await getManipulationReports([pool], tickLens, { ticks: 900000, secondsAgo })
+      expect(bounded.up.feasible).to.be.false
+      expect(bounded.up.sqrtPriceLimitX96).to.eq(getSqrtRatioAtTick(887271))
+      expect(bounded.down.feasible).to.be.false
+    })
+
+    it('formats one line per pool', async () => {
+      const [report] = await getManipulationReports([pool], tickLens, { ticks: 100, secondsAgo })
+      const { up, down } = report
+      expect(report.tick).to.eq(99)
+      const line =
+        `${pool.address} fee 3000 at tick 99, spot shift 100: ` +
+        `up to tick 199 for ${up.amountIn.toString()} token1 (loss ${up.loss.toString()}), ` +
+        `down to tick -1 for ${down.amountIn.toString()} token0 (loss ${down.loss.toString()})`
+      expect(formatManipulationReports([report, report])).to.eq(`${line}\n${line}`)
+    })
+  })
+})
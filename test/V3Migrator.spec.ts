@@ -1,5 +1,5 @@
 import { Fixture } from 'ethereum-waffle'
-import { constants, Contract, Wallet } from 'ethers'
+import { BigNumber, BigNumberish, constants, Contract, Wallet } from 'ethers'
 import { ethers, waffle } from 'hardhat'
 import {
   IUniswapV2Pair,
@@ -14,11 +14,14 @@ import { v2FactoryFixture } from './shared/externalFixtures'
 
 import { abi as PAIR_V2_ABI } from '@uniswap/v2-core/build/UniswapV2Pair.json'
 import { expect } from 'chai'
-import { FeeAmount } from './shared/constants'
+import { FeeAmount, TICK_SPACINGS } from './shared/constants'
 import { encodePriceSqrt } from './shared/encodePriceSqrt'
+import { expandTo18Decimals } from './shared/expandTo18Decimals'
 import snapshotGasCost from './shared/snapshotGasCost'
+import { getPermitSignature } from './shared/permit'
 import { sortedTokens } from './shared/tokenSort'
 import { getMaxTick, getMinTick } from './shared/ticks'
+import { MAX_SQRT_RATIO, MIN_SQRT_RATIO } from './shared/tickMath'
 
 describe('V3Migrator', () => {
   let wallet: Wallet
@@ -27,6 +30,7 @@ describe('V3Migrator', () => {
     factoryV2: Contract
     factoryV3: IUniswapV3Factory
     token: TestERC20
+    otherToken: TestERC20
     weth9: IWETH9
     nft: MockTimeNonfungiblePositionManager
     migrator: V3Migrator
@@ -35,7 +39,7 @@ describe('V3Migrator', () => {
 
     const { factory: factoryV2 } = await v2FactoryFixture(wallets, provider)
 
-    const token = tokens[0]
+    const [token, otherToken] = tokens
     await token.approve(factoryV2.address, constants.MaxUint256)
     await weth9.deposit({ value: 10000 })
     await weth9.approve(nft.address, constants.MaxUint256)
@@ -51,6 +55,7 @@ describe('V3Migrator', () => {
       factoryV2,
       factoryV3: factory,
       token,
+      otherToken,
       weth9,
       nft,
       migrator,
@@ -60,6 +65,7 @@ describe('V3Migrator', () => {
   let factoryV2: Contract
   let factoryV3: IUniswapV3Factory
   let token: TestERC20
+  let otherToken: TestERC20
   let weth9: IWETH9
   let nft: MockTimeNonfungiblePositionManager
   let migrator: V3Migrator
@@ -77,7 +83,7 @@ describe('V3Migrator', () => {
   })
 
   beforeEach('load fixture', async () => {
-    ;({ factoryV2, factoryV3, token, weth9, nft, migrator } = await loadFixture(migratorFixture))
+    ;({ factoryV2, factoryV3, token, otherToken, weth9, nft, migrator } = await loadFixture(migratorFixture))
   })
 
   beforeEach('add V2 liquidity', async () => {
@@ -97,15 +103,19 @@ describe('V3Migrator', () => {
 
   afterEach('ensure allowances are cleared', async () => {
     const allowanceToken = await token.allowance(migrator.address, nft.address)
+    const allowanceOtherToken = await otherToken.allowance(migrator.address, nft.address)
     const allowanceWETH9 = await weth9.allowance(migrator.address, nft.address)
     expect(allowanceToken).to.be.eq(0)
+    expect(allowanceOtherToken).to.be.eq(0)
     expect(allowanceWETH9).to.be.eq(0)
   })
 
   afterEach('ensure balances are cleared', async () => {
     const balanceToken = await token.balanceOf(migrator.address)
+    const balanceOtherToken = await otherToken.balanceOf(migrator.address)
     const balanceWETH9 = await weth9.balanceOf(migrator.address)
     expect(balanceToken).to.be.eq(0)
+    expect(balanceOtherToken).to.be.eq(0)
     expect(balanceWETH9).to.be.eq(0)
   })
 
@@ -443,4 +453,354 @@ describe('V3Migrator', () => {
       )
     })
   })
+
+  describe('#migrateBatch', () => {
+    let otherPair: IUniswapV2Pair
+
+    beforeEach('add V2 liquidity to another pair', async () => {
+      await factoryV2.createPair(token.address, otherToken.address)
+      otherPair = new ethers.Contract(
+        await factoryV2.getPair(token.address, otherToken.address),
+        PAIR_V2_ABI,
+        wallet
+      ) as IUniswapV2Pair
+
+      await token.transfer(otherPair.address, 10000)
+      await otherToken.transfer(otherPair.address, 10000)
+      await otherPair.mint(wallet.address)
+    })
+
+    beforeEach('initialize the v3 pools', async () => {
+      for (const [tokenA, tokenB] of [
+        [token, weth9],
+        [token, otherToken],
+      ]) {
+        const [token0, token1] = sortedTokens(tokenA, tokenB)
+        await migrator.createAndInitializePoolIfNecessary(
+          token0.address,
+          token1.address,
+          FeeAmount.MEDIUM,
+          encodePriceSqrt(1, 1)
+        )
+      }
+    })
+
+    function migrateParams(v2Pair: IUniswapV2Pair, tokenA: { address: string }, tokenB: { address: string }) {
+      const [token0, token1] = sortedTokens(tokenA, tokenB)
+      return {
+        pair: v2Pair.address,
+        liquidityToMigrate: expectedLiquidity,
+        percentageToMigrate: 100,
+        token0: token0.address,
+        token1: token1.address,
+        fee: FeeAmount.MEDIUM,
+        tickLower: getMinTick(FeeAmount.MEDIUM),
+        tickUpper: getMaxTick(FeeAmount.MEDIUM),
+        amount0Min: 9000,
+        amount1Min: 9000,
+        recipient: wallet.address,
+        deadline: 1,
+        refundAsETH: false,
+      }
+    }
+
+    async function migrateWithPermitParams(
+      v2Pair: IUniswapV2Pair,
+      tokenA: { address: string },
+      tokenB: { address: string }
+    ) {
+      const { v, r, s } = await getPermitSignature(
+        wallet,
+        v2Pair,
+        migrator.address,
+        expectedLiquidity,
+        constants.MaxUint256
+      )
+      return { migrate: migrateParams(v2Pair, tokenA, tokenB), permitDeadline: constants.MaxUint256, v, r, s }
+    }
+
+    function migrateWithoutPermitParams(
+      v2Pair: IUniswapV2Pair,
+      tokenA: { address: string },
+      tokenB: { address: string }
+    ) {
+      return {
+        migrate: migrateParams(v2Pair, tokenA, tokenB),
+        permitDeadline: 0,
+        v: 0,
+        r: constants.HashZero,
+        s: constants.HashZero,
+      }
+    }
+
+    it('migrates multiple pairs with permits', async () => {
+      const params = [
+        await migrateWithPermitParams(pair, token, weth9),
+        await migrateWithPermitParams(otherPair, token, otherToken),
+      ]
+
+      const tokenIds = await migrator.callStatic.migrateBatch(params)
+      expect(tokenIds.map((tokenId) => tokenId.toNumber())).to.deep.eq([1, 2])
+      await migrator.migrateBatch(params)
+
+      expect(await pair.balanceOf(wallet.address)).to.be.eq(0)
+      expect(await otherPair.balanceOf(wallet.address)).to.be.eq(0)
+      for (const tokenId of tokenIds) {
+        const position = await nft.positions(tokenId)
+        expect(position.liquidity).to.be.eq(9000)
+      }
+      expect((await nft.positions(1)).token1).to.be.eq(sortedTokens(token, weth9)[1].address)
+      expect((await nft.positions(2)).token1).to.be.eq(sortedTokens(token, otherToken)[1].address)
+    })
+
+    it('migrates pairs that are already approved without permits', async () => {
+      await pair.approve(migrator.address, expectedLiquidity)
+      const params = [
+        migrateWithoutPermitParams(pair, token, weth9),
+        await migrateWithPermitParams(otherPair, token, otherToken),
+      ]
+
+      await migrator.migrateBatch(params)
+
+      expect((await nft.positions(1)).liquidity).to.be.eq(9000)
+      expect((await nft.positions(2)).liquidity).to.be.eq(9000)
+    })
+
+    it('migrates pairs whose permits are front-run', async () => {
+      const params = [
+        await migrateWithPermitParams(pair, token, weth9),
+        await migrateWithPermitParams(otherPair, token, otherToken),
+      ]
+      const { permitDeadline, v, r, s } = params[0]
+      await pair.permit(wallet.address, migrator.address, expectedLiquidity, permitDeadline, v, r, s)
+
+      await migrator.migrateBatch(params)
+
+      expect((await nft.positions(1)).liquidity).to.be.eq(9000)
+      expect((await nft.positions(2)).liquidity).to.be.eq(9000)
+    })
+
+    it('fails if a pair is not approved', async () => {
+      await expect(
+        migrator.migrateBatch([
+          await migrateWithPermitParams(pair, token, weth9),
+          migrateWithoutPermitParams(otherPair, token, otherToken),
+        ])
+      ).to.be.reverted
+    })
+
+    it('fails atomically if any slippage check fails', async () => {
+      const params = [
+        await migrateWithPermitParams(pair, token, weth9),
+        await migrateWithPermitParams(otherPair, token, otherToken),
+      ]
+      params[1].migrate.amount0Min = 9001
+
+      await expect(migrator.migrateBatch(params)).to.be.revertedWith('Price slippage check')
+
+      // the first migration is reverted with the second
+      expect(await pair.balanceOf(wallet.address)).to.be.eq(expectedLiquidity)
+      expect(await pair.allowance(wallet.address, migrator.address)).to.be.eq(0)
+      await expect(nft.positions(1)).to.be.revertedWith('Invalid token ID')
+    })
+
+    it('gas', async () => {
+      await snapshotGasCost(
+        migrator.migrateBatch([
+          await migrateWithPermitParams(pair, token, weth9),
+          await migrateWithPermitParams(otherPair, token, otherToken),
+        ])
+      )
+    })
+  })
+
+  describe('#migrateWithRange', () => {
+    let tokenLower: boolean
+    beforeEach(() => {
+      tokenLower = token.address.toLowerCase() < weth9.address.toLowerCase()
+    })
+
+    function migrateWithRangeParams({
+      width = 600,
+      initializePool = false,
+      sqrtPriceX96Min = MIN_SQRT_RATIO,
+      sqrtPriceX96Max = MAX_SQRT_RATIO,
+      refundAsETH = false,
+    }: {
+      width?: number
+      initializePool?: boolean
+      sqrtPriceX96Min?: BigNumberish
+      sqrtPriceX96Max?: BigNumberish
+      refundAsETH?: boolean
+    } = {}) {
+      return {
+        pair: pair.address,
+        liquidityToMigrate: expectedLiquidity,
+        percentageToMigrate: 100,
+        token0: tokenLower ? token.address : weth9.address,
+        token1: tokenLower ? weth9.address : token.address,
+        fee: FeeAmount.MEDIUM,
+        width,
+        initializePool,
+        sqrtPriceX96Min,
+        sqrtPriceX96Max,
+        recipient: wallet.address,
+        deadline: 1,
+        refundAsETH,
+      }
+    }
+
+    // initializes the v3 pool at a price other than the v2 price
+    async function initializePool(price: BigNumber) {
+      const [token0, token1] = sortedTokens(weth9, token)
+      await migrator.createAndInitializePoolIfNecessary(token0.address, token1.address, FeeAmount.MEDIUM, price)
+    }
+
+    // adds liquidity deep enough that the swap to the ratio of the range barely moves the price
+    async function initializePoolWithLiquidity(price: BigNumber) {
+      await initializePool(price)
+
+      const [token0, token1] = sortedTokens(weth9, token)
+      await weth9.deposit({ value: expandTo18Decimals(1) })
+      await token.approve(nft.address, constants.MaxUint256)
+      await nft.mint({
+        token0: token0.address,
+        token1: token1.address,
+        fee: FeeAmount.MEDIUM,
+        tickLower: getMinTick(TICK_SPACINGS[FeeAmount.MEDIUM]),
+        tickUpper: getMaxTick(TICK_SPACINGS[FeeAmount.MEDIUM]),
+        recipient: wallet.address,
+        amount0Desired: expandTo18Decimals(1),
+        amount1Desired: expandTo18Decimals(1),
+        amount0Min: 0,
+        amount1Min: 0,
+        deadline: 1,
+      })
+    }
+
+    it('fails if v3 pool does not exist', async () => {
+      await pair.approve(migrator.address, expectedLiquidity)
+      await expect(migrator.migrateWithRange(migrateWithRangeParams())).to.be.reverted
+    })
+
+    it('creates and initializes the pool at the v2 price', async () => {
+      await pair.approve(migrator.address, expectedLiquidity)
+      const params = migrateWithRangeParams({ initializePool: true })
+      const { tokenId, tickLower, tickUpper, liquidity } = await migrator.callStatic.migrateWithRange(params)
+      await migrator.migrateWithRange(params)
+
+      const pool = await ethers.getContractAt(
+        'IUniswapV3Pool',
+        await factoryV3.getPool(token.address, weth9.address, FeeAmount.MEDIUM)
+      )
+      expect((await pool.slot0()).sqrtPriceX96).to.eq(encodePriceSqrt(1, 1))
+
+      const position = await nft.positions(tokenId)
+      expect([position.tickLower, position.tickUpper]).to.deep.eq([-300, 300])
+      expect([tickLower, tickUpper]).to.deep.eq([-300, 300])
+      expect(position.liquidity).to.eq(liquidity)
+      expect(await token.balanceOf(pool.address)).to.be.gte(8999)
+      expect(await weth9.balanceOf(pool.address)).to.be.gte(8999)
+    })
+
+    it('swaps the excess into a range around the v3 price', async () => {
+      await initializePoolWithLiquidity(encodePriceSqrt(2, 1))
+
+      const tokenBalanceBefore = await token.balanceOf(wallet.address)
+      const weth9BalanceBefore = await weth9.balanceOf(wallet.address)
+
+      await pair.approve(migrator.address, expectedLiquidity)
+      const params = migrateWithRangeParams()
+      const { tokenId, tickLower, tickUpper, liquidity } = await migrator.callStatic.migrateWithRange(params)
+      await migrator.migrateWithRange(params)
+
+      // the tick of the price of 2 is 6931, and the range is centered on the tick spacing below it
+      expect([tickLower, tickUpper]).to.deep.eq([6600, 7200])
+      const position = await nft.positions(tokenId)
+      expect(position.liquidity).to.eq(liquidity)
+
+      // only dust of what was burned is refunded
+      const refundToken = (await token.balanceOf(wallet.address)).sub(tokenBalanceBefore)
+      const refundWETH9 = (await weth9.balanceOf(wallet.address)).sub(weth9BalanceBefore)
+      expect(refundToken.add(refundWETH9)).to.be.lt(100)
+    })
+
+    it('skips the swap if the v3 pool has no liquidity', async () => {
+      await initializePool(encodePriceSqrt(2, 1))
+
+      const tokenBalanceBefore = await token.balanceOf(wallet.address)
+      const weth9BalanceBefore = await weth9.balanceOf(wallet.address)
+
+      // the amounts hold too much token0 for the range, which is refunded
+      await pair.approve(migrator.address, expectedLiquidity)
+      await migrator.migrateWithRange(migrateWithRangeParams())
+
+      const refundToken = (await token.balanceOf(wallet.address)).sub(tokenBalanceBefore)
+      const refundWETH9 = (await weth9.balanceOf(wallet.address)).sub(weth9BalanceBefore)
+      expect(tokenLower ? refundToken : refundWETH9).to.be.gt(1000)
+      expect(tokenLower ? refundWETH9 : refundToken).to.be.lt(100)
+    })
+
+    it('refunds as ETH', async () => {
+      // WETH9 is left over as token0 above a price of 1, or as token1 below it
+      await initializePool(tokenLower ? encodePriceSqrt(1, 2) : encodePriceSqrt(2, 1))
+
+      const weth9BalanceBefore = await weth9.balanceOf(wallet.address)
+      await pair.approve(migrator.address, expectedLiquidity)
+      await expect(migrator.migrateWithRange(migrateWithRangeParams({ refundAsETH: true }))).to.emit(
+        weth9,
+        'Withdrawal'
+      )
+      expect(await weth9.balanceOf(wallet.address)).to.eq(weth9BalanceBefore)
+    })
+
+    it('fails if the v2 price is out of bounds', async () => {
+      await pair.approve(migrator.address, expectedLiquidity)
+      await expect(
+        migrator.migrateWithRange(
+          migrateWithRangeParams({ initializePool: true, sqrtPriceX96Min: encodePriceSqrt(1, 1).add(1) })
+        )
+      ).to.be.revertedWith('V2 price slippage check')
+      await expect(
+        migrator.migrateWithRange(
+          migrateWithRangeParams({ initializePool: true, sqrtPriceX96Max: encodePriceSqrt(1, 1).sub(1) })
+        )
+      ).to.be.revertedWith('V2 price slippage check')
+    })
+
+    it('fails if the v3 price is out of bounds', async () => {
+      await initializePoolWithLiquidity(encodePriceSqrt(2, 1))
+
+      await pair.approve(migrator.address, expectedLiquidity)
+      await expect(
+        migrator.migrateWithRange(migrateWithRangeParams({ sqrtPriceX96Max: encodePriceSqrt(3, 2) }))
+      ).to.be.revertedWith('V3 price slippage check')
+    })
+
+    it('fails if the width is not a multiple of the tick spacing', async () => {
+      await pair.approve(migrator.address, expectedLiquidity)
+      await expect(
+        migrator.migrateWithRange(migrateWithRangeParams({ width: 90, initializePool: true }))
+      ).to.be.revertedWith('Invalid width')
+      await expect(
+        migrator.migrateWithRange(migrateWithRangeParams({ width: 0, initializePool: true }))
+      ).to.be.revertedWith('Invalid width')
+    })
+
+    it('clamps the range to the usable ticks', async () => {
+      await pair.approve(migrator.address, expectedLiquidity)
+      const { tickLower, tickUpper } = await migrator.callStatic.migrateWithRange(
+        migrateWithRangeParams({ width: 1_800_000, initializePool: true })
+      )
+      expect(tickLower).to.eq(getMinTick(TICK_SPACINGS[FeeAmount.MEDIUM]))
+      expect(tickUpper).to.eq(getMaxTick(TICK_SPACINGS[FeeAmount.MEDIUM]))
+    })
+
+    it('gas', async () => {
+      await initializePoolWithLiquidity(encodePriceSqrt(2, 1))
+
+      await pair.approve(migrator.address, expectedLiquidity)
+      await snapshotGasCost(migrator.migrateWithRange(migrateWithRangeParams()))
+    })
+  })
 })
@@ -0,0 +1,455 @@
+import { Fixture } from 'ethereum-waffle'
+import { BigNumberish, constants, Wallet } from 'ethers'
+import { ethers, waffle } from 'hardhat'
+import {
+  IUniswapV3Pool,
+  IWETH9,
+  MockTimeNonfungiblePositionManager,
+  SwapRouter,
+  TestERC20,
+  TickLens,
+  Zap,
+} from '../typechain'
+import completeFixture from './shared/completeFixture'
+import { computePoolAddress } from './shared/computePoolAddress'
+import { FeeAmount, TICK_SPACINGS } from './shared/constants'
+import { encodePriceSqrt } from './shared/encodePriceSqrt'
+import { expandTo18Decimals } from './shared/expandTo18Decimals'
+import { expect } from './shared/expect'
+import getPermitNFTSignature from './shared/getPermitNFTSignature'
+import { encodePath } from './shared/path'
+import { fetchPositionValueInputs } from './shared/positionValue'
+import revertChainAfter from './shared/revertChainAfter'
+import snapshotGasCost from './shared/snapshotGasCost'
+import { fetchPoolState } from './shared/swapSimulator'
+import { getMaxTick, getMinTick } from './shared/ticks'
+import { simulateZapIn, simulateZapOut } from './shared/zap'
+
+describe('Zap', () => {
+  revertChainAfter()
+
+  let wallets: Wallet[]
+  let wallet: Wallet, other: Wallet
+
+  const zapFixture: Fixture<{
+    weth9: IWETH9
+    factory: string
+    nft: MockTimeNonfungiblePositionManager
+    router: SwapRouter
+    tokens: [TestERC20, TestERC20, TestERC20]
+    tickLens: TickLens
+    zap: Zap
+  }> = async (wallets, provider) => {
+    const { weth9, factory, tokens, nft, router } = await completeFixture(wallets, provider)
+
+    for (const token of [...tokens, weth9]) {
+      await token.approve(nft.address, constants.MaxUint256)
+    }
+
+    const tickLensFactory = await ethers.getContractFactory('TickLens')
+    const tickLens = (await tickLensFactory.deploy()) as TickLens
+    const zapFactory = await ethers.getContractFactory('Zap')
+    const zap = (await zapFactory.deploy(factory.address, weth9.address, nft.address, router.address)) as Zap
+
+    for (const token of [...tokens, weth9]) {
+      await token.approve(zap.address, constants.MaxUint256)
+    }
+
+    return {
+      weth9,
+      factory: factory.address,
+      nft,
+      router,
+      tokens,
+      tickLens,
+      zap,
+    }
+  }
+
+  let weth9: IWETH9
+  let factory: string
+  let nft: MockTimeNonfungiblePositionManager
+  let router: SwapRouter
+  let tokens: [TestERC20, TestERC20, TestERC20]
+  let tickLens: TickLens
+  let zap: Zap
+
+  let loadFixture: ReturnType<typeof waffle.createFixtureLoader>
+
+  before('create fixture loader', async () => {
+    wallets = await (ethers as any).getSigners()
+    ;[wallet, other] = wallets
+    loadFixture = waffle.createFixtureLoader(wallets)
+  })
+
+  async function createPool(tokenAddressA: string, tokenAddressB: string, amount: BigNumberish) {
+    const [token0, token1] =
+      tokenAddressA.toLowerCase() < tokenAddressB.toLowerCase()
+        ? [tokenAddressA, tokenAddressB]
+        : [tokenAddressB, tokenAddressA]
+    await nft.createAndInitializePoolIfNecessary(token0, token1, FeeAmount.MEDIUM, encodePriceSqrt(1, 1))
+    await nft.mint({
+      token0,
+      token1,
+      fee: FeeAmount.MEDIUM,
+      tickLower: getMinTick(TICK_SPACINGS[FeeAmount.MEDIUM]),
+      tickUpper: getMaxTick(TICK_SPACINGS[FeeAmount.MEDIUM]),
+      recipient: wallet.address,
+      amount0Desired: amount,
+      amount1Desired: amount,
+      amount0Min: 0,
+      amount1Min: 0,
+      deadline: 1,
+    })
+  }
+
+  function getPool(tokenA: string, tokenB: string): Promise<IUniswapV3Pool> {
+    return ethers.getContractAt(
+      'IUniswapV3Pool',
+      computePoolAddress(factory, [tokenA, tokenB], FeeAmount.MEDIUM)
+    ) as Promise<IUniswapV3Pool>
+  }
+
+  beforeEach('load fixture', async () => {
+    ;({ weth9, factory, nft, router, tokens, tickLens, zap } = await loadFixture(zapFixture))
+    await createPool(tokens[0].address, tokens[1].address, expandTo18Decimals(1_000_000))
+  })
+
+  function zapInParams(
+    tokenIn: string,
+    tickLower: number,
+    tickUpper: number,
+    liquidityMin: BigNumberish = 0,
+    [token0, token1] = [tokens[0].address, tokens[1].address]
+  ) {
+    return {
+      token0,
+      token1,
+      fee: FeeAmount.MEDIUM,
+      tickLower,
+      tickUpper,
+      tokenIn,
+      amountIn: expandTo18Decimals(10),
+      liquidityMin,
+      recipient: other.address,
+      deadline: 1,
+    }
+  }
+
+  describe('#zapIn', () => {
+    // the ranges below, around and above the price of 1 that the pool starts at
+    const ranges: { [name: string]: [number, number] } = {
+      'below the price': [-1200, -600],
+      'around the price': [-600, 600],
+      'above the price': [600, 1200],
+    }
+
+    for (const [name, [tickLower, tickUpper]] of Object.entries(ranges)) {
+      for (const index of [0, 1]) {
+        it(`matches the simulation for a range ${name} from token${index}`, async () => {
+          const tokenIn = tokens[index].address
+          const pool = await getPool(tokens[0].address, tokens[1].address)
+          const simulation = simulateZapIn(await fetchPoolState(pool, tickLens), {
+            tickLower,
+            tickUpper,
+            tokenIn,
+            amountIn: expandTo18Decimals(10),
+          })
+          const [balance0Before, balance1Before] = await Promise.all([
+            tokens[0].balanceOf(wallet.address),
+            tokens[1].balanceOf(wallet.address),
+          ])
+
+          const tokenId = (await nft.totalSupply()).add(1)
+          await expect(zap.zapIn(zapInParams(tokenIn, tickLower, tickUpper)))
+            .to.emit(zap, 'ZappedIn')
+            .withArgs(tokenId, tokenIn, expandTo18Decimals(10), simulation.liquidity)
+
+          expect(await nft.ownerOf(tokenId)).to.eq(other.address)
+          const position = await nft.positions(tokenId)
+          expect(position.liquidity).to.eq(simulation.liquidity)
+
+          // the payer paid the amount in, less the dust that was refunded
+          const spent0 = balance0Before.sub(await tokens[0].balanceOf(wallet.address))
+          const spent1 = balance1Before.sub(await tokens[1].balanceOf(wallet.address))
+          expect(index === 0 ? spent0 : spent1).to.eq(
+            expandTo18Decimals(10).sub(index === 0 ? simulation.refund0 : simulation.refund1)
+          )
+          expect(index === 0 ? spent1 : spent0).to.eq(
+            index === 0 ? simulation.refund1.mul(-1) : simulation.refund0.mul(-1)
+          )
+
+          // nothing is left behind in the zap
+          for (const token of [tokens[0], tokens[1]]) {
+            expect(await token.balanceOf(zap.address)).to.eq(0)
+            expect(await token.allowance(zap.address, nft.address)).to.eq(0)
+            expect(await token.allowance(zap.address, router.address)).to.eq(0)
+          }
+        })
+      }
+    }
+
+    it('swaps nothing for a range that only takes the token in', async () => {
+      const simulation = simulateZapIn(
+        await fetchPoolState(await getPool(tokens[0].address, tokens[1].address), tickLens),
+        { tickLower: 600, tickUpper: 1200, tokenIn: tokens[0].address, amountIn: expandTo18Decimals(10) }
+      )
+      expect(simulation.amountIn).to.eq(0)
+      expect(simulation.amount1).to.eq(0)
+    })
+
+    it('swaps everything for a range that only takes the other token', async () => {
+      const simulation = simulateZapIn(
+        await fetchPoolState(await getPool(tokens[0].address, tokens[1].address), tickLens),
+        { tickLower: -1200, tickUpper: -600, tokenIn: tokens[0].address, amountIn: expandTo18Decimals(10) }
+      )
+      expect(simulation.zeroForOne).to.eq(true)
+      expect(simulation.amountIn).to.eq(expandTo18Decimals(10))
+      expect(simulation.amount0).to.eq(0)
+    })
+
+    it('leaves little dust for a range around the price', async () => {
+      const { amount0, amount1, refund0, refund1 } = simulateZapIn(
+        await fetchPoolState(await getPool(tokens[0].address, tokens[1].address), tickLens),
+        { tickLower: -600, tickUpper: 600, tokenIn: tokens[0].address, amountIn: expandTo18Decimals(10) }
+      )
+      expect(refund0.add(refund1).mul(1000)).to.be.lt(amount0.add(amount1))
+    })
+
+    it('mints from ETH', async () => {
+      await weth9.deposit({ value: expandTo18Decimals(1_000) })
+      await createPool(tokens[0].address, weth9.address, expandTo18Decimals(1_000))
+      const [token0, token1] =
+        tokens[0].address.toLowerCase() < weth9.address.toLowerCase()
+          ? [tokens[0].address, weth9.address]
+          : [weth9.address, tokens[0].address]
+      const params = zapInParams(weth9.address, -600, 600, 0, [token0, token1])
+      const balanceWETH9Before = await weth9.balanceOf(wallet.address)
+
+      await expect(
+        zap.multicall(
+          [zap.interface.encodeFunctionData('zapIn', [params]), zap.interface.encodeFunctionData('refundETH')],
+          { value: expandTo18Decimals(11) }
+        )
+      ).to.emit(zap, 'ZappedIn')
+
+      // the payment is wrapped rather than pulled, and the extra ETH is refunded
+      expect(await weth9.balanceOf(wallet.address)).to.eq(balanceWETH9Before)
+      expect(await ethers.provider.getBalance(zap.address)).to.eq(0)
+      expect(await weth9.balanceOf(zap.address)).to.eq(0)
+    })
+
+    it('refunds the dust of WETH9 in ETH to a payer that sends ETH', async () => {
+      await weth9.deposit({ value: expandTo18Decimals(1_000) })
+      await createPool(tokens[0].address, weth9.address, expandTo18Decimals(1_000))
+      const [token0, token1] =
+        tokens[0].address.toLowerCase() < weth9.address.toLowerCase()
+          ? [tokens[0].address, weth9.address]
+          : [weth9.address, tokens[0].address]
+      const simulation = simulateZapIn(await fetchPoolState(await getPool(token0, token1), tickLens), {
+        tickLower: -600,
+        tickUpper: 600,
+        tokenIn: tokens[0].address,
+        amountIn: expandTo18Decimals(10),
+      })
+      const dust = token0 === weth9.address ? simulation.refund0 : simulation.refund1
+      expect(dust).to.be.gt(0)
+      const balanceWETH9Before = await weth9.balanceOf(wallet.address)
+      const balanceBefore = await ethers.provider.getBalance(wallet.address)
+
+      const tx = await zap.multicall(
+        [
+          zap.interface.encodeFunctionData('zapIn', [zapInParams(tokens[0].address, -600, 600, 0, [token0, token1])]),
+          zap.interface.encodeFunctionData('refundETH'),
+        ],
+        { value: 1 }
+      )
+
+      const { gasUsed } = await tx.wait()
+      expect(await weth9.balanceOf(wallet.address)).to.eq(balanceWETH9Before)
+      expect(await ethers.provider.getBalance(wallet.address)).to.eq(
+        balanceBefore.sub(gasUsed.mul(tx.gasPrice)).add(dust)
+      )
+      expect(await ethers.provider.getBalance(zap.address)).to.eq(0)
+      expect(await weth9.balanceOf(zap.address)).to.eq(0)
+    })
+
+    it('fails for a token that is not in the pool', async () => {
+      await expect(zap.zapIn(zapInParams(tokens[2].address, -600, 600))).to.be.revertedWith('Invalid token')
+    })
+
+    it('fails if the liquidity is less than the minimum', async () => {
+      const { liquidity } = await zap.callStatic.zapIn(zapInParams(tokens[0].address, -600, 600))
+      await expect(zap.zapIn(zapInParams(tokens[0].address, -600, 600, liquidity.add(1)))).to.be.revertedWith(
+        'Price slippage check'
+      )
+      await zap.zapIn(zapInParams(tokens[0].address, -600, 600, liquidity))
+    })
+
+    it('gas', async () => {
+      await snapshotGasCost(zap.zapIn(zapInParams(tokens[0].address, -600, 600)))
+    })
+  })
+
+  describe('#zapOut', () => {
+    // the position that is withdrawn from, minted after the position providing the depth of the pool
+    const tokenId = 2
+
+    async function mintPosition(token0: string, token1: string) {
+      await nft.mint({
+        token0,
+        token1,
+        fee: FeeAmount.MEDIUM,
+        tickLower: -600,
+        tickUpper: 600,
+        recipient: wallet.address,
+        amount0Desired: expandTo18Decimals(10),
+        amount1Desired: expandTo18Decimals(10),
+        amount0Min: 0,
+        amount1Min: 0,
+        deadline: 1,
+      })
+    }
+
+    beforeEach('mint a position with fees', async () => {
+      await mintPosition(tokens[0].address, tokens[1].address)
+      for (const [tokenIn, tokenOut] of [
+        [tokens[0], tokens[1]],
+        [tokens[1], tokens[0]],
+      ]) {
+        await tokenIn.approve(router.address, constants.MaxUint256)
+        await router.exactInput({
+          recipient: wallet.address,
+          deadline: 1,
+          path: encodePath([tokenIn.address, tokenOut.address], [FeeAmount.MEDIUM]),
+          amountIn: expandTo18Decimals(1_000),
+          amountOutMinimum: 0,
+        })
+      }
+      await nft.setApprovalForAll(zap.address, true)
+    })
+
+    function zapOutParams(
+      tokenOut: string,
+      percentageToRemove: number = 100,
+      amountOutMinimum: BigNumberish = 0,
+      unwrapETH: boolean = false,
+      id: number = tokenId
+    ) {
+      return {
+        tokenId: id,
+        percentageToRemove,
+        tokenOut,
+        amountOutMinimum,
+        recipient: other.address,
+        deadline: 1,
+        unwrapETH,
+      }
+    }
+
+    async function simulate(id: number, tokenOut: string, percentageToRemove: number) {
+      const { position, poolFeeGrowth } = await fetchPositionValueInputs(nft, id)
+      const pool = await getPool(position.token0, position.token1)
+      return simulateZapOut(await fetchPoolState(pool, tickLens), position, poolFeeGrowth, {
+        percentageToRemove,
+        tokenOut,
+      })
+    }
+
+    for (const percentageToRemove of [50, 100]) {
+      for (const index of [0, 1]) {
+        it(`matches the simulation for ${percentageToRemove}% into token${index}`, async () => {
+          const tokenOut = tokens[index].address
+          const { liquidity, amountIn, amountOut } = await simulate(tokenId, tokenOut, percentageToRemove)
+          expect(amountIn).to.be.gt(0)
+          const liquidityBefore = (await nft.positions(tokenId)).liquidity
+          const balanceBefore = await tokens[index].balanceOf(other.address)
+
+          await expect(zap.zapOut(zapOutParams(tokenOut, percentageToRemove)))
+            .to.emit(zap, 'ZappedOut')
+            .withArgs(tokenId, tokenOut, liquidity, amountOut)
+
+          expect(await tokens[index].balanceOf(other.address)).to.eq(balanceBefore.add(amountOut))
+          const position = await nft.positions(tokenId)
+          expect(position.liquidity).to.eq(liquidityBefore.sub(liquidity))
+          // all the fees are collected
+          expect(position.tokensOwed0).to.eq(0)
+          expect(position.tokensOwed1).to.eq(0)
+
+          // nothing is left behind in the zap
+          for (const token of [tokens[0], tokens[1]]) {
+            expect(await token.balanceOf(zap.address)).to.eq(0)
+            expect(await token.allowance(zap.address, router.address)).to.eq(0)
+          }
+        })
+      }
+    }
+
+    it('unwraps the token out to ETH', async () => {
+      await weth9.deposit({ value: expandTo18Decimals(1_010) })
+      await createPool(tokens[0].address, weth9.address, expandTo18Decimals(1_000))
+      const [token0, token1] =
+        tokens[0].address.toLowerCase() < weth9.address.toLowerCase()
+          ? [tokens[0].address, weth9.address]
+          : [weth9.address, tokens[0].address]
+      await mintPosition(token0, token1)
+      const id = (await nft.totalSupply()).toNumber()
+
+      const { amountOut } = await simulate(id, weth9.address, 100)
+      const balanceBefore = await ethers.provider.getBalance(other.address)
+      await zap.zapOut(zapOutParams(weth9.address, 100, 0, true, id))
+      expect(await ethers.provider.getBalance(other.address)).to.eq(balanceBefore.add(amountOut))
+      expect(await weth9.balanceOf(zap.address)).to.eq(0)
+    })
+
+    it('fails to unwrap a token out that is not WETH9', async () => {
+      await expect(zap.zapOut(zapOutParams(tokens[0].address, 100, 0, true))).to.be.revertedWith('Not WETH9')
+    })
+
+    it('fails if the amount out is less than the minimum', async () => {
+      const { amountOut } = await simulate(tokenId, tokens[0].address, 100)
+      await expect(zap.zapOut(zapOutParams(tokens[0].address, 100, amountOut.add(1)))).to.be.revertedWith(
+        'Too little received'
+      )
+      await zap.zapOut(zapOutParams(tokens[0].address, 100, amountOut))
+    })
+
+    it('fails for a token that is not in the position', async () => {
+      await expect(zap.zapOut(zapOutParams(tokens[2].address))).to.be.revertedWith('Invalid token')
+    })
+
+    it('fails for a percentage out of bounds', async () => {
+      await expect(zap.zapOut(zapOutParams(tokens[0].address, 0))).to.be.revertedWith('Percentage too small')
+      await expect(zap.zapOut(zapOutParams(tokens[0].address, 101))).to.be.revertedWith('Percentage too large')
+    })
+
+    it('fails if the caller is not approved', async () => {
+      await expect(zap.connect(other).zapOut(zapOutParams(tokens[0].address))).to.be.revertedWith('Not approved')
+    })
+
+    it('can be called by the account approved for the position', async () => {
+      await nft.approve(other.address, tokenId)
+      await expect(zap.connect(other).zapOut(zapOutParams(tokens[0].address))).to.emit(zap, 'ZappedOut')
+    })
+
+    it('fails if the zap is not approved for the position', async () => {
+      await nft.setApprovalForAll(zap.address, false)
+      await expect(zap.zapOut(zapOutParams(tokens[0].address))).to.be.revertedWith('Not approved')
+    })
+
+    it('approves and withdraws in a multicall', async () => {
+      await nft.setApprovalForAll(zap.address, false)
+      const { v, r, s } = await getPermitNFTSignature(wallet, nft, zap.address, tokenId, 1)
+      await expect(
+        zap.multicall([
+          zap.interface.encodeFunctionData('selfPermitPosition', [tokenId, 1, v, r, s]),
+          zap.interface.encodeFunctionData('zapOut', [zapOutParams(tokens[0].address)]),
+        ])
+      ).to.emit(zap, 'ZappedOut')
+    })
+
+    it('gas', async () => {
+      await snapshotGasCost(zap.zapOut(zapOutParams(tokens[0].address)))
+    })
+  })
+})
@@ -0,0 +1,43 @@
+import { BigNumberish } from 'ethers'
+import { INonfungiblePositionManager, ITickLens } from '../../typechain'
+import { computePoolAddress } from './computePoolAddress'
+import { fetchPositionValueInputs, fees, poolAt, PoolFeeGrowth, PositionData, TokenAmounts } from './positionValue'
+import { fetchPoolState, PoolState } from './swapSimulator'
+import { swapToRatioAndMint, SwapToRatioResult } from './swapToRatio'
+
+// simulates Compounder.compound, so the liquidity it adds can be known before sending the transaction
+
+// the parts of the position manager that are read, so the mock position manager can be passed as well
+type PositionManager = Pick<
+  INonfungiblePositionManager,
+  'provider' | 'factory' | 'positions' | 'balanceOf' | 'tokenOfOwnerByIndex'
+>
+
+export interface CompoundSimulation extends SwapToRatioResult {
+  // the fees collected from the position
+  fees: TokenAmounts
+}
+
+// computes the outcome of compounding a position from the state of its pool, which must be the pool of the position
+export function computeCompound(
+  position: PositionData,
+  poolFeeGrowth: PoolFeeGrowth,
+  state: PoolState
+): CompoundSimulation {
+  const collected = fees(position, poolFeeGrowth)
+  if (collected.amount0.isZero() && collected.amount1.isZero()) throw new Error('No fees')
+
+  return { fees: collected, ...swapToRatioAndMint(state, position, collected.amount0, collected.amount1) }
+}
+
+// reads the position, its pool and the initialized ticks of the pool and simulates compounding the position
+export async function simulateCompound(
+  nft: PositionManager,
+  tickLens: ITickLens,
+  tokenId: BigNumberish
+): Promise<CompoundSimulation> {
+  const { position, poolFeeGrowth } = await fetchPositionValueInputs(nft, tokenId)
+  const pool = poolAt(computePoolAddress(await nft.factory(), [position.token0, position.token1], position.fee), nft)
+  const state = await fetchPoolState(pool, tickLens)
+  return computeCompound(position, poolFeeGrowth, state)
+}
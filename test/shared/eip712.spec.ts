@@ -0,0 +1,92 @@
+import { Fixture } from 'ethereum-waffle'
+import { Wallet } from 'ethers'
+import { _TypedDataEncoder } from 'ethers/lib/utils'
+import { ethers, waffle } from 'hardhat'
+import { MockTimeNonfungiblePositionManager, SwapOrderExecutor, TestERC20 } from '../../typechain'
+import completeFixture from './completeFixture'
+import { resolveDomain } from './eip712'
+import { expect } from './expect'
+import revertChainAfter from './revertChainAfter'
+
+describe('#resolveDomain', () => {
+  revertChainAfter()
+
+  let wallet: Wallet
+
+  let tokens: [TestERC20, TestERC20, TestERC20]
+  let nft: MockTimeNonfungiblePositionManager
+  let executor: SwapOrderExecutor
+
+  let loadFixture: ReturnType<typeof waffle.createFixtureLoader>
+
+  async function errorMessage(promise: Promise<unknown>): Promise<string> {
+    try {
+      await promise
+    } catch (error) {
+      return error.message
+    }
+    throw new Error('Did not fail')
+  }
+
+  before('create fixture loader', async () => {
+    const wallets = await (ethers as any).getSigners()
+    ;[wallet] = wallets
+    loadFixture = waffle.createFixtureLoader(wallets)
+  })
+
+  const eip712Fixture: Fixture<{
+    tokens: [TestERC20, TestERC20, TestERC20]
+    nft: MockTimeNonfungiblePositionManager
+    executor: SwapOrderExecutor
+  }> = async (wallets, provider) => {
+    const { tokens, nft, router } = await completeFixture(wallets, provider)
+    const executorFactory = await ethers.getContractFactory('SwapOrderExecutor')
+    const executor = (await executorFactory.deploy(router.address)) as SwapOrderExecutor
+    return { tokens, nft, executor }
+  }
+
+  beforeEach('load fixture', async () => {
+    ;({ tokens, nft, executor } = await loadFixture(eip712Fixture))
+  })
+
+  it('reads the name of the token', async () => {
+    const domain = await resolveDomain(tokens[0], wallet)
+    expect(domain).to.deep.eq({
+      name: 'Test ERC20',
+      version: '1',
+      chainId: await wallet.getChainId(),
+      verifyingContract: tokens[0].address,
+    })
+    expect(_TypedDataEncoder.hashDomain(domain)).to.eq(await tokens[0].DOMAIN_SEPARATOR())
+  })
+
+  it('reads the name of the position manager', async () => {
+    const domain = await resolveDomain(nft, wallet)
+    expect(domain.name).to.eq('Uniswap V3 Positions NFT-V1')
+    expect(_TypedDataEncoder.hashDomain(domain)).to.eq(await nft.DOMAIN_SEPARATOR())
+  })
+
+  it('uses the default name for a contract without a name', async () => {
+    const domain = await resolveDomain(executor, wallet, {}, { name: 'Uniswap V3 Swap Order Executor' })
+    expect(_TypedDataEncoder.hashDomain(domain)).to.eq(await executor.DOMAIN_SEPARATOR())
+  })
+
+  it('fails without a name', async () => {
+    expect(await errorMessage(resolveDomain(executor, wallet))).to.eq(`No domain name for ${executor.address}`)
+  })
+
+  it('fails if the domain does not match the domain separator', async () => {
+    expect(await errorMessage(resolveDomain(tokens[0], wallet, {}, { version: '2' }))).to.contain(
+      'does not match the DOMAIN_SEPARATOR'
+    )
+    expect(await errorMessage(resolveDomain(executor, wallet, {}, { name: 'Uniswap V3 Swap Router' }))).to.contain(
+      'does not match the DOMAIN_SEPARATOR'
+    )
+  })
+
+  it('does not check an overridden domain', async () => {
+    const domain = await resolveDomain(tokens[0], wallet, { chainId: 1 })
+    expect(domain.chainId).to.eq(1)
+    expect(_TypedDataEncoder.hashDomain(domain)).to.not.eq(await tokens[0].DOMAIN_SEPARATOR())
+  })
+})
@@ -0,0 +1,96 @@
+import { TypedDataDomain, TypedDataField, TypedDataSigner } from '@ethersproject/abstract-signer'
+import { Contract, Signature, Signer } from 'ethers'
+import { splitSignature, _TypedDataEncoder } from 'ethers/lib/utils'
+
+// a wallet, or a signer of the hardhat network
+export type EIP712Signer = Signer & TypedDataSigner
+
+export type TypedDataTypes = Record<string, TypedDataField[]>
+
+// overrides of the domain, e.g. to produce signatures that must not verify
+export interface DomainConfig {
+  name?: string
+  version?: string
+  chainId?: number
+}
+
+// ERC-2612, also verified by the DAI-style permit of TestERC20PermitAllowed and by Uniswap V2 pairs
+export const PERMIT_TYPES: TypedDataTypes = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+}
+
+// the permit of ERC721Permit, which does not include the owner so that contract owners can verify it with ERC-1271
+export const PERMIT_NFT_TYPES: TypedDataTypes = {
+  Permit: [
+    { name: 'spender', type: 'address' },
+    { name: 'tokenId', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+}
+
+export const SWAP_ORDER_TYPES: TypedDataTypes = {
+  SwapOrder: [
+    { name: 'signer', type: 'address' },
+    { name: 'tokenIn', type: 'address' },
+    { name: 'tokenOut', type: 'address' },
+    { name: 'path', type: 'bytes' },
+    { name: 'amountIn', type: 'uint256' },
+    { name: 'amountOutMinimum', type: 'uint256' },
+    { name: 'recipient', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+}
+
+function hasGetter(contract: Contract, name: string): boolean {
+  return Object.values(contract.interface.functions).some(
+    (fragment) => fragment.name === name && fragment.inputs.length === 0
+  )
+}
+
+// resolves the domain of the verifying contract. the name and the version come from the config, else from the name()
+// and version() getters of the contract, else from the defaults. unless the config overrides the domain, it is checked
+// against the DOMAIN_SEPARATOR() of the contract, so that a wrong name or version fails here instead of as an invalid
+// signature
+export async function resolveDomain(
+  contract: Contract,
+  signer: Signer,
+  config: DomainConfig = {},
+  defaults: { name?: string; version?: string } = {}
+): Promise<TypedDataDomain> {
+  const [name, version, chainId] = await Promise.all([
+    config.name ?? (hasGetter(contract, 'name') ? contract.name() : defaults.name),
+    config.version ?? (hasGetter(contract, 'version') ? contract.version() : defaults.version ?? '1'),
+    config.chainId ?? signer.getChainId(),
+  ])
+  if (name === undefined) throw new Error(`No domain name for ${contract.address}`)
+
+  const domain = { name, version, chainId, verifyingContract: contract.address }
+
+  const overridden = config.name !== undefined || config.version !== undefined || config.chainId !== undefined
+  if (!overridden && hasGetter(contract, 'DOMAIN_SEPARATOR')) {
+    const domainSeparator: string = await contract.DOMAIN_SEPARATOR()
+    if (_TypedDataEncoder.hashDomain(domain) !== domainSeparator) {
+      throw new Error(`Domain ${JSON.stringify(domain)} does not match the DOMAIN_SEPARATOR of ${contract.address}`)
+    }
+  }
+
+  return domain
+}
+
+// the signer may be the owner, or for a contract owner, an account whose signature the owner accepts with ERC-1271
+export async function signTypedData(
+  signer: EIP712Signer,
+  domain: TypedDataDomain,
+  types: TypedDataTypes,
+  value: Record<string, any>
+): Promise<Signature> {
+  return splitSignature(await signer._signTypedData(domain, types, value))
+}
@@ -1,6 +1,8 @@
 import { encodePriceSqrt } from './encodePriceSqrt'
+import { expandTo18Decimals } from './expandTo18Decimals'
 import { expect } from './expect'
-import { formatSqrtRatioX96 } from './formatSqrtRatioX96'
+import { formatFraction, formatSqrtRatioX96, Rounding } from './formatSqrtRatioX96'
+import { MAX_SQRT_RATIO, MIN_SQRT_RATIO } from './tickMath'
 
 describe('#formatSqrtRatioX96', () => {
   it('is correct for 9_999_999/10_000_000', () => {
@@ -27,4 +29,61 @@ describe('#formatSqrtRatioX96', () => {
   it('accounts for decimal differences in reverse', () => {
     expect(formatSqrtRatioX96(encodePriceSqrt(1e18, 1e6), 6, 18)).to.eq('1.0000')
   })
+
+  it('prints every digit of the maximum price', () => {
+    expect(formatSqrtRatioX96(MAX_SQRT_RATIO, 18, 18, { significantFigures: 39 })).to.eq(
+      '340256786836388094070642339899681172762'
+    )
+  })
+  it('prints 20 sig figs of the minimum price', () => {
+    expect(formatSqrtRatioX96(MIN_SQRT_RATIO, 18, 18, { significantFigures: 20 })).to.eq(
+      '0.0000000000000000000000000000000000000029389568087743112001'
+    )
+  })
+  it('prints 1 sig fig', () => {
+    expect(formatSqrtRatioX96(encodePriceSqrt(100, 3), 18, 18, { significantFigures: 1 })).to.eq('30')
+  })
+  it('rounds in the given direction', () => {
+    expect(formatSqrtRatioX96(encodePriceSqrt(1, 3), 18, 18, { rounding: Rounding.ROUND_UP })).to.eq('0.33334')
+    expect(formatSqrtRatioX96(encodePriceSqrt(2, 3), 18, 18, { rounding: Rounding.ROUND_DOWN })).to.eq('0.66666')
+    expect(formatSqrtRatioX96(encodePriceSqrt(2, 3), 18, 18)).to.eq('0.66667')
+  })
+  it('inverts the price', () => {
+    expect(formatSqrtRatioX96(encodePriceSqrt(1, 3), 18, 18, { invert: true })).to.eq('3.0000')
+    expect(formatSqrtRatioX96(encodePriceSqrt(100, 3), 18, 18, { invert: true })).to.eq('0.030000')
+  })
+  it('inverts the price with decimal differences', () => {
+    // 2000 USDC per WETH, with USDC as token0
+    const sqrtRatioX96 = encodePriceSqrt(expandTo18Decimals(1), 2000e6)
+    expect(formatSqrtRatioX96(sqrtRatioX96, 6, 18)).to.eq('0.00050000')
+    expect(formatSqrtRatioX96(sqrtRatioX96, 6, 18, { invert: true })).to.eq('2000.0')
+  })
+  it('throws for an invalid number of sig figs', () => {
+    expect(() => formatSqrtRatioX96(encodePriceSqrt(1, 1), 18, 18, { significantFigures: 0 })).to.throw(
+      'significant figures must be a positive integer'
+    )
+  })
+  it('throws when inverting a zero price', () => {
+    expect(() => formatSqrtRatioX96(0, 18, 18, { invert: true })).to.throw('cannot invert a zero price')
+  })
+
+  describe('#formatFraction', () => {
+    it('rounds ties according to the rounding mode', () => {
+      expect(formatFraction(25, 10, 1, Rounding.ROUND_DOWN)).to.eq('2')
+      expect(formatFraction(25, 10, 1, Rounding.ROUND_HALF_UP)).to.eq('3')
+      expect(formatFraction(25, 10, 1, Rounding.ROUND_HALF_EVEN)).to.eq('2')
+      expect(formatFraction(35, 10, 1, Rounding.ROUND_HALF_EVEN)).to.eq('4')
+      expect(formatFraction(21, 10, 1, Rounding.ROUND_UP)).to.eq('3')
+    })
+    it('adds a significant figure when rounding up to the next power of 10', () => {
+      expect(formatFraction(999_995, 10_000, 5)).to.eq('100.00')
+      expect(formatFraction(999_995, 10_000, 5, Rounding.ROUND_DOWN)).to.eq('99.999')
+    })
+    it('pads integers with zeros', () => {
+      expect(formatFraction(123_456_789, 1, 3)).to.eq('123000000')
+    })
+    it('formats zero', () => {
+      expect(formatFraction(0, 1)).to.eq('0.0000')
+    })
+  })
 })
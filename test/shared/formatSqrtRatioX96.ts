@@ -1,30 +1,111 @@
-import { BigNumber } from 'ethers'
-import Decimal from 'decimal.js'
+import { BigNumber, BigNumberish } from 'ethers'
 
-const TWO = BigNumber.from(2)
 const TEN = BigNumber.from(10)
-const FIVE_SIG_FIGS_POW = new Decimal(10).pow(5)
+const Q192 = BigNumber.from(2).pow(192)
 
-export function formatSqrtRatioX96(
-  sqrtRatioX96: BigNumber | number,
-  decimalsToken0: number = 18,
-  decimalsToken1: number = 18
+export enum Rounding {
+  ROUND_DOWN,
+  ROUND_HALF_UP,
+  ROUND_HALF_EVEN,
+  ROUND_UP,
+}
+
+export interface FormatSqrtRatioX96Options {
+  // the number of significant figures to print, 5 by default like NFTDescriptor
+  significantFigures?: number
+  // how the last significant figure is rounded, half up by default like NFTDescriptor
+  rounding?: Rounding
+  // print the price of token0 in terms of token1 instead of the price of token1 in terms of token0
+  invert?: boolean
+}
+
+// rounds the quotient of numerator / denominator according to the rounding mode
+function divRounded(numerator: BigNumber, denominator: BigNumber, rounding: Rounding): BigNumber {
+  const quotient = numerator.div(denominator)
+  const remainder = numerator.mod(denominator)
+  if (remainder.isZero()) return quotient
+
+  let roundUp: boolean
+  switch (rounding) {
+    case Rounding.ROUND_DOWN:
+      roundUp = false
+      break
+    case Rounding.ROUND_UP:
+      roundUp = true
+      break
+    case Rounding.ROUND_HALF_UP:
+      roundUp = remainder.mul(2).gte(denominator)
+      break
+    case Rounding.ROUND_HALF_EVEN:
+      roundUp = remainder.mul(2).gt(denominator) || (remainder.mul(2).eq(denominator) && quotient.mod(2).eq(1))
+      break
+    default:
+      throw new Error(`invalid rounding: ${rounding}`)
+  }
+  return roundUp ? quotient.add(1) : quotient
+}
+
+// returns the exponent of the most significant digit of numerator / denominator
+function orderOfMagnitude(numerator: BigNumber, denominator: BigNumber): number {
+  let exponent = numerator.toString().length - denominator.toString().length
+  if (
+    exponent >= 0 ? numerator.lt(denominator.mul(TEN.pow(exponent))) : numerator.mul(TEN.pow(-exponent)).lt(denominator)
+  )
+    exponent--
+  return exponent
+}
+
+// formats numerator / denominator exactly with the given number of significant figures, without exponential notation
+export function formatFraction(
+  numerator: BigNumberish,
+  denominator: BigNumberish,
+  significantFigures: number = 5,
+  rounding: Rounding = Rounding.ROUND_HALF_UP
 ): string {
-  Decimal.set({ toExpPos: 9_999_999, toExpNeg: -9_999_999 })
+  if (!Number.isInteger(significantFigures) || significantFigures < 1) {
+    throw new Error('significant figures must be a positive integer')
+  }
+  const n = BigNumber.from(numerator)
+  const d = BigNumber.from(denominator)
+  if (n.lt(0) || d.lte(0)) throw new Error('fraction must be non-negative')
+  if (n.isZero()) return significantFigures === 1 ? '0' : `0.${'0'.repeat(significantFigures - 1)}`
 
-  let ratioNum = ((parseInt(sqrtRatioX96.toString()) / 2 ** 96) ** 2).toPrecision(5)
-  let ratio = new Decimal(ratioNum.toString())
+  // the number of decimal places that are kept, negative if some integer digits are rounded away
+  let decimalPlaces = significantFigures - 1 - orderOfMagnitude(n, d)
+  let digits =
+    decimalPlaces >= 0
+      ? divRounded(n.mul(TEN.pow(decimalPlaces)), d, rounding)
+      : divRounded(n, d.mul(TEN.pow(-decimalPlaces)), rounding)
 
-  // adjust for decimals
-  if (decimalsToken1 < decimalsToken0) {
-    ratio = ratio.mul(TEN.pow(decimalsToken0 - decimalsToken1).toString())
-  } else if (decimalsToken0 < decimalsToken1) {
-    ratio = ratio.div(TEN.pow(decimalsToken1 - decimalsToken0).toString())
+  // e.g. 99999.5 -> 100000 gives an extra significant figure
+  if (digits.eq(TEN.pow(significantFigures))) {
+    digits = digits.div(10)
+    decimalPlaces--
   }
 
-  if (ratio.lessThan(FIVE_SIG_FIGS_POW)) {
-    return ratio.toPrecision(5)
+  if (decimalPlaces <= 0) return digits.toString().concat('0'.repeat(-decimalPlaces))
+  const padded = digits.toString().padStart(decimalPlaces + 1, '0')
+  return `${padded.slice(0, padded.length - decimalPlaces)}.${padded.slice(padded.length - decimalPlaces)}`
+}
+
+export function formatSqrtRatioX96(
+  sqrtRatioX96: BigNumberish,
+  decimalsToken0: number = 18,
+  decimalsToken1: number = 18,
+  { significantFigures = 5, rounding = Rounding.ROUND_HALF_UP, invert = false }: FormatSqrtRatioX96Options = {}
+): string {
+  const ratioX192 = BigNumber.from(sqrtRatioX96).pow(2)
+  if (invert && ratioX192.isZero()) throw new Error('cannot invert a zero price')
+
+  let [numerator, denominator] = invert ? [Q192, ratioX192] : [ratioX192, Q192]
+
+  // adjust for decimals, the printed price is for whole tokens
+  const decimalsDifference = invert ? decimalsToken1 - decimalsToken0 : decimalsToken0 - decimalsToken1
+  if (decimalsDifference > 0) {
+    numerator = numerator.mul(TEN.pow(decimalsDifference))
+  } else if (decimalsDifference < 0) {
+    denominator = denominator.mul(TEN.pow(-decimalsDifference))
   }
 
-  return ratio.toString()
+  return formatFraction(numerator, denominator, significantFigures, rounding)
 }
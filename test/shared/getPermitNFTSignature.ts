@@ -1,57 +1,19 @@
-import { BigNumber, BigNumberish, constants, Signature, Wallet } from 'ethers'
-import { splitSignature } from 'ethers/lib/utils'
+import { BigNumberish, constants, Signature } from 'ethers'
 import { NonfungiblePositionManager } from '../../typechain'
+import { DomainConfig, EIP712Signer, PERMIT_NFT_TYPES, resolveDomain, signTypedData } from './eip712'
 
 export default async function getPermitNFTSignature(
-  wallet: Wallet,
+  wallet: EIP712Signer,
   positionManager: NonfungiblePositionManager,
   spender: string,
   tokenId: BigNumberish,
   deadline: BigNumberish = constants.MaxUint256,
-  permitConfig?: { nonce?: BigNumberish; name?: string; chainId?: number; version?: string }
+  permitConfig?: { nonce?: BigNumberish } & DomainConfig
 ): Promise<Signature> {
-  const [nonce, name, version, chainId] = await Promise.all([
+  const [nonce, domain] = await Promise.all([
     permitConfig?.nonce ?? positionManager.positions(tokenId).then((p) => p.nonce),
-    permitConfig?.name ?? positionManager.name(),
-    permitConfig?.version ?? '1',
-    permitConfig?.chainId ?? wallet.getChainId(),
+    resolveDomain(positionManager, wallet, permitConfig),
   ])
 
-  return splitSignature(
-    await wallet._signTypedData(
-      {
-        name,
-        version,
-        chainId,
-        verifyingContract: positionManager.address,
-      },
-      {
-        Permit: [
-          {
-            name: 'spender',
-            type: 'address',
-          },
-          {
-            name: 'tokenId',
-            type: 'uint256',
-          },
-          {
-            name: 'nonce',
-            type: 'uint256',
-          },
-          {
-            name: 'deadline',
-            type: 'uint256',
-          },
-        ],
-      },
-      {
-        owner: wallet.address,
-        spender,
-        tokenId,
-        nonce,
-        deadline,
-      }
-    )
-  )
+  return signTypedData(wallet, domain, PERMIT_NFT_TYPES, { spender, tokenId, nonce, deadline })
 }
@@ -0,0 +1,160 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { getAmount0Delta, getAmount1Delta, mulDiv, Q96 } from './sqrtPriceMath'
+
+// port of the LiquidityAmounts library with identical rounding, every function throws where the library reverts
+
+const MAX_UINT128 = BigNumber.from(2).pow(128).sub(1)
+
+function toUint128(x: BigNumber): BigNumber {
+  if (x.gt(MAX_UINT128)) throw new Error('uint128 overflow')
+  return x
+}
+
+function sortRatios(sqrtRatioAX96: BigNumberish, sqrtRatioBX96: BigNumberish): [BigNumber, BigNumber] {
+  const [a, b] = [BigNumber.from(sqrtRatioAX96), BigNumber.from(sqrtRatioBX96)]
+  return a.gt(b) ? [b, a] : [a, b]
+}
+
+export function getLiquidityForAmount0(
+  sqrtRatioAX96: BigNumberish,
+  sqrtRatioBX96: BigNumberish,
+  amount0: BigNumberish
+): BigNumber {
+  const [a, b] = sortRatios(sqrtRatioAX96, sqrtRatioBX96)
+  const intermediate = mulDiv(a, b, Q96)
+  return toUint128(mulDiv(amount0, intermediate, b.sub(a)))
+}
+
+export function getLiquidityForAmount1(
+  sqrtRatioAX96: BigNumberish,
+  sqrtRatioBX96: BigNumberish,
+  amount1: BigNumberish
+): BigNumber {
+  const [a, b] = sortRatios(sqrtRatioAX96, sqrtRatioBX96)
+  return toUint128(mulDiv(amount1, Q96, b.sub(a)))
+}
+
+export function getLiquidityForAmounts(
+  sqrtRatioX96: BigNumberish,
+  sqrtRatioAX96: BigNumberish,
+  sqrtRatioBX96: BigNumberish,
+  amount0: BigNumberish,
+  amount1: BigNumberish
+): BigNumber {
+  const [a, b] = sortRatios(sqrtRatioAX96, sqrtRatioBX96)
+  const sqrtRatio = BigNumber.from(sqrtRatioX96)
+
+  if (sqrtRatio.lte(a)) {
+    return getLiquidityForAmount0(a, b, amount0)
+  } else if (sqrtRatio.lt(b)) {
+    const liquidity0 = getLiquidityForAmount0(sqrtRatio, b, amount0)
+    const liquidity1 = getLiquidityForAmount1(a, sqrtRatio, amount1)
+    return liquidity0.lt(liquidity1) ? liquidity0 : liquidity1
+  } else {
+    return getLiquidityForAmount1(a, b, amount1)
+  }
+}
+
+export function getAmount0ForLiquidity(
+  sqrtRatioAX96: BigNumberish,
+  sqrtRatioBX96: BigNumberish,
+  liquidity: BigNumberish
+): BigNumber {
+  const [a, b] = sortRatios(sqrtRatioAX96, sqrtRatioBX96)
+  return mulDiv(toUint128(BigNumber.from(liquidity)).shl(96), b.sub(a), b).div(a)
+}
+
+export function getAmount1ForLiquidity(
+  sqrtRatioAX96: BigNumberish,
+  sqrtRatioBX96: BigNumberish,
+  liquidity: BigNumberish
+): BigNumber {
+  const [a, b] = sortRatios(sqrtRatioAX96, sqrtRatioBX96)
+  return mulDiv(toUint128(BigNumber.from(liquidity)), b.sub(a), Q96)
+}
+
+export function getAmountsForLiquidity(
+  sqrtRatioX96: BigNumberish,
+  sqrtRatioAX96: BigNumberish,
+  sqrtRatioBX96: BigNumberish,
+  liquidity: BigNumberish
+): { amount0: BigNumber; amount1: BigNumber } {
+  const [a, b] = sortRatios(sqrtRatioAX96, sqrtRatioBX96)
+  const sqrtRatio = BigNumber.from(sqrtRatioX96)
+
+  if (sqrtRatio.lte(a)) {
+    return { amount0: getAmount0ForLiquidity(a, b, liquidity), amount1: BigNumber.from(0) }
+  } else if (sqrtRatio.lt(b)) {
+    return {
+      amount0: getAmount0ForLiquidity(sqrtRatio, b, liquidity),
+      amount1: getAmount1ForLiquidity(a, sqrtRatio, liquidity),
+    }
+  } else {
+    return { amount0: BigNumber.from(0), amount1: getAmount1ForLiquidity(a, b, liquidity) }
+  }
+}
+
+// returns the amounts the pool charges for minting the liquidity, which are rounded up unlike getAmountsForLiquidity
+export function getMintAmounts(
+  sqrtRatioX96: BigNumberish,
+  sqrtRatioAX96: BigNumberish,
+  sqrtRatioBX96: BigNumberish,
+  liquidity: BigNumberish
+): { amount0: BigNumber; amount1: BigNumber } {
+  const [a, b] = sortRatios(sqrtRatioAX96, sqrtRatioBX96)
+  const sqrtRatio = BigNumber.from(sqrtRatioX96)
+  const l = BigNumber.from(liquidity)
+
+  if (sqrtRatio.lte(a)) {
+    return { amount0: getAmount0Delta(a, b, l, true), amount1: BigNumber.from(0) }
+  } else if (sqrtRatio.lt(b)) {
+    return { amount0: getAmount0Delta(sqrtRatio, b, l, true), amount1: getAmount1Delta(a, sqrtRatio, l, true) }
+  } else {
+    return { amount0: BigNumber.from(0), amount1: getAmount1Delta(a, b, l, true) }
+  }
+}
+
+// returns the largest liquidity, up to the max uint128, that can be minted with at most amount0 and amount1, and the
+// amounts it costs. getLiquidityForAmounts rounds its intermediate results down, so it can return less than this
+export function getMaxLiquidityForAmounts(
+  sqrtRatioX96: BigNumberish,
+  sqrtRatioAX96: BigNumberish,
+  sqrtRatioBX96: BigNumberish,
+  amount0: BigNumberish,
+  amount1: BigNumberish
+): { liquidity: BigNumber; amount0: BigNumber; amount1: BigNumber } {
+  const [a, b] = sortRatios(sqrtRatioAX96, sqrtRatioBX96)
+  const sqrtRatio = BigNumber.from(sqrtRatioX96)
+  const [budget0, budget1] = [BigNumber.from(amount0), BigNumber.from(amount1)]
+  if (a.eq(b)) throw new Error('sqrt ratios must differ')
+
+  const fits = (liquidity: BigNumber): boolean => {
+    const amounts = getMintAmounts(sqrtRatio, a, b, liquidity)
+    return amounts.amount0.lte(budget0) && amounts.amount1.lte(budget1)
+  }
+
+  // the liquidity without any rounding bounds the search from above
+  let high = MAX_UINT128
+  if (sqrtRatio.lt(b)) {
+    const lower = sqrtRatio.gt(a) ? sqrtRatio : a
+    const bound0 = budget0
+      .mul(lower)
+      .mul(b)
+      .div(Q96.mul(b.sub(lower)))
+    if (bound0.lt(high)) high = bound0
+  }
+  if (sqrtRatio.gt(a)) {
+    const upper = sqrtRatio.lt(b) ? sqrtRatio : b
+    const bound1 = budget1.mul(Q96).div(upper.sub(a))
+    if (bound1.lt(high)) high = bound1
+  }
+
+  let low = BigNumber.from(0)
+  while (low.lt(high)) {
+    const middle = low.add(high).add(1).div(2)
+    if (fits(middle)) low = middle
+    else high = middle.sub(1)
+  }
+
+  return { liquidity: low, ...getMintAmounts(sqrtRatio, a, b, low) }
+}
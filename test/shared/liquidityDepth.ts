@@ -0,0 +1,138 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { ITickLens } from '../../typechain'
+import { getAmountsForLiquidity } from './liquidityAmounts'
+import { getSqrtRatioAtTick } from './tickMath'
+
+// fetches the populated ticks of a pool through TickLens and turns them into the data of a liquidity depth chart
+
+const MIN_WORD = -(2 ** 15)
+const MAX_WORD = 2 ** 15 - 1
+
+export interface PopulatedTick {
+  tick: number
+  liquidityNet: BigNumber
+  liquidityGross: BigNumber
+}
+
+export interface PoolState {
+  sqrtPriceX96: BigNumber
+  tick: number
+  observationIndex: number
+  observationCardinality: number
+  observationCardinalityNext: number
+  feeProtocol: number
+  unlocked: boolean
+  liquidity: BigNumber
+  feeGrowthGlobal0X128: BigNumber
+  feeGrowthGlobal1X128: BigNumber
+  tickSpacing: number
+}
+
+export interface PoolSnapshot {
+  state: PoolState
+  // in ascending order of the ticks
+  populatedTicks: PopulatedTick[]
+  // the range of words of the tick bitmap that the populated ticks were fetched from
+  startWord: number
+  endWord: number
+}
+
+export interface FetchPoolSnapshotOptions {
+  // the range of words of the tick bitmap to walk, the whole span of the pool by default
+  startWord?: number
+  endWord?: number
+  // the gas left at which a call stops walking words and returns a cursor
+  gasReserve?: BigNumberish
+  // the block that every call reads, the latest block by default
+  blockTag?: number
+}
+
+type TickLens = Pick<ITickLens, 'provider' | 'getPopulatedTicksInWordRange'>
+
+export async function fetchPoolSnapshot(
+  tickLens: TickLens,
+  pool: string,
+  { startWord = MIN_WORD, endWord = MAX_WORD, gasReserve = 1_000_000, blockTag }: FetchPoolSnapshotOptions = {}
+): Promise<PoolSnapshot> {
+  // every page must read the same block for the ticks to be consistent with the state
+  const overrides = { blockTag: blockTag ?? (await tickLens.provider.getBlock('latest')).number }
+
+  let state: PoolState | undefined
+  const populatedTicks: PopulatedTick[] = []
+  let nextWord = startWord
+  let complete = false
+  while (!complete) {
+    const page = await tickLens.getPopulatedTicksInWordRange(pool, nextWord, endWord, gasReserve, overrides)
+    state = state ?? {
+      sqrtPriceX96: page.state.sqrtPriceX96,
+      tick: page.state.tick,
+      observationIndex: page.state.observationIndex,
+      observationCardinality: page.state.observationCardinality,
+      observationCardinalityNext: page.state.observationCardinalityNext,
+      feeProtocol: page.state.feeProtocol,
+      unlocked: page.state.unlocked,
+      liquidity: page.state.liquidity,
+      feeGrowthGlobal0X128: page.state.feeGrowthGlobal0X128,
+      feeGrowthGlobal1X128: page.state.feeGrowthGlobal1X128,
+      tickSpacing: page.state.tickSpacing,
+    }
+    for (const { tick, liquidityNet, liquidityGross } of page.populatedTicks) {
+      populatedTicks.push({ tick, liquidityNet, liquidityGross })
+    }
+    nextWord = page.nextWord
+    complete = page.complete
+  }
+  return { state: state as PoolState, populatedTicks, startWord, endWord }
+}
+
+export interface LiquidityDepthBucket {
+  tickLower: number
+  tickUpper: number
+  // the liquidity that is active while the tick of the pool is within [tickLower, tickUpper)
+  liquidity: BigNumber
+  // the amounts of token0 and token1 that the liquidity of the bucket is worth at the current price
+  amount0: BigNumber
+  amount1: BigNumber
+}
+
+// returns a bucket for every range between two consecutive populated ticks of the snapshot. the liquidity of the
+// buckets is derived outwards from the active liquidity of the pool, so the snapshot must include the word of the
+// current tick. otherwise the populated ticks between the current tick and the snapshot are missing
+export function getLiquidityDepth({ state, populatedTicks, startWord, endWord }: PoolSnapshot): LiquidityDepthBucket[] {
+  const word = Math.floor(state.tick / state.tickSpacing) >> 8
+  if (word < startWord || word > endWord) {
+    throw new Error(`the words ${startWord} to ${endWord} do not include the word ${word} of the current tick`)
+  }
+
+  // the number of populated ticks at or below the current tick, whose liquidity net has been applied
+  const crossed = populatedTicks.filter(({ tick }) => tick <= state.tick).length
+
+  const liquidities: BigNumber[] = new Array(Math.max(populatedTicks.length - 1, 0))
+  let liquidity = state.liquidity
+  for (let i = crossed; i < liquidities.length; i++) {
+    liquidity = liquidity.add(populatedTicks[i].liquidityNet)
+    liquidities[i] = liquidity
+  }
+  liquidity = state.liquidity
+  for (let i = Math.min(crossed, liquidities.length + 1) - 1; i >= 0; i--) {
+    if (i < liquidities.length) liquidities[i] = liquidity
+    liquidity = liquidity.sub(populatedTicks[i].liquidityNet)
+  }
+
+  return liquidities.map((liquidity, i) => {
+    const tickLower = populatedTicks[i].tick
+    const tickUpper = populatedTicks[i + 1].tick
+    if (liquidity.lt(0)) throw new Error(`negative liquidity between ticks ${tickLower} and ${tickUpper}`)
+    return {
+      tickLower,
+      tickUpper,
+      liquidity,
+      ...getAmountsForLiquidity(
+        state.sqrtPriceX96,
+        getSqrtRatioAtTick(tickLower),
+        getSqrtRatioAtTick(tickUpper),
+        liquidity
+      ),
+    }
+  })
+}
@@ -0,0 +1,95 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { IUniswapV3Pool } from '../../typechain'
+import { mulDiv } from './sqrtPriceMath'
+import { getSqrtRatioAtTick } from './tickMath'
+
+// ports of OracleLibrary.consult and OracleLibrary.getQuoteAtTick with identical rounding
+
+const MAX_UINT128 = BigNumber.from(2).pow(128).sub(1)
+const MAX_UINT160 = BigNumber.from(2).pow(160).sub(1)
+const MAX_UINT192 = BigNumber.from(2).pow(192).sub(1)
+
+export interface ConsultResult {
+  arithmeticMeanTick: number
+  harmonicMeanLiquidity: BigNumber
+}
+
+// computes the time weighted means from the two cumulatives returned by IUniswapV3Pool.observe([secondsAgo, 0])
+export function meansFromCumulatives(
+  secondsAgo: number,
+  tickCumulatives: BigNumberish[],
+  secondsPerLiquidityCumulativeX128s: BigNumberish[]
+): ConsultResult {
+  if (secondsAgo === 0) throw new Error('BP')
+
+  const tickCumulativesDelta = BigNumber.from(tickCumulatives[1]).sub(tickCumulatives[0])
+  // the uint160 subtraction wraps around
+  const secondsPerLiquidityCumulativesDelta = BigNumber.from(secondsPerLiquidityCumulativeX128s[1])
+    .sub(secondsPerLiquidityCumulativeX128s[0])
+    .toTwos(160)
+
+  let arithmeticMeanTick = tickCumulativesDelta.div(secondsAgo).toNumber()
+  // always round to negative infinity
+  if (tickCumulativesDelta.lt(0) && !tickCumulativesDelta.mod(secondsAgo).isZero()) arithmeticMeanTick--
+
+  const secondsAgoX160 = BigNumber.from(secondsAgo).mul(MAX_UINT160)
+  const harmonicMeanLiquidity = secondsAgoX160
+    .div(secondsPerLiquidityCumulativesDelta.shl(32).and(MAX_UINT192))
+    .and(MAX_UINT128)
+
+  return { arithmeticMeanTick, harmonicMeanLiquidity }
+}
+
+export async function consult(pool: IUniswapV3Pool, secondsAgo: number): Promise<ConsultResult> {
+  if (secondsAgo === 0) throw new Error('BP')
+  const { tickCumulatives, secondsPerLiquidityCumulativeX128s } = await pool.observe([secondsAgo, 0])
+  return meansFromCumulatives(secondsAgo, tickCumulatives, secondsPerLiquidityCumulativeX128s)
+}
+
+export function getQuoteAtTick(
+  tick: number,
+  baseAmount: BigNumberish,
+  baseToken: string,
+  quoteToken: string
+): BigNumber {
+  if (BigNumber.from(baseAmount).gt(MAX_UINT128)) throw new Error('base amount must fit in a uint128')
+  const sqrtRatioX96 = getSqrtRatioAtTick(tick)
+  const baseIsToken0 = baseToken.toLowerCase() < quoteToken.toLowerCase()
+
+  // calculate the quote amount with better precision if it doesn't overflow when multiplied by itself
+  if (sqrtRatioX96.lte(MAX_UINT128)) {
+    const ratioX192 = sqrtRatioX96.mul(sqrtRatioX96)
+    return baseIsToken0
+      ? mulDiv(ratioX192, baseAmount, BigNumber.from(1).shl(192))
+      : mulDiv(BigNumber.from(1).shl(192), baseAmount, ratioX192)
+  } else {
+    const ratioX128 = mulDiv(sqrtRatioX96, sqrtRatioX96, BigNumber.from(1).shl(64))
+    return baseIsToken0
+      ? mulDiv(ratioX128, baseAmount, BigNumber.from(1).shl(128))
+      : mulDiv(BigNumber.from(1).shl(128), baseAmount, ratioX128)
+  }
+}
+
+// the observation cardinality for the oracle of a pool to cover a window of secondsAgo seconds, as computed by
+// PoolInitializerWithCardinality. at most one observation is written per block, and the observations of n blocks span
+// n - 1 block times
+export function getObservationCardinalityForWindow(secondsAgo: number, blockTime: number): number {
+  if (blockTime <= 0) throw new Error('Invalid block time')
+  const observationCardinality = Math.ceil(secondsAgo / blockTime) + 1
+  if (observationCardinality > 65535) throw new Error('Window too long')
+  return observationCardinality
+}
+
+// IUniswapV3Pool.increaseObservationCardinalityNext initializes every new observation slot with a cold SSTORE of a
+// zero slot (22,100 gas since EIP-2929) and an iteration of its loop
+export const OBSERVATION_SLOT_GAS = 22_250
+
+// estimates the gas that growing the observation cardinality of a pool from observationCardinalityNext to
+// observationCardinality costs, on top of the cost of the call. the cardinality never shrinks, so growing to a smaller
+// cardinality costs nothing
+export function estimateObservationCardinalityGas(
+  observationCardinalityNext: number,
+  observationCardinality: number
+): number {
+  return Math.max(observationCardinality - observationCardinalityNext, 0) * OBSERVATION_SLOT_GAS
+}
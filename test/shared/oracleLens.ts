@@ -0,0 +1,77 @@
+import { BigNumber } from 'ethers'
+import { IOracleLens } from '../../typechain'
+import { FormatSqrtRatioX96Options } from './formatSqrtRatioX96'
+import { MAX_TICK, MIN_TICK } from './tickMath'
+import { tickToPrice } from './tickPrice'
+
+// a typed wrapper around OracleLens that converts the mean ticks of the windows to prices
+
+// the windows that risk tooling watches: 5 minutes, 30 minutes, 1 hour and 24 hours
+export const RISK_WINDOWS = [300, 1800, 3600, 86400]
+
+const LOG_TICK_BASE = Math.log(1.0001)
+
+export interface WindowPrice {
+  secondsAgo: number
+  arithmeticMeanTick: number
+  harmonicMeanLiquidity: BigNumber
+  tickVariance: BigNumber
+  // the time-weighted geometric mean price of token0 in terms of token1, or its inverse, as a decimal string
+  price: string
+  // the standard deviation of the mean ticks of the sub-intervals, and the price one standard deviation below and
+  // above the mean price, i.e. at the mean tick -/+ the standard deviation rounded to the nearest tick, bounded by the
+  // minimum and maximum tick
+  tickStandardDeviation: number
+  priceLower: string
+  priceUpper: string
+  // the standard deviation of the log price over the sub-intervals, i.e. the realized volatility per sub-interval
+  volatility: number
+}
+
+export interface GetWindowPricesOptions extends FormatSqrtRatioX96Options {
+  decimalsToken0?: number
+  decimalsToken1?: number
+}
+
+type OracleLens = Pick<IOracleLens, 'observeWindows'>
+
+export function toWindowPrice(
+  {
+    secondsAgo,
+    arithmeticMeanTick,
+    harmonicMeanLiquidity,
+    tickVariance,
+  }: Pick<WindowPrice, 'secondsAgo' | 'arithmeticMeanTick' | 'harmonicMeanLiquidity' | 'tickVariance'>,
+  { decimalsToken0 = 18, decimalsToken1 = 18, ...formatOptions }: GetWindowPricesOptions = {}
+): WindowPrice {
+  // the variance is at most 2**46, which a double represents exactly
+  const tickStandardDeviation = Math.sqrt(tickVariance.toNumber())
+  const tickDeviation = Math.round(tickStandardDeviation)
+  const tickBelow = Math.max(arithmeticMeanTick - tickDeviation, MIN_TICK)
+  const tickAbove = Math.min(arithmeticMeanTick + tickDeviation, MAX_TICK)
+  const [tickLower, tickUpper] = formatOptions.invert ? [tickAbove, tickBelow] : [tickBelow, tickAbove]
+
+  return {
+    secondsAgo,
+    arithmeticMeanTick,
+    harmonicMeanLiquidity,
+    tickVariance,
+    price: tickToPrice(arithmeticMeanTick, decimalsToken0, decimalsToken1, formatOptions),
+    tickStandardDeviation,
+    priceLower: tickToPrice(tickLower, decimalsToken0, decimalsToken1, formatOptions),
+    priceUpper: tickToPrice(tickUpper, decimalsToken0, decimalsToken1, formatOptions),
+    volatility: tickStandardDeviation * LOG_TICK_BASE,
+  }
+}
+
+// observes the pool over all windows in one call, with the mean ticks converted to prices with the token decimals
+export async function getWindowPrices(
+  oracleLens: OracleLens,
+  pool: string,
+  windows: number[] = RISK_WINDOWS,
+  intervals: number = 12,
+  options: GetWindowPricesOptions = {}
+): Promise<WindowPrice[]> {
+  const observations = await oracleLens.observeWindows(pool, windows, intervals)
+  return observations.map((observation) => toWindowPrice(observation, options))
+}
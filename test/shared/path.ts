@@ -6,30 +6,93 @@ const FEE_SIZE = 3
 const OFFSET = ADDR_SIZE + FEE_SIZE
 const DATA_SIZE = OFFSET + ADDR_SIZE
 
-export function encodePath(path: string[], fees: FeeAmount[]): string {
-  if (path.length != fees.length + 1) {
+// a decoded swap path, i.e. tokens[i] and tokens[i + 1] are traded in the pool with fees[i]
+export interface Path {
+  tokens: string[]
+  fees: FeeAmount[]
+}
+
+// a single pool within a path, oriented in the direction of the path
+export interface Hop {
+  tokenIn: string
+  tokenOut: string
+  fee: FeeAmount
+}
+
+const FEE_AMOUNTS: number[] = Object.values(FeeAmount).filter((value): value is number => typeof value === 'number')
+
+function validateAddress(address: string): string {
+  try {
+    // throws on a bad checksum, accepts all lower or all upper case
+    return utils.getAddress(address)
+  } catch (error) {
+    throw new Error(`invalid token address: ${address}`)
+  }
+}
+
+function validateFee(fee: number): FeeAmount {
+  if (!FEE_AMOUNTS.includes(fee)) {
+    throw new Error(`invalid fee: ${fee}`)
+  }
+  return fee
+}
+
+// validates the tokens and fees of a path and returns it with checksummed addresses
+export function toPath(tokens: string[], fees: number[]): Path {
+  if (fees.length === 0) {
+    throw new Error('path must contain at least one pool')
+  }
+  if (tokens.length != fees.length + 1) {
     throw new Error('path/fee lengths do not match')
   }
 
+  return { tokens: tokens.map(validateAddress), fees: fees.map(validateFee) }
+}
+
+export function encodePath(path: string[], fees: FeeAmount[]): string {
+  const { tokens } = toPath(path, fees)
+
   let encoded = '0x'
   for (let i = 0; i < fees.length; i++) {
     // 20 byte encoding of the address
-    encoded += path[i].slice(2)
+    encoded += tokens[i].slice(2)
     // 3 byte encoding of the fee
     encoded += fees[i].toString(16).padStart(2 * FEE_SIZE, '0')
   }
   // encode the final token
-  encoded += path[path.length - 1].slice(2)
+  encoded += tokens[tokens.length - 1].slice(2)
 
   return encoded.toLowerCase()
 }
 
+// returns the number of pools in an encoded path, mirroring Path.numPools
+export function numPools(path: string): number {
+  return (toBuffer(path).length - ADDR_SIZE) / OFFSET
+}
+
+function toBuffer(path: string): Buffer {
+  if (!utils.isHexString(path)) {
+    throw new Error('path is not a hex string')
+  }
+
+  const data = Buffer.from(path.slice(2), 'hex')
+  // a path is one 20 byte address followed by at least one 23 byte fee + address element
+  if (data.length < DATA_SIZE) {
+    throw new Error(`path must be at least ${DATA_SIZE} bytes`)
+  }
+  if ((data.length - ADDR_SIZE) % OFFSET != 0) {
+    throw new Error(`path length must be ${ADDR_SIZE} + ${OFFSET} * n bytes`)
+  }
+
+  return data
+}
+
 function decodeOne(tokenFeeToken: Buffer): [[string, string], number] {
   // reads the first 20 bytes for the token address
   const tokenABuf = tokenFeeToken.slice(0, ADDR_SIZE)
   const tokenA = utils.getAddress('0x' + tokenABuf.toString('hex'))
 
-  // reads the next 2 bytes for the fee
+  // reads the next 3 bytes for the fee
   const feeBuf = tokenFeeToken.slice(ADDR_SIZE, OFFSET)
   const fee = feeBuf.readUIntBE(0, FEE_SIZE)
 
@@ -40,22 +103,36 @@ function decodeOne(tokenFeeToken: Buffer): [[string, string], number] {
   return [[tokenA, tokenB], fee]
 }
 
-export function decodePath(path: string): [string[], number[]] {
-  let data = Buffer.from(path.slice(2), 'hex')
+export function parsePath(path: string): Path {
+  let data = toBuffer(path)
 
-  let tokens: string[] = []
-  let fees: number[] = []
-  let i = 0
+  const tokens: string[] = []
+  const fees: number[] = []
   let finalToken: string = ''
   while (data.length >= DATA_SIZE) {
     const [[tokenA, tokenB], fee] = decodeOne(data)
     finalToken = tokenB
-    tokens = [...tokens, tokenA]
-    fees = [...fees, fee]
-    data = data.slice((i + 1) * OFFSET)
-    i += 1
+    tokens.push(tokenA)
+    fees.push(fee)
+    // equivalent to Path.skipToken
+    data = data.slice(OFFSET)
   }
-  tokens = [...tokens, finalToken]
+  tokens.push(finalToken)
+
+  return toPath(tokens, fees)
+}
 
+export function decodePath(path: string): [string[], number[]] {
+  const { tokens, fees } = parsePath(path)
   return [tokens, fees]
 }
+
+// returns each pool of the path in order, i.e. the order in which exactInput swaps through them
+export function getHops({ tokens, fees }: Path): Hop[] {
+  return fees.map((fee, i) => ({ tokenIn: tokens[i], tokenOut: tokens[i + 1], fee }))
+}
+
+// reverses a path, e.g. to turn the path of an exact input swap into the path expected by exactOutput
+export function reversePath({ tokens, fees }: Path): Path {
+  return { tokens: tokens.slice().reverse(), fees: fees.slice().reverse() }
+}
@@ -1,61 +1,37 @@
-import { BigNumberish, constants, Signature, Wallet } from 'ethers'
-import { splitSignature } from 'ethers/lib/utils'
-import { TestERC20, TestERC20PermitAllowed } from '../../typechain'
+import { BigNumberish, constants, Signature } from 'ethers'
+import { IUniswapV2Pair, TestERC20, TestERC20PermitAllowed } from '../../typechain'
+import { DomainConfig, EIP712Signer, PERMIT_TYPES, resolveDomain, signTypedData } from './eip712'
 
 export async function getPermitSignature(
-  wallet: Wallet,
-  token: TestERC20 | TestERC20PermitAllowed,
+  wallet: EIP712Signer,
+  token: TestERC20 | TestERC20PermitAllowed | IUniswapV2Pair,
   spender: string,
   value: BigNumberish = constants.MaxUint256,
-  deadline = constants.MaxUint256,
-  permitConfig?: { nonce?: BigNumberish; name?: string; chainId?: number; version?: string }
+  deadline: BigNumberish = constants.MaxUint256,
+  permitConfig?: { nonce?: BigNumberish; owner?: string } & DomainConfig
 ): Promise<Signature> {
-  const [nonce, name, version, chainId] = await Promise.all([
-    permitConfig?.nonce ?? token.nonces(wallet.address),
-    permitConfig?.name ?? token.name(),
-    permitConfig?.version ?? '1',
-    permitConfig?.chainId ?? wallet.getChainId(),
+  const owner = permitConfig?.owner ?? (await wallet.getAddress())
+  const [nonce, domain] = await Promise.all([
+    permitConfig?.nonce ?? token.nonces(owner),
+    resolveDomain(token, wallet, permitConfig),
   ])
 
-  return splitSignature(
-    await wallet._signTypedData(
-      {
-        name,
-        version,
-        chainId,
-        verifyingContract: token.address,
-      },
-      {
-        Permit: [
-          {
-            name: 'owner',
-            type: 'address',
-          },
-          {
-            name: 'spender',
-            type: 'address',
-          },
-          {
-            name: 'value',
-            type: 'uint256',
-          },
-          {
-            name: 'nonce',
-            type: 'uint256',
-          },
-          {
-            name: 'deadline',
-            type: 'uint256',
-          },
-        ],
-      },
-      {
-        owner: wallet.address,
-        spender,
-        value,
-        nonce,
-        deadline,
-      }
-    )
-  )
+  return signTypedData(wallet, domain, PERMIT_TYPES, { owner, spender, value, nonce, deadline })
+}
+
+// the DAI-style permit of TestERC20PermitAllowed, i.e. the signature for
+// permit(holder, spender, nonce, expiry, allowed, v, r, s) and selfPermitAllowed(token, nonce, expiry, v, r, s).
+// the test token verifies it as an ERC-2612 permit of the maximum value if allowed, else of zero
+export async function getPermitAllowedSignature(
+  wallet: EIP712Signer,
+  token: TestERC20PermitAllowed,
+  spender: string,
+  expiry: BigNumberish = constants.MaxUint256,
+  allowed = true,
+  permitConfig?: { nonce?: BigNumberish; holder?: string } & DomainConfig
+): Promise<Signature> {
+  return getPermitSignature(wallet, token, spender, allowed ? constants.MaxUint256 : 0, expiry, {
+    ...permitConfig,
+    owner: permitConfig?.holder,
+  })
 }
@@ -0,0 +1,95 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { IPositionLens } from '../../typechain'
+
+// typed wrappers around PositionLens that return plain objects and follow the pages of an owner
+
+export interface PositionDetails {
+  tokenId: BigNumber
+  nonce: BigNumber
+  operator: string
+  token0: string
+  token1: string
+  fee: number
+  tickLower: number
+  tickUpper: number
+  liquidity: BigNumber
+  feeGrowthInside0LastX128: BigNumber
+  feeGrowthInside1LastX128: BigNumber
+  tokensOwed0: BigNumber
+  tokensOwed1: BigNumber
+  principal0: BigNumber
+  principal1: BigNumber
+  fees0: BigNumber
+  fees1: BigNumber
+  inRange: boolean
+  sqrtPriceX96: BigNumber
+  tick: number
+}
+
+type PositionLens = Pick<IPositionLens, 'getPositions' | 'getPositionsOfOwner'>
+
+// drops the positional keys of the decoded struct
+function toPositionDetails(position: PositionDetails): PositionDetails {
+  return {
+    tokenId: position.tokenId,
+    nonce: position.nonce,
+    operator: position.operator,
+    token0: position.token0,
+    token1: position.token1,
+    fee: position.fee,
+    tickLower: position.tickLower,
+    tickUpper: position.tickUpper,
+    liquidity: position.liquidity,
+    feeGrowthInside0LastX128: position.feeGrowthInside0LastX128,
+    feeGrowthInside1LastX128: position.feeGrowthInside1LastX128,
+    tokensOwed0: position.tokensOwed0,
+    tokensOwed1: position.tokensOwed1,
+    principal0: position.principal0,
+    principal1: position.principal1,
+    fees0: position.fees0,
+    fees1: position.fees1,
+    inRange: position.inRange,
+    sqrtPriceX96: position.sqrtPriceX96,
+    tick: position.tick,
+  }
+}
+
+export async function getPositions(
+  lens: PositionLens,
+  positionManager: string,
+  tokenIds: BigNumberish[]
+): Promise<PositionDetails[]> {
+  return (await lens.getPositions(positionManager, tokenIds)).map(toPositionDetails)
+}
+
+export async function getPositionsOfOwner(
+  lens: PositionLens,
+  positionManager: string,
+  owner: string,
+  startIndex: BigNumberish,
+  limit: BigNumberish
+): Promise<{ positions: PositionDetails[]; balance: BigNumber }> {
+  const { positions, balance } = await lens.getPositionsOfOwner(positionManager, owner, startIndex, limit)
+  return { positions: positions.map(toPositionDetails), balance }
+}
+
+// fetches every position of the owner with one call per page
+export async function getAllPositionsOfOwner(
+  lens: PositionLens,
+  positionManager: string,
+  owner: string,
+  pageSize: number = 50
+): Promise<PositionDetails[]> {
+  if (!Number.isInteger(pageSize) || pageSize < 1) throw new Error('page size must be a positive integer')
+
+  const all: PositionDetails[] = []
+  let balance: BigNumber
+  do {
+    const page = await getPositionsOfOwner(lens, positionManager, owner, all.length, pageSize)
+    all.push(...page.positions)
+    balance = page.balance
+    // the balance can shrink while paging, in which case the last page is short
+    if (page.positions.length < pageSize) break
+  } while (balance.gt(all.length))
+  return all
+}
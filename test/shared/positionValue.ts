@@ -0,0 +1,210 @@
+import { abi as POOL_ABI } from '@uniswap/v3-core/artifacts/contracts/UniswapV3Pool.sol/UniswapV3Pool.json'
+import { BigNumber, BigNumberish, constants, Contract } from 'ethers'
+import { INonfungiblePositionManager, IUniswapV3Factory, IUniswapV3Pool } from '../../typechain'
+import { computePoolAddress } from './computePoolAddress'
+import { FeeAmount } from './constants'
+import { getAmountsForLiquidity } from './liquidityAmounts'
+import { consult, getQuoteAtTick } from './oracle'
+import { mulDiv } from './sqrtPriceMath'
+import { getSqrtRatioAtTick } from './tickMath'
+
+// mirrors PositionValue.total, principal and fees for the output of NonfungiblePositionManager.positions
+
+const Q128 = BigNumber.from(2).pow(128)
+const MAX_UINT256 = constants.MaxUint256
+
+// the parts of the position manager that are read, so the mock position manager can be passed as well
+type PositionManager = Pick<
+  INonfungiblePositionManager,
+  'provider' | 'factory' | 'positions' | 'balanceOf' | 'tokenOfOwnerByIndex'
+>
+
+export interface PositionData {
+  token0: string
+  token1: string
+  fee: number
+  tickLower: number
+  tickUpper: number
+  liquidity: BigNumber
+  feeGrowthInside0LastX128: BigNumber
+  feeGrowthInside1LastX128: BigNumber
+  tokensOwed0: BigNumber
+  tokensOwed1: BigNumber
+}
+
+export interface TickFeeGrowth {
+  feeGrowthOutside0X128: BigNumber
+  feeGrowthOutside1X128: BigNumber
+}
+
+export interface PoolFeeGrowth {
+  tick: number
+  feeGrowthGlobal0X128: BigNumber
+  feeGrowthGlobal1X128: BigNumber
+  lower: TickFeeGrowth
+  upper: TickFeeGrowth
+}
+
+export interface TokenAmounts {
+  amount0: BigNumber
+  amount1: BigNumber
+}
+
+// the fee growth values are uint256 that are expected to under and overflow
+function sub256(a: BigNumber, b: BigNumber): BigNumber {
+  const difference = a.sub(b)
+  return difference.lt(0) ? difference.add(MAX_UINT256).add(1) : difference
+}
+
+export function getFeeGrowthInside(
+  { tick, feeGrowthGlobal0X128, feeGrowthGlobal1X128, lower, upper }: PoolFeeGrowth,
+  tickLower: number,
+  tickUpper: number
+): { feeGrowthInside0X128: BigNumber; feeGrowthInside1X128: BigNumber } {
+  if (tick < tickLower) {
+    return {
+      feeGrowthInside0X128: sub256(lower.feeGrowthOutside0X128, upper.feeGrowthOutside0X128),
+      feeGrowthInside1X128: sub256(lower.feeGrowthOutside1X128, upper.feeGrowthOutside1X128),
+    }
+  } else if (tick < tickUpper) {
+    return {
+      feeGrowthInside0X128: sub256(
+        sub256(feeGrowthGlobal0X128, lower.feeGrowthOutside0X128),
+        upper.feeGrowthOutside0X128
+      ),
+      feeGrowthInside1X128: sub256(
+        sub256(feeGrowthGlobal1X128, lower.feeGrowthOutside1X128),
+        upper.feeGrowthOutside1X128
+      ),
+    }
+  } else {
+    return {
+      feeGrowthInside0X128: sub256(upper.feeGrowthOutside0X128, lower.feeGrowthOutside0X128),
+      feeGrowthInside1X128: sub256(upper.feeGrowthOutside1X128, lower.feeGrowthOutside1X128),
+    }
+  }
+}
+
+export function principal(position: PositionData, sqrtRatioX96: BigNumberish): TokenAmounts {
+  return getAmountsForLiquidity(
+    sqrtRatioX96,
+    getSqrtRatioAtTick(position.tickLower),
+    getSqrtRatioAtTick(position.tickUpper),
+    position.liquidity
+  )
+}
+
+// the uncollected fees include the tokensOwed, which hold the fees and burned liquidity that were not collected yet
+export function fees(position: PositionData, poolFeeGrowth: PoolFeeGrowth): TokenAmounts {
+  const { feeGrowthInside0X128, feeGrowthInside1X128 } = getFeeGrowthInside(
+    poolFeeGrowth,
+    position.tickLower,
+    position.tickUpper
+  )
+  return {
+    amount0: mulDiv(sub256(feeGrowthInside0X128, position.feeGrowthInside0LastX128), position.liquidity, Q128).add(
+      position.tokensOwed0
+    ),
+    amount1: mulDiv(sub256(feeGrowthInside1X128, position.feeGrowthInside1LastX128), position.liquidity, Q128).add(
+      position.tokensOwed1
+    ),
+  }
+}
+
+export function total(position: PositionData, sqrtRatioX96: BigNumberish, poolFeeGrowth: PoolFeeGrowth): TokenAmounts {
+  const { amount0: amount0Principal, amount1: amount1Principal } = principal(position, sqrtRatioX96)
+  const { amount0: amount0Fee, amount1: amount1Fee } = fees(position, poolFeeGrowth)
+  return { amount0: amount0Principal.add(amount0Fee), amount1: amount1Principal.add(amount1Fee) }
+}
+
+export async function fetchPoolFeeGrowth(
+  pool: IUniswapV3Pool,
+  tickLower: number,
+  tickUpper: number
+): Promise<PoolFeeGrowth> {
+  const [{ tick }, feeGrowthGlobal0X128, feeGrowthGlobal1X128, lower, upper] = await Promise.all([
+    pool.slot0(),
+    pool.feeGrowthGlobal0X128(),
+    pool.feeGrowthGlobal1X128(),
+    pool.ticks(tickLower),
+    pool.ticks(tickUpper),
+  ])
+  return { tick, feeGrowthGlobal0X128, feeGrowthGlobal1X128, lower, upper }
+}
+
+export function poolAt(address: string, nft: PositionManager): IUniswapV3Pool {
+  return new Contract(address, POOL_ABI, nft.provider) as IUniswapV3Pool
+}
+
+// reads everything PositionValue reads for a token ID
+export async function fetchPositionValueInputs(
+  nft: PositionManager,
+  tokenId: BigNumberish
+): Promise<{ position: PositionData; sqrtRatioX96: BigNumber; poolFeeGrowth: PoolFeeGrowth }> {
+  const position = await nft.positions(tokenId)
+  const pool = poolAt(computePoolAddress(await nft.factory(), [position.token0, position.token1], position.fee), nft)
+  const [{ sqrtPriceX96 }, poolFeeGrowth] = await Promise.all([
+    pool.slot0(),
+    fetchPoolFeeGrowth(pool, position.tickLower, position.tickUpper),
+  ])
+  return { position, sqrtRatioX96: sqrtPriceX96, poolFeeGrowth }
+}
+
+export interface ValuePortfolioParams {
+  nft: PositionManager
+  factory: IUniswapV3Factory
+  owner: string
+  // the token that the positions are valued in
+  numeraire: string
+  // the TWAP period used for converting the other tokens into the numeraire
+  secondsAgo: number
+  // the fee tiers of the pools with the numeraire, the pool with the most liquidity is used
+  feeAmounts?: FeeAmount[]
+}
+
+export interface PositionValuation extends TokenAmounts {
+  tokenId: BigNumber
+  value: BigNumber
+}
+
+// values every position of the owner at its total amounts, with the tokens converted at their TWAP to the numeraire
+export async function valuePortfolio({
+  nft,
+  factory,
+  owner,
+  numeraire,
+  secondsAgo,
+  feeAmounts = [FeeAmount.LOW, FeeAmount.MEDIUM, FeeAmount.HIGH],
+}: ValuePortfolioParams): Promise<{ positions: PositionValuation[]; value: BigNumber }> {
+  const ticks: { [token: string]: number } = {}
+  async function getTwapTick(token: string): Promise<number> {
+    if (ticks[token] === undefined) {
+      const pools = (await Promise.all(feeAmounts.map((fee) => factory.getPool(token, numeraire, fee)))).filter(
+        (address) => address !== constants.AddressZero
+      )
+      if (pools.length === 0) throw new Error(`no pool to price ${token} in ${numeraire}`)
+
+      const liquidities = await Promise.all(pools.map((address) => poolAt(address, nft).liquidity()))
+      const deepest = pools[liquidities.reduce((best, liquidity, i) => (liquidity.gt(liquidities[best]) ? i : best), 0)]
+      ticks[token] = (await consult(poolAt(deepest, nft), secondsAgo)).arithmeticMeanTick
+    }
+    return ticks[token]
+  }
+
+  async function quote(token: string, amount: BigNumber): Promise<BigNumber> {
+    if (token.toLowerCase() === numeraire.toLowerCase() || amount.isZero()) return amount
+    return getQuoteAtTick(await getTwapTick(token), amount, token, numeraire)
+  }
+
+  const balance = (await nft.balanceOf(owner)).toNumber()
+  const positions: PositionValuation[] = []
+  for (let i = 0; i < balance; i++) {
+    const tokenId = await nft.tokenOfOwnerByIndex(owner, i)
+    const { position, sqrtRatioX96, poolFeeGrowth } = await fetchPositionValueInputs(nft, tokenId)
+    const { amount0, amount1 } = total(position, sqrtRatioX96, poolFeeGrowth)
+    const value = (await quote(position.token0, amount0)).add(await quote(position.token1, amount1))
+    positions.push({ tokenId, amount0, amount1, value })
+  }
+
+  return { positions, value: positions.reduce((sum, { value }) => sum.add(value), BigNumber.from(0)) }
+}
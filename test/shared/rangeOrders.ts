@@ -0,0 +1,75 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { FeeAmount, TICK_SPACINGS } from './constants'
+import {
+  getAmount0ForLiquidity,
+  getAmount1ForLiquidity,
+  getLiquidityForAmount0,
+  getLiquidityForAmount1,
+} from './liquidityAmounts'
+import { getSqrtRatioAtTick } from './tickMath'
+import { priceToSqrtRatioX96, priceToTick } from './tickPrice'
+import { getMaxTick, getMinTick } from './ticks'
+
+// picks the range of a RangeOrderManager order so that the whole order executes at or beyond the desired price
+
+export interface RangeOrderTicks {
+  tickLower: number
+  tickUpper: number
+}
+
+// returns the range one tick spacing wide that is closest to the price of token1 per token0 while entirely at or
+// above it for an order selling token0, or entirely at or below it for an order selling token1
+export function getRangeOrderTicks(
+  price: string,
+  zeroForOne: boolean,
+  feeAmount: FeeAmount,
+  decimalsToken0: number = 18,
+  decimalsToken1: number = 18
+): RangeOrderTicks {
+  const tickSpacing = TICK_SPACINGS[feeAmount]
+  // the greatest tick whose price is at most the given price
+  const tick = priceToTick(price, decimalsToken0, decimalsToken1)
+
+  let tickLower: number
+  if (zeroForOne) {
+    // the least usable tick whose price is at least the given price
+    const exact = getSqrtRatioAtTick(tick).eq(priceToSqrtRatioX96(price, decimalsToken0, decimalsToken1))
+    tickLower = Math.ceil((exact ? tick : tick + 1) / tickSpacing) * tickSpacing
+  } else {
+    tickLower = Math.floor(tick / tickSpacing) * tickSpacing - tickSpacing
+  }
+
+  // avoid returning -0 from rounding a tick between -tickSpacing and 0
+  tickLower += 0
+  const tickUpper = tickLower + tickSpacing
+  if (tickLower < getMinTick(tickSpacing) || tickUpper > getMaxTick(tickSpacing)) {
+    throw new Error(`price out of range: ${price}`)
+  }
+  return { tickLower, tickUpper }
+}
+
+// returns the amount that an order receives once filled, without the fees it earns
+export function getRangeOrderAmountOut(
+  { tickLower, tickUpper }: RangeOrderTicks,
+  zeroForOne: boolean,
+  amountIn: BigNumberish
+): BigNumber {
+  const sqrtRatioAX96 = getSqrtRatioAtTick(tickLower)
+  const sqrtRatioBX96 = getSqrtRatioAtTick(tickUpper)
+  return zeroForOne
+    ? getAmount1ForLiquidity(
+        sqrtRatioAX96,
+        sqrtRatioBX96,
+        getLiquidityForAmount0(sqrtRatioAX96, sqrtRatioBX96, amountIn)
+      )
+    : getAmount0ForLiquidity(
+        sqrtRatioAX96,
+        sqrtRatioBX96,
+        getLiquidityForAmount1(sqrtRatioAX96, sqrtRatioBX96, amountIn)
+      )
+}
+
+// mirrors RangeOrderManager.isFilled for the current tick of the pool
+export function isRangeOrderFilled({ tickLower, tickUpper }: RangeOrderTicks, zeroForOne: boolean, tick: number) {
+  return zeroForOne ? tick >= tickUpper : tick < tickLower
+}
@@ -0,0 +1,16 @@
+import { ethers } from 'hardhat'
+
+// reverts the chain to its state before the suite once the suite is done. every spec runs on the same chain, and the
+// transactions of the last test of a suite move the nonces of the wallets, and so the addresses and gas costs of the
+// contracts that the specs after it deploy
+export default function revertChainAfter(): void {
+  let snapshotId: string
+
+  before('snapshot the chain', async () => {
+    snapshotId = await ethers.provider.send('evm_snapshot', [])
+  })
+
+  after('revert the chain', async () => {
+    await ethers.provider.send('evm_revert', [snapshotId])
+  })
+}
@@ -0,0 +1,153 @@
+import { abi as POOL_ABI } from '@uniswap/v3-core/artifacts/contracts/UniswapV3Pool.sol/UniswapV3Pool.json'
+import { BigNumber, BigNumberish, Contract } from 'ethers'
+import { IQuoterV2, ITickLens, IUniswapV3Pool } from '../../typechain'
+import { computePoolAddress } from './computePoolAddress'
+import { FeeAmount, TICK_SPACINGS } from './constants'
+import { encodePath, Path, toPath } from './path'
+
+export interface RouteQuote {
+  path: Path
+  encodedPath: string
+  amountOut: BigNumber
+  sqrtPriceX96AfterList: BigNumber[]
+  initializedTicksCrossedList: number[]
+  gasEstimate: BigNumber
+  // amountOut less the cost of gasEstimate, both denominated in tokenOut
+  gasAdjustedAmountOut: BigNumber
+}
+
+export interface FindRoutesParams {
+  quoter: IQuoterV2
+  tickLens: ITickLens
+  factory: string
+  tokenIn: string
+  tokenOut: string
+  amountIn: BigNumberish
+  // tokens that may be used as hops between tokenIn and tokenOut
+  intermediateTokens?: string[]
+  feeAmounts?: FeeAmount[]
+  // the maximum number of pools in a route
+  maxHops?: number
+  // the price of one unit of gas, denominated in the smallest unit of tokenOut
+  gasPriceInTokenOut?: BigNumberish
+  // the maximum number of routes to return
+  maxRoutes?: number
+}
+
+// the reasons that QuoterV2 reverts with for a path through a pool that cannot swap the amount: the swap callback
+// reverts without a reason for a swap entirely within a region without liquidity, which the quoter reports as an
+// unexpected error, and the pools revert for a hop with no input ('AS'), a pool at its price limit ('SPL') or a pool
+// that is not initialized ('LOK')
+const UNUSABLE_PATH_REASONS = ['Unexpected error', 'AS', 'SPL', 'LOK']
+
+// the reason string of a reverted call, as reported by ethers or in the message of a hardhat or geth style node
+function getRevertReason(error: unknown): string | undefined {
+  if (typeof error !== 'object' || error === null) return undefined
+  const { reason, message } = error as { reason?: unknown; message?: unknown }
+  if (typeof reason === 'string') return reason
+  if (typeof message !== 'string') return undefined
+  const match = /reverted with reason string '([^']*)'|execution reverted: ([^"\n]*)/.exec(message)
+  return match ? match[1] ?? match[2] : undefined
+}
+
+// a pool is usable if it exists and either has active liquidity or initialized ticks in the word of the current tick
+async function isPoolUsable(tickLens: ITickLens, pool: IUniswapV3Pool, fee: FeeAmount): Promise<boolean> {
+  if ((await pool.provider.getCode(pool.address)) === '0x') return false
+  const [{ tick }, liquidity] = await Promise.all([pool.slot0(), pool.liquidity()])
+  if (liquidity.gt(0)) return true
+  const wordPosition = Math.floor(tick / TICK_SPACINGS[fee]) >> 8
+  return (await tickLens.getPopulatedTicksInWord(pool.address, wordPosition)).length > 0
+}
+
+// returns every sequence of distinct tokens from tokenIn to tokenOut with at most maxHops pools
+function enumerateTokenPaths(tokenIn: string, tokenOut: string, intermediateTokens: string[], maxHops: number) {
+  const tokenPaths: string[][] = []
+  const visit = (tokens: string[]) => {
+    if (tokens.length > maxHops) return
+    tokenPaths.push([...tokens, tokenOut])
+    for (const token of intermediateTokens) {
+      if (!tokens.includes(token)) visit([...tokens, token])
+    }
+  }
+  visit([tokenIn])
+  return tokenPaths
+}
+
+// finds the candidate routes for an exact input swap and returns their quotes ranked by gas adjusted output
+export async function findRoutes({
+  quoter,
+  tickLens,
+  factory,
+  tokenIn,
+  tokenOut,
+  amountIn,
+  intermediateTokens = [],
+  feeAmounts = [FeeAmount.LOW, FeeAmount.MEDIUM, FeeAmount.HIGH],
+  maxHops = 2,
+  gasPriceInTokenOut = 0,
+  maxRoutes,
+}: FindRoutesParams): Promise<RouteQuote[]> {
+  if (tokenIn.toLowerCase() === tokenOut.toLowerCase()) throw new Error('tokenIn and tokenOut must differ')
+  const intermediates = intermediateTokens.filter(
+    (token) => ![tokenIn.toLowerCase(), tokenOut.toLowerCase()].includes(token.toLowerCase())
+  )
+
+  // look up each pool once, since many candidate paths share pools
+  const usable: { [poolAddress: string]: Promise<boolean> } = {}
+  const isUsable = (tokenA: string, tokenB: string, fee: FeeAmount) => {
+    const poolAddress = computePoolAddress(factory, [tokenA, tokenB], fee)
+    if (!(poolAddress in usable)) {
+      const pool = new Contract(poolAddress, POOL_ABI, quoter.provider) as IUniswapV3Pool
+      usable[poolAddress] = isPoolUsable(tickLens, pool, fee)
+    }
+    return usable[poolAddress]
+  }
+
+  const candidates: Path[] = []
+  for (const tokens of enumerateTokenPaths(tokenIn, tokenOut, intermediates, maxHops)) {
+    let feePaths: FeeAmount[][] = [[]]
+    for (let i = 0; i < tokens.length - 1; i++) {
+      const fees: FeeAmount[] = []
+      for (const fee of feeAmounts) {
+        if (await isUsable(tokens[i], tokens[i + 1], fee)) fees.push(fee)
+      }
+      feePaths = feePaths.reduce<FeeAmount[][]>(
+        (extended, feePath) => [...extended, ...fees.map((fee) => [...feePath, fee])],
+        []
+      )
+    }
+    candidates.push(...feePaths.map((fees) => toPath(tokens, fees)))
+  }
+
+  const quotes: RouteQuote[] = []
+  for (const path of candidates) {
+    const encodedPath = encodePath(path.tokens, path.fees)
+    let quote
+    try {
+      quote = await quoter.callStatic.quoteExactInput(encodedPath, amountIn)
+    } catch (error) {
+      // the path cannot be swapped through, while any other failure is not a missing route
+      const reason = getRevertReason(error)
+      if (reason !== undefined && UNUSABLE_PATH_REASONS.includes(reason)) continue
+      throw error
+    }
+    quotes.push({
+      path,
+      encodedPath,
+      amountOut: quote.amountOut,
+      sqrtPriceX96AfterList: quote.sqrtPriceX96AfterList,
+      initializedTicksCrossedList: quote.initializedTicksCrossedList,
+      gasEstimate: quote.gasEstimate,
+      gasAdjustedAmountOut: quote.amountOut.sub(quote.gasEstimate.mul(gasPriceInTokenOut)),
+    })
+  }
+
+  quotes.sort((a, b) => {
+    if (!a.gasAdjustedAmountOut.eq(b.gasAdjustedAmountOut))
+      return a.gasAdjustedAmountOut.gt(b.gasAdjustedAmountOut) ? -1 : 1
+    // prefer shorter paths when the output is the same
+    return a.path.fees.length - b.path.fees.length
+  })
+
+  return maxRoutes === undefined ? quotes : quotes.slice(0, maxRoutes)
+}
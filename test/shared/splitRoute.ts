@@ -0,0 +1,61 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { ISwapRouter } from '../../typechain'
+import { encodePath, Path } from './path'
+
+export interface SplitRoute {
+  path: Path
+  amountIn: BigNumberish
+}
+
+export interface ExactInputSplitParams {
+  paths: string[]
+  amountsIn: BigNumberish[]
+  recipient: string
+  deadline: BigNumberish
+  amountOutMinimum: BigNumberish
+}
+
+// splits amount proportionally to the given weights, the rounding remainder is added to the first part
+export function splitAmount(amount: BigNumberish, weights: number[]): BigNumber[] {
+  if (weights.length === 0 || weights.some((weight) => !Number.isInteger(weight) || weight < 0)) {
+    throw new Error('weights must be non-negative integers')
+  }
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0)
+  if (totalWeight === 0) throw new Error('weights must not all be zero')
+
+  const parts = weights.map((weight) => BigNumber.from(amount).mul(weight).div(totalWeight))
+  const remainder = parts.reduce((rest, part) => rest.sub(part), BigNumber.from(amount))
+  parts[0] = parts[0].add(remainder)
+  return parts
+}
+
+export function getExactInputSplitParams(
+  routes: SplitRoute[],
+  recipient: string,
+  deadline: BigNumberish,
+  amountOutMinimum: BigNumberish
+): ExactInputSplitParams {
+  if (routes.length === 0) throw new Error('at least one route is required')
+
+  const tokenIn = routes[0].path.tokens[0]
+  const tokenOut = routes[0].path.tokens[routes[0].path.tokens.length - 1]
+  for (const { path } of routes) {
+    // mirrors the 'Invalid split' checks of SwapRouter.exactInputSplit
+    if (path.tokens[0] !== tokenIn || path.tokens[path.tokens.length - 1] !== tokenOut) {
+      throw new Error('all routes must have the same input and output tokens')
+    }
+  }
+
+  return {
+    paths: routes.map(({ path }) => encodePath(path.tokens, path.fees)),
+    amountsIn: routes.map(({ amountIn }) => amountIn),
+    recipient,
+    deadline,
+    amountOutMinimum,
+  }
+}
+
+// returns the calldata of an exactInputSplit call, e.g. for use in a multicall
+export function encodeExactInputSplit(router: ISwapRouter, params: ExactInputSplitParams): string {
+  return router.interface.encodeFunctionData('exactInputSplit', [params])
+}
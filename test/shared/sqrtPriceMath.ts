@@ -0,0 +1,129 @@
+import { BigNumber, BigNumberish } from 'ethers'
+
+// ports of the core FullMath, UnsafeMath and SqrtPriceMath libraries with identical rounding
+
+export const Q96 = BigNumber.from(2).pow(96)
+const MAX_UINT160 = BigNumber.from(2).pow(160).sub(1)
+const MAX_UINT256 = BigNumber.from(2).pow(256).sub(1)
+
+function checkUint256(x: BigNumber): BigNumber {
+  if (x.gt(MAX_UINT256)) throw new Error('uint256 overflow')
+  return x
+}
+
+function toUint160(x: BigNumber): BigNumber {
+  if (x.gt(MAX_UINT160)) throw new Error('uint160 overflow')
+  return x
+}
+
+export function mulDiv(a: BigNumberish, b: BigNumberish, denominator: BigNumberish): BigNumber {
+  if (BigNumber.from(denominator).isZero()) throw new Error('division by zero')
+  return checkUint256(BigNumber.from(a).mul(b).div(denominator))
+}
+
+export function mulDivRoundingUp(a: BigNumberish, b: BigNumberish, denominator: BigNumberish): BigNumber {
+  const result = mulDiv(a, b, denominator)
+  return BigNumber.from(a).mul(b).mod(denominator).isZero() ? result : checkUint256(result.add(1))
+}
+
+export function divRoundingUp(x: BigNumberish, y: BigNumberish): BigNumber {
+  const quotient = BigNumber.from(x).div(y)
+  return BigNumber.from(x).mod(y).isZero() ? quotient : quotient.add(1)
+}
+
+export function getNextSqrtPriceFromAmount0RoundingUp(
+  sqrtPX96: BigNumber,
+  liquidity: BigNumber,
+  amount: BigNumber,
+  add: boolean
+): BigNumber {
+  // we short circuit amount == 0 because the result is otherwise not guaranteed to equal the input price
+  if (amount.isZero()) return sqrtPX96
+  const numerator1 = liquidity.shl(96)
+  const product = amount.mul(sqrtPX96)
+
+  if (add) {
+    // the overflow checks of the solidity implementation decide which of the two formulas is used
+    if (product.lte(MAX_UINT256) && numerator1.add(product).lte(MAX_UINT256)) {
+      return mulDivRoundingUp(numerator1, sqrtPX96, numerator1.add(product))
+    }
+    return divRoundingUp(numerator1, checkUint256(numerator1.div(sqrtPX96).add(amount)))
+  } else {
+    if (product.gt(MAX_UINT256) || numerator1.lte(product)) throw new Error('denominator underflow')
+    return toUint160(mulDivRoundingUp(numerator1, sqrtPX96, numerator1.sub(product)))
+  }
+}
+
+export function getNextSqrtPriceFromAmount1RoundingDown(
+  sqrtPX96: BigNumber,
+  liquidity: BigNumber,
+  amount: BigNumber,
+  add: boolean
+): BigNumber {
+  // if we're adding (subtracting), rounding down requires rounding the quotient down (up)
+  if (add) {
+    return toUint160(sqrtPX96.add(mulDiv(amount, Q96, liquidity)))
+  } else {
+    const quotient = mulDivRoundingUp(amount, Q96, liquidity)
+    if (sqrtPX96.lte(quotient)) throw new Error('price underflow')
+    return sqrtPX96.sub(quotient)
+  }
+}
+
+export function getNextSqrtPriceFromInput(
+  sqrtPX96: BigNumber,
+  liquidity: BigNumber,
+  amountIn: BigNumber,
+  zeroForOne: boolean
+): BigNumber {
+  if (sqrtPX96.isZero() || liquidity.isZero()) throw new Error('price and liquidity must be positive')
+
+  // round to make sure that we don't pass the target price
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountIn, true)
+    : getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountIn, true)
+}
+
+export function getNextSqrtPriceFromOutput(
+  sqrtPX96: BigNumber,
+  liquidity: BigNumber,
+  amountOut: BigNumber,
+  zeroForOne: boolean
+): BigNumber {
+  if (sqrtPX96.isZero() || liquidity.isZero()) throw new Error('price and liquidity must be positive')
+
+  // round to make sure that we pass the target price
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountOut, false)
+    : getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountOut, false)
+}
+
+export function getAmount0Delta(
+  sqrtRatioAX96: BigNumber,
+  sqrtRatioBX96: BigNumber,
+  liquidity: BigNumber,
+  roundUp: boolean
+): BigNumber {
+  if (sqrtRatioAX96.gt(sqrtRatioBX96)) [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96]
+  if (sqrtRatioAX96.isZero()) throw new Error('price must be positive')
+
+  const numerator1 = liquidity.shl(96)
+  const numerator2 = sqrtRatioBX96.sub(sqrtRatioAX96)
+
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, sqrtRatioBX96), sqrtRatioAX96)
+    : mulDiv(numerator1, numerator2, sqrtRatioBX96).div(sqrtRatioAX96)
+}
+
+export function getAmount1Delta(
+  sqrtRatioAX96: BigNumber,
+  sqrtRatioBX96: BigNumber,
+  liquidity: BigNumber,
+  roundUp: boolean
+): BigNumber {
+  if (sqrtRatioAX96.gt(sqrtRatioBX96)) [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96]
+
+  return roundUp
+    ? mulDivRoundingUp(liquidity, sqrtRatioBX96.sub(sqrtRatioAX96), Q96)
+    : mulDiv(liquidity, sqrtRatioBX96.sub(sqrtRatioAX96), Q96)
+}
@@ -0,0 +1,73 @@
+import { BigNumber } from 'ethers'
+import {
+  getAmount0Delta,
+  getAmount1Delta,
+  getNextSqrtPriceFromInput,
+  getNextSqrtPriceFromOutput,
+  mulDiv,
+  mulDivRoundingUp,
+} from './sqrtPriceMath'
+
+export interface SwapStep {
+  sqrtRatioNextX96: BigNumber
+  amountIn: BigNumber
+  amountOut: BigNumber
+  feeAmount: BigNumber
+}
+
+// returns the same values as SwapMath.computeSwapStep, a positive amountRemaining means exact input
+export function computeSwapStep(
+  sqrtRatioCurrentX96: BigNumber,
+  sqrtRatioTargetX96: BigNumber,
+  liquidity: BigNumber,
+  amountRemaining: BigNumber,
+  feePips: number
+): SwapStep {
+  const zeroForOne = sqrtRatioCurrentX96.gte(sqrtRatioTargetX96)
+  const exactIn = amountRemaining.gte(0)
+
+  let sqrtRatioNextX96: BigNumber
+  let amountIn = BigNumber.from(0)
+  let amountOut = BigNumber.from(0)
+
+  if (exactIn) {
+    const amountRemainingLessFee = mulDiv(amountRemaining, 1e6 - feePips, 1e6)
+    amountIn = zeroForOne
+      ? getAmount0Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, true)
+      : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, true)
+    if (amountRemainingLessFee.gte(amountIn)) sqrtRatioNextX96 = sqrtRatioTargetX96
+    else
+      sqrtRatioNextX96 = getNextSqrtPriceFromInput(sqrtRatioCurrentX96, liquidity, amountRemainingLessFee, zeroForOne)
+  } else {
+    amountOut = zeroForOne
+      ? getAmount1Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, false)
+      : getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, false)
+    if (amountRemaining.mul(-1).gte(amountOut)) sqrtRatioNextX96 = sqrtRatioTargetX96
+    else
+      sqrtRatioNextX96 = getNextSqrtPriceFromOutput(sqrtRatioCurrentX96, liquidity, amountRemaining.mul(-1), zeroForOne)
+  }
+
+  const max = sqrtRatioTargetX96.eq(sqrtRatioNextX96)
+
+  // get the input/output amounts
+  if (zeroForOne) {
+    if (!(max && exactIn)) amountIn = getAmount0Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, true)
+    if (!(max && !exactIn)) amountOut = getAmount1Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, false)
+  } else {
+    if (!(max && exactIn)) amountIn = getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, true)
+    if (!(max && !exactIn)) amountOut = getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, false)
+  }
+
+  // cap the output amount to not exceed the remaining output amount
+  if (!exactIn && amountOut.gt(amountRemaining.mul(-1))) {
+    amountOut = amountRemaining.mul(-1)
+  }
+
+  const feeAmount =
+    exactIn && !sqrtRatioNextX96.eq(sqrtRatioTargetX96)
+      ? // we didn't reach the target, so take the remainder of the maximum input as fee
+        amountRemaining.sub(amountIn)
+      : mulDivRoundingUp(amountIn, feePips, 1e6 - feePips)
+
+  return { sqrtRatioNextX96, amountIn, amountOut, feeAmount }
+}
@@ -0,0 +1,28 @@
+import { BigNumberish, Signature } from 'ethers'
+import { SwapOrderExecutor } from '../../typechain'
+import { DomainConfig, EIP712Signer, resolveDomain, signTypedData, SWAP_ORDER_TYPES } from './eip712'
+
+export interface SwapOrder {
+  signer: string
+  tokenIn: string
+  tokenOut: string
+  path: string
+  amountIn: BigNumberish
+  amountOutMinimum: BigNumberish
+  recipient: string
+  nonce: BigNumberish
+  deadline: BigNumberish
+}
+
+// the order signer may be a contract that accepts the signature of the wallet with ERC-1271
+export async function getSwapOrderSignature(
+  wallet: EIP712Signer,
+  executor: SwapOrderExecutor,
+  order: SwapOrder,
+  orderConfig?: DomainConfig
+): Promise<Signature> {
+  // the executor has no name() getter
+  const domain = await resolveDomain(executor, wallet, orderConfig, { name: 'Uniswap V3 Swap Order Executor' })
+
+  return signTypedData(wallet, domain, SWAP_ORDER_TYPES, order)
+}
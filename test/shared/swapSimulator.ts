@@ -0,0 +1,305 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { ITickLens, IUniswapV3Pool } from '../../typechain'
+import { parsePath } from './path'
+import { computeSwapStep } from './swapMath'
+import { getSqrtRatioAtTick, getTickAtSqrtRatio, MAX_SQRT_RATIO, MAX_TICK, MIN_SQRT_RATIO, MIN_TICK } from './tickMath'
+
+export interface PopulatedTick {
+  tick: number
+  liquidityNet: BigNumber
+}
+
+// everything about a pool that a swap depends on
+export interface PoolState {
+  token0: string
+  token1: string
+  fee: number
+  tickSpacing: number
+  sqrtPriceX96: BigNumber
+  tick: number
+  liquidity: BigNumber
+  // the initialized ticks of the pool, sorted ascending
+  ticks: PopulatedTick[]
+}
+
+export interface SwapResult {
+  amount0: BigNumber
+  amount1: BigNumber
+  sqrtPriceX96: BigNumber
+  tick: number
+  liquidity: BigNumber
+}
+
+export interface SingleQuote {
+  amount: BigNumber
+  sqrtPriceX96After: BigNumber
+  initializedTicksCrossed: number
+}
+
+export interface Quote {
+  amount: BigNumber
+  sqrtPriceX96AfterList: BigNumber[]
+  initializedTicksCrossedList: number[]
+}
+
+// fetches the state of a pool, reading the populated ticks of every non empty word of the tick bitmap via the TickLens
+export async function fetchPoolState(pool: IUniswapV3Pool, tickLens: ITickLens): Promise<PoolState> {
+  const [token0, token1, fee, tickSpacing, { sqrtPriceX96, tick }, liquidity] = await Promise.all([
+    pool.token0(),
+    pool.token1(),
+    pool.fee(),
+    pool.tickSpacing(),
+    pool.slot0(),
+    pool.liquidity(),
+  ])
+
+  const minWord = Math.floor(MIN_TICK / tickSpacing) >> 8
+  const maxWord = Math.floor(MAX_TICK / tickSpacing) >> 8
+  const words: number[] = []
+  for (let word = minWord; word <= maxWord; word++) words.push(word)
+
+  const bitmaps = await Promise.all(words.map((word) => pool.tickBitmap(word)))
+  const populatedTicks = await Promise.all(
+    words.filter((_, i) => !bitmaps[i].isZero()).map((word) => tickLens.getPopulatedTicksInWord(pool.address, word))
+  )
+
+  const ticks = populatedTicks
+    .reduce<PopulatedTick[]>(
+      (all, inWord) => [...all, ...inWord.map(({ tick, liquidityNet }) => ({ tick, liquidityNet }))],
+      []
+    )
+    .sort((a, b) => a.tick - b.tick)
+
+  return { token0, token1, fee, tickSpacing, sqrtPriceX96, tick, liquidity, ticks }
+}
+
+function isInitialized({ ticks }: PoolState, tick: number): boolean {
+  return ticks.some((populated) => populated.tick === tick)
+}
+
+// mirrors TickBitmap.nextInitializedTickWithinOneWord on the list of initialized ticks
+function nextInitializedTickWithinOneWord(state: PoolState, tick: number, lte: boolean): [number, boolean] {
+  const { tickSpacing, ticks } = state
+  const compressed = Math.floor(tick / tickSpacing)
+
+  if (lte) {
+    // the lowest tick in the word of the compressed tick
+    const wordStart = compressed - (((compressed % 256) + 256) % 256)
+    for (let i = ticks.length - 1; i >= 0; i--) {
+      const initialized = ticks[i].tick / tickSpacing
+      if (initialized <= compressed) {
+        return initialized >= wordStart ? [ticks[i].tick, true] : [wordStart * tickSpacing, false]
+      }
+    }
+    return [wordStart * tickSpacing, false]
+  } else {
+    // start from the next tick, since the current tick state doesn't matter
+    const next = compressed + 1
+    const wordEnd = next + (255 - (((next % 256) + 256) % 256))
+    for (let i = 0; i < ticks.length; i++) {
+      const initialized = ticks[i].tick / tickSpacing
+      if (initialized >= next) {
+        return initialized <= wordEnd ? [ticks[i].tick, true] : [wordEnd * tickSpacing, false]
+      }
+    }
+    return [wordEnd * tickSpacing, false]
+  }
+}
+
+// simulates UniswapV3Pool.swap without the fee accounting, a positive amountSpecified means exact input
+export function simulateSwap(
+  state: PoolState,
+  zeroForOne: boolean,
+  amountSpecified: BigNumberish,
+  sqrtPriceLimitX96: BigNumberish
+): SwapResult {
+  const amount = BigNumber.from(amountSpecified)
+  const limit = BigNumber.from(sqrtPriceLimitX96)
+  if (amount.isZero()) throw new Error('AS')
+  if (
+    zeroForOne
+      ? !(limit.lt(state.sqrtPriceX96) && limit.gt(MIN_SQRT_RATIO))
+      : !(limit.gt(state.sqrtPriceX96) && limit.lt(MAX_SQRT_RATIO))
+  )
+    throw new Error('SPL')
+
+  const exactInput = amount.gt(0)
+
+  let amountSpecifiedRemaining = amount
+  let amountCalculated = BigNumber.from(0)
+  let sqrtPriceX96 = state.sqrtPriceX96
+  let tick = state.tick
+  let liquidity = state.liquidity
+
+  while (!amountSpecifiedRemaining.isZero() && !sqrtPriceX96.eq(limit)) {
+    const sqrtPriceStartX96 = sqrtPriceX96
+    let [tickNext, initialized] = nextInitializedTickWithinOneWord(state, tick, zeroForOne)
+    // ensure that we do not overshoot the min/max tick, as the tick bitmap is not aware of these bounds
+    tickNext = Math.min(Math.max(tickNext, MIN_TICK), MAX_TICK)
+    const sqrtPriceNextX96 = getSqrtRatioAtTick(tickNext)
+
+    const step = computeSwapStep(
+      sqrtPriceX96,
+      (zeroForOne ? sqrtPriceNextX96.lt(limit) : sqrtPriceNextX96.gt(limit)) ? limit : sqrtPriceNextX96,
+      liquidity,
+      amountSpecifiedRemaining,
+      state.fee
+    )
+    sqrtPriceX96 = step.sqrtRatioNextX96
+
+    if (exactInput) {
+      amountSpecifiedRemaining = amountSpecifiedRemaining.sub(step.amountIn.add(step.feeAmount))
+      amountCalculated = amountCalculated.sub(step.amountOut)
+    } else {
+      amountSpecifiedRemaining = amountSpecifiedRemaining.add(step.amountOut)
+      amountCalculated = amountCalculated.add(step.amountIn.add(step.feeAmount))
+    }
+
+    if (sqrtPriceX96.eq(sqrtPriceNextX96)) {
+      // if the tick is initialized, run the tick transition
+      if (initialized) {
+        const { liquidityNet } = state.ticks.find((populated) => populated.tick === tickNext)!
+        // if we're moving leftward, we interpret liquidityNet as the opposite sign
+        liquidity = zeroForOne ? liquidity.sub(liquidityNet) : liquidity.add(liquidityNet)
+        if (liquidity.lt(0)) throw new Error('LS')
+      }
+      tick = zeroForOne ? tickNext - 1 : tickNext
+    } else if (!sqrtPriceX96.eq(sqrtPriceStartX96)) {
+      // recompute unless we're on a lower tick boundary (i.e. already transitioned ticks), and haven't moved
+      tick = getTickAtSqrtRatio(sqrtPriceX96)
+    }
+  }
+
+  const [amount0, amount1] =
+    zeroForOne == exactInput
+      ? [amount.sub(amountSpecifiedRemaining), amountCalculated]
+      : [amountCalculated, amount.sub(amountSpecifiedRemaining)]
+
+  return { amount0, amount1, sqrtPriceX96, tick, liquidity }
+}
+
+// mirrors PoolTicksCounter.countInitializedTicksCrossed, including its truncating division of negative ticks
+export function countInitializedTicksCrossed(state: PoolState, tickBefore: number, tickAfter: number): number {
+  const { tickSpacing, ticks } = state
+  const compressedBefore = Math.trunc(tickBefore / tickSpacing)
+  const compressedAfter = Math.trunc(tickAfter / tickSpacing)
+  const lower = Math.min(compressedBefore, compressedAfter)
+  const higher = Math.max(compressedBefore, compressedAfter)
+
+  let initializedTicksCrossed = ticks.filter(({ tick }) => tick / tickSpacing >= lower && tick / tickSpacing <= higher)
+    .length
+
+  // tickAfter is only counted when swapping upwards, and tickBefore only when swapping downwards
+  if (isInitialized(state, tickAfter) && tickBefore > tickAfter) initializedTicksCrossed--
+  if (isInitialized(state, tickBefore) && tickBefore < tickAfter) initializedTicksCrossed--
+
+  return initializedTicksCrossed
+}
+
+function findPool(pools: PoolState[], tokenA: string, tokenB: string, fee: number): PoolState {
+  const [token0, token1] = tokenA.toLowerCase() < tokenB.toLowerCase() ? [tokenA, tokenB] : [tokenB, tokenA]
+  const pool = pools.find(
+    (pool) =>
+      pool.token0.toLowerCase() === token0.toLowerCase() &&
+      pool.token1.toLowerCase() === token1.toLowerCase() &&
+      pool.fee === fee
+  )
+  if (pool === undefined) throw new Error(`no state for pool ${tokenA}/${tokenB}/${fee}`)
+  return pool
+}
+
+function quoteSingle(
+  state: PoolState,
+  tokenIn: string,
+  tokenOut: string,
+  amountSpecified: BigNumber,
+  sqrtPriceLimitX96: BigNumberish
+): SingleQuote {
+  const zeroForOne = tokenIn.toLowerCase() < tokenOut.toLowerCase()
+  const exactInput = amountSpecified.gt(0)
+  const noPriceLimit = BigNumber.from(sqrtPriceLimitX96).isZero()
+
+  const { amount0, amount1, sqrtPriceX96, tick } = simulateSwap(
+    state,
+    zeroForOne,
+    amountSpecified,
+    noPriceLimit ? (zeroForOne ? MIN_SQRT_RATIO.add(1) : MAX_SQRT_RATIO.sub(1)) : sqrtPriceLimitX96
+  )
+
+  // swaps entirely within 0-liquidity regions are not supported
+  if (!amount0.gt(0) && !amount1.gt(0)) throw new Error('swap did not move any tokens')
+
+  const [amountToPay, amountReceived] = zeroForOne ? [amount0, amount1.mul(-1)] : [amount1, amount0.mul(-1)]
+  // without a price limit, an exact output quote must receive the full output amount
+  if (!exactInput && noPriceLimit && !amountReceived.eq(amountSpecified.mul(-1))) {
+    throw new Error('insufficient liquidity for the output amount')
+  }
+
+  return {
+    amount: exactInput ? amountReceived : amountToPay,
+    sqrtPriceX96After: sqrtPriceX96,
+    initializedTicksCrossed: countInitializedTicksCrossed(state, state.tick, tick),
+  }
+}
+
+// returns the same values as QuoterV2.quoteExactInputSingle, except for the gas estimate
+export function quoteExactInputSingle(
+  state: PoolState,
+  params: { tokenIn: string; tokenOut: string; amountIn: BigNumberish; sqrtPriceLimitX96?: BigNumberish }
+): SingleQuote {
+  return quoteSingle(
+    state,
+    params.tokenIn,
+    params.tokenOut,
+    BigNumber.from(params.amountIn),
+    params.sqrtPriceLimitX96 ?? 0
+  )
+}
+
+// returns the same values as QuoterV2.quoteExactOutputSingle, except for the gas estimate
+export function quoteExactOutputSingle(
+  state: PoolState,
+  params: { tokenIn: string; tokenOut: string; amount: BigNumberish; sqrtPriceLimitX96?: BigNumberish }
+): SingleQuote {
+  return quoteSingle(
+    state,
+    params.tokenIn,
+    params.tokenOut,
+    BigNumber.from(params.amount).mul(-1),
+    params.sqrtPriceLimitX96 ?? 0
+  )
+}
+
+// returns the same values as QuoterV2.quoteExactInput given the state of every pool in the path
+export function quoteExactInput(pools: PoolState[], path: string, amountIn: BigNumberish): Quote {
+  const { tokens, fees } = parsePath(path)
+  const quote: Quote = { amount: BigNumber.from(amountIn), sqrtPriceX96AfterList: [], initializedTicksCrossedList: [] }
+  for (let i = 0; i < fees.length; i++) {
+    // the outputs of prior swaps become the inputs to subsequent ones
+    const { amount, sqrtPriceX96After, initializedTicksCrossed } = quoteExactInputSingle(
+      findPool(pools, tokens[i], tokens[i + 1], fees[i]),
+      { tokenIn: tokens[i], tokenOut: tokens[i + 1], amountIn: quote.amount }
+    )
+    quote.amount = amount
+    quote.sqrtPriceX96AfterList.push(sqrtPriceX96After)
+    quote.initializedTicksCrossedList.push(initializedTicksCrossed)
+  }
+  return quote
+}
+
+// returns the same values as QuoterV2.quoteExactOutput, i.e. path must be provided in reverse order
+export function quoteExactOutput(pools: PoolState[], path: string, amountOut: BigNumberish): Quote {
+  const { tokens, fees } = parsePath(path)
+  const quote: Quote = { amount: BigNumber.from(amountOut), sqrtPriceX96AfterList: [], initializedTicksCrossedList: [] }
+  for (let i = 0; i < fees.length; i++) {
+    // the inputs of prior swaps become the outputs of subsequent ones
+    const { amount, sqrtPriceX96After, initializedTicksCrossed } = quoteExactOutputSingle(
+      findPool(pools, tokens[i], tokens[i + 1], fees[i]),
+      { tokenIn: tokens[i + 1], tokenOut: tokens[i], amount: quote.amount }
+    )
+    quote.amount = amount
+    quote.sqrtPriceX96AfterList.push(sqrtPriceX96After)
+    quote.initializedTicksCrossedList.push(initializedTicksCrossed)
+  }
+  return quote
+}
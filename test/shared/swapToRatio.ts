@@ -0,0 +1,128 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { getAmountsForLiquidity, getLiquidityForAmounts, getMintAmounts } from './liquidityAmounts'
+import { mulDiv } from './sqrtPriceMath'
+import { PoolState, simulateSwap } from './swapSimulator'
+import { getSqrtRatioAtTick, MAX_SQRT_RATIO, MIN_SQRT_RATIO } from './tickMath'
+
+// mirrors SwapToRatio, and the swap and mint that the contracts using it do with the result
+
+const Q96 = BigNumber.from(2).pow(96)
+
+export interface Range {
+  tickLower: number
+  tickUpper: number
+  // the fee of the pool of the range, which the swap is in
+  fee: number
+}
+
+export interface SwapAmount {
+  zeroForOne: boolean
+  amountIn: BigNumber
+}
+
+export interface SwapToRatioResult {
+  // the swap of the excess token, with an amountIn of 0 if there is no swap
+  zeroForOne: boolean
+  amountIn: BigNumber
+  amountOut: BigNumber
+  // what is added to the range
+  liquidity: BigNumber
+  amount0: BigNumber
+  amount1: BigNumber
+  // what could not be added and is sent back
+  refund0: BigNumber
+  refund1: BigNumber
+}
+
+function toValue1(amount0: BigNumber, sqrtPriceX96: BigNumber): BigNumber {
+  return mulDiv(mulDiv(amount0, sqrtPriceX96, Q96), sqrtPriceX96, Q96)
+}
+
+// mirrors SwapToRatio.getSwapAmount
+export function getSwapAmount(
+  { tickLower, tickUpper, fee }: Range,
+  sqrtPriceX96: BigNumberish,
+  amount0: BigNumberish,
+  amount1: BigNumberish
+): SwapAmount {
+  const sqrtPrice = BigNumber.from(sqrtPriceX96)
+  const amount0In = BigNumber.from(amount0)
+  const amount1In = BigNumber.from(amount1)
+
+  const { amount0: ratio0, amount1: ratio1 } = getAmountsForLiquidity(
+    sqrtPrice,
+    getSqrtRatioAtTick(tickLower),
+    getSqrtRatioAtTick(tickUpper),
+    Q96
+  )
+  if (ratio0.isZero()) return { zeroForOne: true, amountIn: amount0In }
+  if (ratio1.isZero()) return { zeroForOne: false, amountIn: amount1In }
+
+  const ratioValue0 = toValue1(ratio0, sqrtPrice)
+  const target1 = mulDiv(toValue1(amount0In, sqrtPrice).add(amount1In), ratio1, ratioValue0.add(ratio1))
+
+  if (amount1In.gt(target1)) {
+    return {
+      zeroForOne: false,
+      amountIn: mulDiv(
+        amount1In.sub(target1),
+        ratioValue0.add(ratio1),
+        ratioValue0.add(mulDiv(ratio1, 1e6 - fee, 1e6))
+      ),
+    }
+  }
+  const valueIn = mulDiv(
+    target1.sub(amount1In),
+    ratioValue0.add(ratio1),
+    ratio1.add(mulDiv(ratioValue0, 1e6 - fee, 1e6))
+  )
+  return { zeroForOne: true, amountIn: mulDiv(mulDiv(valueIn, Q96, sqrtPrice), Q96, sqrtPrice) }
+}
+
+// swaps the amounts to the ratio of the range in the pool and adds them to the range as liquidity
+export function swapToRatioAndMint(
+  state: PoolState,
+  range: Range,
+  amount0: BigNumberish,
+  amount1: BigNumberish
+): SwapToRatioResult {
+  let amount0Desired = BigNumber.from(amount0)
+  let amount1Desired = BigNumber.from(amount1)
+  let sqrtPriceX96 = state.sqrtPriceX96
+  const { zeroForOne, amountIn } = getSwapAmount(range, sqrtPriceX96, amount0Desired, amount1Desired)
+  let amountOut = BigNumber.from(0)
+  if (!amountIn.isZero()) {
+    const swap = simulateSwap(state, zeroForOne, amountIn, zeroForOne ? MIN_SQRT_RATIO.add(1) : MAX_SQRT_RATIO.sub(1))
+    sqrtPriceX96 = swap.sqrtPriceX96
+    if (zeroForOne) {
+      amountOut = swap.amount1.mul(-1)
+      amount0Desired = amount0Desired.sub(amountIn)
+      amount1Desired = amount1Desired.add(amountOut)
+    } else {
+      amountOut = swap.amount0.mul(-1)
+      amount0Desired = amount0Desired.add(amountOut)
+      amount1Desired = amount1Desired.sub(amountIn)
+    }
+  }
+
+  const sqrtRatioAX96 = getSqrtRatioAtTick(range.tickLower)
+  const sqrtRatioBX96 = getSqrtRatioAtTick(range.tickUpper)
+  const liquidity = getLiquidityForAmounts(sqrtPriceX96, sqrtRatioAX96, sqrtRatioBX96, amount0Desired, amount1Desired)
+  const { amount0: amount0Added, amount1: amount1Added } = getMintAmounts(
+    sqrtPriceX96,
+    sqrtRatioAX96,
+    sqrtRatioBX96,
+    liquidity
+  )
+
+  return {
+    zeroForOne,
+    amountIn,
+    amountOut,
+    liquidity,
+    amount0: amount0Added,
+    amount1: amount1Added,
+    refund0: amount0Desired.sub(amount0Added),
+    refund1: amount1Desired.sub(amount1Added),
+  }
+}
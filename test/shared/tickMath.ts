@@ -0,0 +1,92 @@
+import { BigNumber, BigNumberish, constants } from 'ethers'
+
+// mirrors the constants in the core TickMath library
+export const MIN_TICK = -887272
+export const MAX_TICK = -MIN_TICK
+export const MIN_SQRT_RATIO = BigNumber.from('4295128739')
+export const MAX_SQRT_RATIO = BigNumber.from('1461446703485210103287273052203988822378723970342')
+
+// the magic numbers of TickMath.getSqrtRatioAtTick, i.e. 2^128 / sqrt(1.0001)^(2^i) for i in [1, 19]
+const RATIO_MULTIPLIERS = [
+  '0xfff97272373d413259a46990580e213a',
+  '0xfff2e50f5f656932ef12357cf3c7fdcc',
+  '0xffe5caca7e10e4e61c3624eaa0941cd0',
+  '0xffcb9843d60f6159c9db58835c926644',
+  '0xff973b41fa98c081472e6896dfb254c0',
+  '0xff2ea16466c96a3843ec78b326b52861',
+  '0xfe5dee046a99a2a811c461f1969c3053',
+  '0xfcbe86c7900a88aedcffc83b479aa3a4',
+  '0xf987a7253ac413176f2b074cf7815e54',
+  '0xf3392b0822b70005940c7a398e4b70f3',
+  '0xe7159475a2c29b7443b29c7fa6e889d9',
+  '0xd097f3bdfd2022b8845ad8f792aa5825',
+  '0xa9f746462d870fdf8a65dc1f90e061e5',
+  '0x70d869a156d2a1b890bb3df62baf32f7',
+  '0x31be135f97d08fd981231505542fcfa6',
+  '0x9aa508b5b7a84e1c677de54f3e99bc9',
+  '0x5d6af8dedb81196699c329225ee604',
+  '0x2216e584f5fa1ea926041bedfe98',
+  '0x48a170391f7dc42444e8fa2',
+].map((multiplier) => BigNumber.from(multiplier))
+
+// returns the same value as TickMath.getSqrtRatioAtTick
+export function getSqrtRatioAtTick(tick: number): BigNumber {
+  if (!Number.isInteger(tick)) throw new Error('tick must be an integer')
+  const absTick = Math.abs(tick)
+  if (absTick > MAX_TICK) throw new Error('T')
+
+  let ratio = BigNumber.from(
+    absTick & 0x1 ? '0xfffcb933bd6fad37aa2d162d1a594001' : '0x100000000000000000000000000000000'
+  )
+  for (let i = 0; i < RATIO_MULTIPLIERS.length; i++) {
+    if (absTick & (0x2 << i)) ratio = ratio.mul(RATIO_MULTIPLIERS[i]).shr(128)
+  }
+
+  if (tick > 0) ratio = constants.MaxUint256.div(ratio)
+
+  // divide by 1<<32 rounding up to go from a Q128.128 to a Q128.96
+  return ratio.shr(32).add(ratio.mod(BigNumber.from(1).shl(32)).isZero() ? 0 : 1)
+}
+
+// arithmetic right shift, i.e. rounds towards negative infinity like sar
+function sar(x: BigNumber, bits: number): BigNumber {
+  const divisor = BigNumber.from(1).shl(bits)
+  return x.gte(0) ? x.div(divisor) : x.sub(divisor.sub(1)).div(divisor)
+}
+
+// returns the same value as TickMath.getTickAtSqrtRatio, i.e. the greatest tick for which
+// getSqrtRatioAtTick(tick) <= sqrtPriceX96
+export function getTickAtSqrtRatio(sqrtPriceX96: BigNumberish): number {
+  const sqrtPrice = BigNumber.from(sqrtPriceX96)
+  if (sqrtPrice.lt(MIN_SQRT_RATIO) || sqrtPrice.gte(MAX_SQRT_RATIO)) throw new Error('R')
+
+  const ratio = sqrtPrice.shl(32)
+
+  // find the most significant bit
+  let r = ratio
+  let msb = 0
+  for (const bits of [128, 64, 32, 16, 8, 4, 2, 1]) {
+    if (r.gte(BigNumber.from(1).shl(bits))) {
+      r = r.shr(bits)
+      msb += bits
+    }
+  }
+
+  r = msb >= 128 ? ratio.shr(msb - 127) : ratio.shl(127 - msb)
+
+  // the fractional bits of log_2 are computed by repeated squaring
+  let log2 = BigNumber.from(msb - 128).mul(BigNumber.from(1).shl(64))
+  for (let bit = 63; bit >= 50; bit--) {
+    r = r.mul(r).shr(127)
+    const f = r.shr(128).toNumber()
+    log2 = log2.add(BigNumber.from(f).shl(bit))
+    r = r.shr(f)
+  }
+
+  const logSqrt10001 = log2.mul('255738958999603826347141') // 128.128 number
+
+  const tickLow = sar(logSqrt10001.sub('3402992956809132418596140100660247210'), 128).toNumber()
+  const tickHi = sar(logSqrt10001.add('291339464771989622907027621153398088495'), 128).toNumber()
+
+  return tickLow === tickHi ? tickLow : getSqrtRatioAtTick(tickHi).lte(sqrtPrice) ? tickHi : tickLow
+}
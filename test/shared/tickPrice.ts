@@ -0,0 +1,51 @@
+import { BigNumber } from 'ethers'
+import { formatSqrtRatioX96, FormatSqrtRatioX96Options } from './formatSqrtRatioX96'
+import { getSqrtRatioAtTick, getTickAtSqrtRatio } from './tickMath'
+
+const TEN = BigNumber.from(10)
+
+// prices are decimal strings of the amount of whole token1 per whole token0, e.g. '2000.5'
+function parsePrice(price: string): [BigNumber, BigNumber] {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(price)
+  if (!match) throw new Error(`invalid price: ${price}`)
+  const fraction = match[2] ?? ''
+  return [BigNumber.from(match[1].concat(fraction)), TEN.pow(fraction.length)]
+}
+
+// returns the greatest integer whose square is at most x
+function sqrtFloor(x: BigNumber): BigNumber {
+  if (x.lt(2)) return x
+  let z = x
+  let y = x.div(2).add(1)
+  while (y.lt(z)) {
+    z = y
+    y = x.div(y).add(y).div(2)
+  }
+  return z
+}
+
+// returns the sqrt price of the given price rounded down, accounting for the token decimals
+export function priceToSqrtRatioX96(
+  price: string,
+  decimalsToken0: number = 18,
+  decimalsToken1: number = 18
+): BigNumber {
+  let [numerator, denominator] = parsePrice(price)
+  if (decimalsToken1 > decimalsToken0) numerator = numerator.mul(TEN.pow(decimalsToken1 - decimalsToken0))
+  else denominator = denominator.mul(TEN.pow(decimalsToken0 - decimalsToken1))
+  return sqrtFloor(numerator.shl(192).div(denominator))
+}
+
+// returns the greatest tick whose price is at most the given price
+export function priceToTick(price: string, decimalsToken0: number = 18, decimalsToken1: number = 18): number {
+  return getTickAtSqrtRatio(priceToSqrtRatioX96(price, decimalsToken0, decimalsToken1))
+}
+
+export function tickToPrice(
+  tick: number,
+  decimalsToken0: number = 18,
+  decimalsToken1: number = 18,
+  options: FormatSqrtRatioX96Options = {}
+): string {
+  return formatSqrtRatioX96(getSqrtRatioAtTick(tick), decimalsToken0, decimalsToken1, options)
+}
@@ -7,3 +7,11 @@ export const getMaxLiquidityPerTick = (tickSpacing: number) =>
     .pow(128)
     .sub(1)
     .div((getMaxTick(tickSpacing) - getMinTick(tickSpacing)) / tickSpacing + 1)
+
+// rounds the tick to the nearest multiple of the tick spacing that can be used as a position boundary
+export const nearestUsableTick = (tick: number, tickSpacing: number) => {
+  if (!Number.isInteger(tick) || Math.abs(tick) > 887272) throw new Error(`invalid tick: ${tick}`)
+  if (!Number.isInteger(tickSpacing) || tickSpacing <= 0) throw new Error(`invalid tick spacing: ${tickSpacing}`)
+  const rounded = Math.round(tick / tickSpacing) * tickSpacing
+  return Math.min(Math.max(rounded, getMinTick(tickSpacing)), getMaxTick(tickSpacing))
+}
@@ -0,0 +1,124 @@
+import { BigNumber } from 'ethers'
+import { ITickLens, IUniswapV3Pool } from '../../typechain'
+import { mulDiv, Q96 } from './sqrtPriceMath'
+import { fetchPoolState, PoolState, simulateSwap } from './swapSimulator'
+import { getSqrtRatioAtTick, MAX_TICK, MIN_TICK } from './tickMath'
+
+// estimates the capital it takes to move the arithmetic mean tick that OracleLibrary.consult returns for a pool.
+// the manipulation swaps the pool to a spot tick in one block, holds it there for some seconds of the window and swaps
+// back. the mean tick moves by the shift of the spot tick times the share of the window that it is held for, so holding
+// for the whole window needs the smallest shift. the pool is assumed to have been at its current tick for the window
+
+const MAX_INT256 = BigNumber.from(2).pow(255).sub(1)
+
+export interface ManipulationOptions {
+  // the number of ticks to move the arithmetic mean tick by
+  ticks: number
+  // the window of the time-weighted average
+  secondsAgo: number
+  // how long the manipulated price is held, the whole window by default
+  holdSeconds?: number
+}
+
+export interface ManipulationCost {
+  zeroForOne: boolean
+  // the spot tick that the swap moves the pool to, and whether it is within the bounds of the pool
+  targetTick: number
+  feasible: boolean
+  // the sqrt price that the swap stops at, to execute the manipulation with as the price limit
+  sqrtPriceLimitX96: BigNumber
+  // the amount of the token in that the swap takes, including the fee, and the amount of the token out that it gives
+  amountIn: BigNumber
+  amountOut: BigNumber
+  // the amount of the token in that is lost if the price returns to where it was, i.e. the amount in less the value of
+  // the amount out at the price before the manipulation
+  loss: BigNumber
+}
+
+export interface ManipulationReport {
+  pool: string
+  fee: number
+  tick: number
+  // the shift of the spot tick that moves the mean tick by the requested number of ticks
+  spotTickShift: number
+  // moves the mean tick up by buying token0 with token1, and down by selling token0 for token1
+  up: ManipulationCost
+  down: ManipulationCost
+}
+
+// the shift of the spot tick that moves the mean tick over secondsAgo by the given number of ticks
+export function getSpotTickShift({ ticks, secondsAgo, holdSeconds = secondsAgo }: ManipulationOptions): number {
+  if (ticks <= 0) throw new Error('ticks must be positive')
+  if (holdSeconds <= 0 || holdSeconds > secondsAgo) throw new Error('holdSeconds must be within the window')
+  return Math.ceil((ticks * secondsAgo) / holdSeconds)
+}
+
+// the cost of swapping the pool from its current spot tick to the current tick shifted by spotTickShift
+export function getManipulationCost(state: PoolState, spotTickShift: number, zeroForOne: boolean): ManipulationCost {
+  const unboundedTick = zeroForOne ? state.tick - spotTickShift : state.tick + spotTickShift
+  // the price limit of a swap must be within the bounds
+  const targetTick = Math.min(Math.max(unboundedTick, MIN_TICK + 1), MAX_TICK - 1)
+  const sqrtPriceLimitX96 = getSqrtRatioAtTick(targetTick)
+
+  // an exact input swap of more than any pool holds, which stops at the price limit
+  const { amount0, amount1 } = simulateSwap(state, zeroForOne, MAX_INT256, sqrtPriceLimitX96)
+  const [amountIn, amountOut] = zeroForOne ? [amount0, amount1.mul(-1)] : [amount1, amount0.mul(-1)]
+
+  // the value of the amount out in the token in at the price before the manipulation
+  const { sqrtPriceX96 } = state
+  const value = zeroForOne
+    ? mulDiv(mulDiv(amountOut, Q96, sqrtPriceX96), Q96, sqrtPriceX96)
+    : mulDiv(mulDiv(amountOut, sqrtPriceX96, Q96), sqrtPriceX96, Q96)
+
+  return {
+    zeroForOne,
+    targetTick,
+    feasible: targetTick === unboundedTick,
+    sqrtPriceLimitX96,
+    amountIn,
+    amountOut,
+    loss: amountIn.sub(value),
+  }
+}
+
+export function getManipulationReport(
+  pool: string,
+  state: PoolState,
+  options: ManipulationOptions
+): ManipulationReport {
+  const spotTickShift = getSpotTickShift(options)
+  return {
+    pool,
+    fee: state.fee,
+    tick: state.tick,
+    spotTickShift,
+    up: getManipulationCost(state, spotTickShift, false),
+    down: getManipulationCost(state, spotTickShift, true),
+  }
+}
+
+// reports the cost of manipulating each pool, e.g. each fee tier of a pair, reading the liquidity of the pools via the
+// TickLens
+export async function getManipulationReports(
+  pools: IUniswapV3Pool[],
+  tickLens: ITickLens,
+  options: ManipulationOptions
+): Promise<ManipulationReport[]> {
+  const states = await Promise.all(pools.map((pool) => fetchPoolState(pool, tickLens)))
+  return states.map((state, i) => getManipulationReport(pools[i].address, state, options))
+}
+
+// one line per pool, with the amounts in the smallest units of the tokens
+export function formatManipulationReports(reports: ManipulationReport[]): string {
+  const formatCost = ({ targetTick, feasible, amountIn, loss }: ManipulationCost, tokenIn: string) =>
+    `to tick ${targetTick}${feasible ? '' : ' (the bound of the pool)'} ` +
+    `for ${amountIn.toString()} ${tokenIn} (loss ${loss.toString()})`
+
+  return reports
+    .map(
+      ({ pool, fee, tick, spotTickShift, up, down }) =>
+        `${pool} fee ${fee} at tick ${tick}, spot shift ${spotTickShift}: ` +
+        `up ${formatCost(up, 'token1')}, down ${formatCost(down, 'token0')}`
+    )
+    .join('\n')
+}
@@ -0,0 +1,101 @@
+import { BigNumber, BigNumberish } from 'ethers'
+import { fees, PoolFeeGrowth, PositionData, principal } from './positionValue'
+import { PoolState, simulateSwap } from './swapSimulator'
+import { swapToRatioAndMint, SwapToRatioResult } from './swapToRatio'
+import { MAX_SQRT_RATIO, MIN_SQRT_RATIO } from './tickMath'
+
+// simulates Zap.zapIn and Zap.zapOut, so the swap and the liquidity of the minted position, or the amount out, can be
+// known before sending the transaction
+
+export interface ZapInParams {
+  tickLower: number
+  tickUpper: number
+  // either token0 or token1 of the pool
+  tokenIn: string
+  amountIn: BigNumberish
+}
+
+// computes the outcome of a zap from the state of the pool of the position
+export function simulateZapIn(
+  state: PoolState,
+  { tickLower, tickUpper, tokenIn, amountIn }: ZapInParams
+): SwapToRatioResult {
+  const zero = BigNumber.from(0)
+  if (tokenIn.toLowerCase() === state.token0.toLowerCase()) {
+    return swapToRatioAndMint(state, { tickLower, tickUpper, fee: state.fee }, amountIn, zero)
+  } else if (tokenIn.toLowerCase() === state.token1.toLowerCase()) {
+    return swapToRatioAndMint(state, { tickLower, tickUpper, fee: state.fee }, zero, amountIn)
+  }
+  throw new Error('Invalid token')
+}
+
+export interface ZapOutParams {
+  // represented as a numerator over 100
+  percentageToRemove: number
+  // either token0 or token1 of the position
+  tokenOut: string
+}
+
+export interface ZapOutSimulation {
+  // the liquidity removed from the position
+  liquidity: BigNumber
+  // the amount of the other token that is swapped
+  amountIn: BigNumber
+  // the amount of the token out that is received in total
+  amountOut: BigNumber
+}
+
+// the swap happens after the liquidity is removed from the pool
+function removeLiquidity(
+  state: PoolState,
+  { tickLower, tickUpper }: Pick<PositionData, 'tickLower' | 'tickUpper'>,
+  liquidity: BigNumber
+): PoolState {
+  return {
+    ...state,
+    liquidity: tickLower <= state.tick && state.tick < tickUpper ? state.liquidity.sub(liquidity) : state.liquidity,
+    ticks: state.ticks.map(({ tick, liquidityNet }) => ({
+      tick,
+      liquidityNet:
+        tick === tickLower
+          ? liquidityNet.sub(liquidity)
+          : tick === tickUpper
+          ? liquidityNet.add(liquidity)
+          : liquidityNet,
+    })),
+  }
+}
+
+// computes the outcome of a zap out of a position from the state of its pool and its fee growth
+export function simulateZapOut(
+  state: PoolState,
+  position: PositionData,
+  poolFeeGrowth: PoolFeeGrowth,
+  { percentageToRemove, tokenOut }: ZapOutParams
+): ZapOutSimulation {
+  if (percentageToRemove <= 0) throw new Error('Percentage too small')
+  if (percentageToRemove > 100) throw new Error('Percentage too large')
+  if (![position.token0, position.token1].some((token) => token.toLowerCase() === tokenOut.toLowerCase())) {
+    throw new Error('Invalid token')
+  }
+
+  const liquidity = position.liquidity.mul(percentageToRemove).div(100)
+  const removed = principal({ ...position, liquidity }, state.sqrtPriceX96)
+  const collected = fees(position, poolFeeGrowth)
+  const amount0 = removed.amount0.add(collected.amount0)
+  const amount1 = removed.amount1.add(collected.amount1)
+
+  const zeroForOne = tokenOut.toLowerCase() === position.token1.toLowerCase()
+  const amountIn = zeroForOne ? amount0 : amount1
+  let amountOut = zeroForOne ? amount1 : amount0
+  if (!amountIn.isZero()) {
+    const swap = simulateSwap(
+      removeLiquidity(state, position, liquidity),
+      zeroForOne,
+      amountIn,
+      zeroForOne ? MIN_SQRT_RATIO.add(1) : MAX_SQRT_RATIO.sub(1)
+    )
+    amountOut = amountOut.sub(zeroForOne ? swap.amount1 : swap.amount0)
+  }
+  return { liquidity, amountIn, amountOut }
+}